@@ -6,6 +6,7 @@ import { PropertyPanel } from './components/PropertyPanel'
 import { Viewport } from './components/Viewport'
 import { RandomizationPanel } from './components/RandomizationPanel'
 import { InstructionPanel } from './components/InstructionPanel'
+import { ExportFramePanel } from './components/ExportFramePanel'
 import { HelpModal } from './components/HelpModal'
 
 export function App() {
@@ -47,6 +48,7 @@ export function App() {
           <div class="left-panels">
             <AssetPanel />
             <InstructionPanel />
+            <ExportFramePanel />
             <RandomizationPanel />
           </div>
           <Viewport />
@@ -0,0 +1,30 @@
+import * as THREE from 'three'
+import { findMainFile, LoadedAsset } from '../scene/AssetLoader'
+import { AssetSource } from '../io/importScene'
+
+// Loads assets without parsing geometry, so bundles can be processed in Node
+// without WebGL. Each object is an empty group that only carries the transform;
+// extents come from the bounds recorded in scene.json.
+export class HeadlessAssetLoader implements AssetSource {
+  private nextId = 0
+
+  async loadFromFiles(files: Map<string, File>, folderName: string): Promise<LoadedAsset | null> {
+    const found = findMainFile(files)
+    if (!found) {
+      console.warn('No supported 3D file found in folder (USD, USDZ, GLTF, GLB):', folderName)
+      return null
+    }
+
+    const group = new THREE.Group()
+    group.name = folderName
+
+    return {
+      id: `asset_${this.nextId++}`,
+      name: folderName || found.mainFile.split('/').pop()?.replace(/\.[^.]+$/, '') || 'Unnamed',
+      object: group,
+      files,
+      mainFile: found.mainFile,
+      fileType: found.fileType,
+    }
+  }
+}
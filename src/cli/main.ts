@@ -0,0 +1,453 @@
+import { readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import JSZip from 'jszip'
+import * as THREE from 'three'
+import { importSceneFromZip, ImportResult } from '../io/importScene'
+import { toZUpPosition } from '../io/frame'
+import { describeReferenceFrame, ReferenceFrame, referenceFrameProblem, WORLD_FRAME } from '../io/referenceFrame'
+import { exportName } from '../io/exportCommon'
+import { buildSceneBundle, ExportFormat, ExportOptions, generateBundleBytes } from '../io/exportScene'
+import { DEFAULT_POSE_ENCODING, isPoseEncoding, POSE_ENCODINGS, PoseEncoding } from '../io/poseEncoding'
+import { CONDITION_TABLE_FORMATS, ConditionTableFormat } from '../io/conditionTables'
+import { SavedCondition, SpawnBounds } from '../hooks/useScene'
+import { createObstacles, createSampleTarget, withCarriedBounds } from '../randomization/sampler'
+import { parseSeed, randomSeed } from '../randomization/rng'
+import { generateConditions, totalRejections } from '../randomization/batch'
+import { regionBoundsFor } from '../randomization/regions'
+import { describeArea } from '../randomization/areas'
+import { describeConstraint } from '../randomization/constraints'
+import { describeOrientation } from '../randomization/orientation'
+import { SAMPLING_STRATEGIES, SamplingStrategy } from '../randomization/strategies'
+import { createSurfaceProbe, HEIGHT_MODES, HeightMode } from '../randomization/surfaces'
+import { describeCoverage } from '../randomization/coverage'
+import { DEFAULT_RANDOMIZATION_SETTINGS, RandomizationSettings } from '../randomization/spec'
+import { getParent, isCarried, withCarriedPoses } from '../scene/hierarchy'
+import { HeadlessAssetLoader } from './HeadlessAssetLoader'
+import { validateBundle } from './validate'
+
+const USAGE = `Usage: compose-env <command> <scene.zip> [options]
+
+Commands:
+  validate <scene.zip>      Check the bundle and report problems (exit code 1 on errors)
+  info <scene.zip>          List assets, instruction and initial conditions
+  convert <scene.zip>       Re-export the bundle in the current format (or as MJCF with --format mjcf)
+  regenerate <scene.zip>    Sample new initial conditions and write a fresh bundle
+
+Options:
+  --out <file>              Output bundle for convert/regenerate (default: <input>.<command>.zip)
+  --count <n>               Number of conditions to sample (regenerate, default 10)
+  --bounds <minX,maxX,minY,maxY>
+                            Default spawn area in the Z-up frame; per-asset regions are kept
+                            (regenerate, default: the bundle's randomization.json, else
+                            -0.3,0.3,-0.3,0.3)
+  --seed <n>                Seed of the first draw, later draws count up from it (regenerate,
+                            default random)
+  --strategy <name>         How positions spread over the conditions: uniform, stratified,
+                            latinHypercube or poissonDisk (regenerate, default: the bundle's
+                            randomization.json, else uniform)
+  --height <mode>           preserve keeps each asset's height, dropToSurface rests it on the
+                            static asset below it (regenerate, default: the bundle's
+                            randomization.json, else preserve)
+  --append                  Keep the existing conditions and add the new ones (regenerate)
+  --format <usd|mjcf>       Scene description to write (convert/regenerate, default usd)
+  --frame <frame>           Frame of the exported poses: world, the name of a static asset, or
+                            x,y,z,roll,pitch,yaw in the Z-up frame (m, degrees)
+                            (convert/regenerate, default: the bundle's frame)
+  --encoding <name>         How poses are written: xyzw, wxyz, matrix or rpy
+                            (convert/regenerate, default: the bundle's encoding)
+  --tables <list>           Also write the conditions as csv, jsonl and/or npz, e.g. csv,npz
+                            (convert/regenerate)
+  --verbose                 Print import progress
+  --help                    Show this message
+`
+
+const DEFAULT_COUNT = 10
+
+interface CliArgs {
+  command: string
+  input: string
+  options: Map<string, string>
+  flags: Set<string>
+}
+
+class CliError extends Error {}
+
+function parseArgs(argv: string[]): CliArgs {
+  const positional: string[] = []
+  const options = new Map<string, string>()
+  const flags = new Set<string>()
+  const valueOptions = new Set(['out', 'count', 'bounds', 'format', 'seed', 'strategy', 'height', 'frame', 'encoding', 'tables'])
+  const flagOptions = new Set(['append', 'verbose', 'help'])
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg.startsWith('--')) {
+      const name = arg.slice(2)
+      if (valueOptions.has(name)) {
+        const value = argv[++i]
+        if (value === undefined) throw new CliError(`Missing value for --${name}`)
+        options.set(name, value)
+      } else if (flagOptions.has(name)) {
+        flags.add(name)
+      } else {
+        throw new CliError(`Unknown option ${arg}`)
+      }
+    } else {
+      positional.push(arg)
+    }
+  }
+
+  // <command> <scene.zip>; anything more is likely a mistyped option's value
+  if (positional.length > 2) {
+    throw new CliError(`Unexpected argument "${positional[2]}"`)
+  }
+
+  return { command: positional[0] || '', input: positional[1] || '', options, flags }
+}
+
+function parseCount(value: string | undefined): number {
+  if (value === undefined) return DEFAULT_COUNT
+  const count = Number(value)
+  if (!Number.isInteger(count) || count < 1) {
+    throw new CliError(`--count must be a positive integer, got "${value}"`)
+  }
+  return count
+}
+
+function parseBounds(value: string | undefined): SpawnBounds | undefined {
+  if (value === undefined) return undefined
+  const parts = value.split(',').map(Number)
+  if (parts.length !== 4 || parts.some(n => !Number.isFinite(n))) {
+    throw new CliError(`--bounds must be four numbers minX,maxX,minY,maxY, got "${value}"`)
+  }
+  const [minX, maxX, minY, maxY] = parts
+  if (minX >= maxX || minY >= maxY) {
+    throw new CliError('--bounds minimum must be smaller than maximum')
+  }
+  return { minX, maxX, minY, maxY }
+}
+
+function parseSeedOption(value: string | undefined): number {
+  if (value === undefined) return randomSeed()
+  const seed = parseSeed(value)
+  if (seed === null) {
+    throw new CliError(`--seed must be an integer from 0 to 4294967295, got "${value}"`)
+  }
+  return seed
+}
+
+function parseStrategy(value: string | undefined): SamplingStrategy | undefined {
+  if (value === undefined) return undefined
+  const strategy = SAMPLING_STRATEGIES.find(s => s.value === value)
+  if (!strategy) {
+    throw new CliError(`--strategy must be one of ${SAMPLING_STRATEGIES.map(s => s.value).join(', ')}, got "${value}"`)
+  }
+  return strategy.value
+}
+
+function parseHeightMode(value: string | undefined): HeightMode | undefined {
+  if (value === undefined) return undefined
+  const mode = HEIGHT_MODES.find(m => m.value === value)
+  if (!mode) {
+    throw new CliError(`--height must be one of ${HEIGHT_MODES.map(m => m.value).join(', ')}, got "${value}"`)
+  }
+  return mode.value
+}
+
+function parseFormat(value: string | undefined): ExportFormat {
+  if (value === undefined) return 'usd'
+  if (value !== 'usd' && value !== 'mjcf') {
+    throw new CliError(`--format must be usd or mjcf, got "${value}"`)
+  }
+  return value
+}
+
+// --frame, --encoding and --tables, which say how the exported conditions are written
+function parsePoseOptions(args: CliArgs, result: ImportResult): Pick<ExportOptions, 'referenceFrame' | 'poseEncoding' | 'conditionTables'> {
+  return {
+    referenceFrame: parseFrameOption(args.options.get('frame'), result),
+    poseEncoding: parseEncodingOption(args.options.get('encoding'), result),
+    conditionTables: parseTables(args.options.get('tables')),
+  }
+}
+
+function parseFrameOption(value: string | undefined, result: ImportResult): ReferenceFrame | undefined {
+  if (value === undefined) return result.referenceFrame
+  if (value === 'world') return WORLD_FRAME
+
+  const asset = result.assets.find(a => a.name === value || exportName(a) === value)
+  if (asset) {
+    const frame: ReferenceFrame = { kind: 'asset', assetId: asset.id }
+    const problem = referenceFrameProblem(frame, result.assets)
+    if (problem) throw new CliError(problem)
+    return frame
+  }
+
+  const parts = value.split(',').map(Number)
+  if (parts.length !== 6 || parts.some(n => !Number.isFinite(n))) {
+    throw new CliError(`--frame must be world, an asset name or x,y,z,roll,pitch,yaw, got "${value}"`)
+  }
+  return { kind: 'manual', position: parts.slice(0, 3), rpy: parts.slice(3) }
+}
+
+function parseEncodingOption(value: string | undefined, result: ImportResult): PoseEncoding | undefined {
+  if (value === undefined) return result.poseEncoding
+  if (!isPoseEncoding(value)) {
+    throw new CliError(`--encoding must be one of ${POSE_ENCODINGS.map(e => e.value).join(', ')}, got "${value}"`)
+  }
+  return value
+}
+
+function parseTables(value: string | undefined): ConditionTableFormat[] {
+  if (value === undefined) return []
+  const formats = value.split(',').map(part => part.trim())
+  const unknown = formats.find(format => !CONDITION_TABLE_FORMATS.some(f => f.value === format))
+  if (unknown !== undefined) {
+    throw new CliError(`--tables must list ${CONDITION_TABLE_FORMATS.map(f => f.value).join(', ')}, got "${unknown}"`)
+  }
+  return formats as ConditionTableFormat[]
+}
+
+function defaultOutput(input: string, command: string): string {
+  const ext = path.extname(input)
+  return path.join(path.dirname(input), `${path.basename(input, ext)}.${command}.zip`)
+}
+
+async function loadBundle(input: string, verbose: boolean): Promise<{ zip: JSZip; result: ImportResult }> {
+  if (!input) throw new CliError('No input bundle given')
+
+  const zip = await JSZip.loadAsync(await readFile(input))
+
+  // Import logs every step; keep stdout for our own output unless asked
+  const result = await importSceneFromZip(zip, new HeadlessAssetLoader(), { log: verbose ? console.log : () => {} })
+  return { zip, result }
+}
+
+async function writeBundle(
+  result: ImportResult,
+  conditions: SavedCondition[],
+  output: string,
+  format: ExportFormat,
+  randomization: RandomizationSettings | undefined,
+  poses: Pick<ExportOptions, 'referenceFrame' | 'poseEncoding' | 'conditionTables'>
+): Promise<void> {
+  const built = buildSceneBundle(result.assets, conditions, result.instruction, {
+    filename: path.basename(output),
+    format,
+    randomization,
+    ...poses,
+  })
+  if (!built.success || !built.bundle) {
+    throw new CliError(built.error || 'Export failed')
+  }
+  await writeFile(output, await generateBundleBytes(built.bundle))
+  console.log(`Wrote ${output}`)
+}
+
+function formatPosition(position: THREE.Vector3): string {
+  const p = toZUpPosition(position)
+  return `(${p.x.toFixed(3)}, ${p.y.toFixed(3)}, ${p.z.toFixed(3)})`
+}
+
+async function runValidate(args: CliArgs): Promise<number> {
+  const { zip, result } = await loadBundle(args.input, args.flags.has('verbose'))
+  const report = await validateBundle(zip, result)
+
+  for (const warning of report.warnings) console.log(`warning: ${warning}`)
+  for (const error of report.errors) console.log(`error: ${error}`)
+  console.log(`${args.input}: ${report.errors.length} error(s), ${report.warnings.length} warning(s)`)
+
+  return report.errors.length > 0 ? 1 : 0
+}
+
+async function runInfo(args: CliArgs): Promise<number> {
+  const { result } = await loadBundle(args.input, args.flags.has('verbose'))
+  if (!result.success) throw new CliError(result.error || 'Import failed')
+
+  const nameWidth = Math.max(...result.assets.map(a => a.name.length))
+  console.log(`Instruction: ${result.instruction || '(none)'}`)
+  if (result.referenceFrame) {
+    console.log(`Poses relative to: ${describeReferenceFrame(result.referenceFrame, result.assets)}`)
+  }
+  if (result.poseEncoding && result.poseEncoding !== DEFAULT_POSE_ENCODING) {
+    console.log(`Pose encoding: ${POSE_ENCODINGS.find(e => e.value === result.poseEncoding)!.label}`)
+  }
+  console.log(`Assets (${result.assets.length}):`)
+  for (const asset of result.assets) {
+    const role = asset.disableGravity ? 'static ' : 'dynamic'
+    const parent = getParent(result.assets, asset)
+    const attached = parent ? `  (on ${parent.name})` : ''
+    console.log(`  ${asset.name.padEnd(nameWidth)}  ${role}  ${formatPosition(asset.object.position)}  ${asset.mainFile}${attached}`)
+  }
+
+  const names = new Map(result.assets.map(a => [a.id, a.name]))
+  console.log(`Initial conditions (${result.savedConditions.length}):`)
+  result.savedConditions.forEach((condition, index) => {
+    const poses = [...condition.poses].map(([id, pose]) => `${names.get(id)} ${formatPosition(pose.position)}`)
+    const batch = condition.batch ? ` (${condition.batch.strategy} batch of ${condition.batch.count} from seed ${condition.batch.firstSeed})` : ''
+    const seed = condition.seed !== undefined ? `  seed ${condition.seed}${batch}` : ''
+    const name = condition.name ? `  "${condition.name}"` : ''
+    const tags = condition.tags ? `  [${condition.tags.join(', ')}]` : ''
+    console.log(`  #${index + 1}${name}  ${poses.join('  ')}${seed}${tags}`)
+    if (condition.notes) console.log(`      ${condition.notes}`)
+  })
+
+  const randomization = result.randomization
+  if (randomization) {
+    const { spawnBounds, spawnRegions, exclusionZones, yawRange, collisionMargin, constraints, orientationPolicies, samplingStrategy, heightMode } = randomization
+    console.log('Randomization:')
+    console.log(`  area    ${describeArea(spawnBounds)}`)
+    for (const region of spawnRegions) {
+      const members = result.assets.filter(a => region.assetIds.includes(a.id)).map(a => a.name)
+      console.log(`  region  ${region.name}: ${describeArea(region.bounds)} (${members.join(', ') || 'no assets'})`)
+    }
+    for (const zone of exclusionZones) {
+      console.log(`  exclude ${zone.name}: ${describeArea(zone.bounds)}`)
+    }
+    console.log(`  yaw     ${yawRange.min} to ${yawRange.max} deg`)
+    for (const [id, policy] of Object.entries(orientationPolicies)) {
+      console.log(`  orient  ${names.get(id) ?? id}: ${describeOrientation(policy)}`)
+    }
+    console.log(`  margin  ${collisionMargin} m`)
+    console.log(`  spread  ${samplingStrategy}`)
+    console.log(`  height  ${heightMode}`)
+    for (const constraint of constraints) {
+      console.log(`  require ${describeConstraint(constraint, id => names.get(id) ?? id)}`)
+    }
+  } else {
+    console.log('Randomization: (no randomization.json)')
+  }
+
+  return 0
+}
+
+async function runConvert(args: CliArgs): Promise<number> {
+  const format = parseFormat(args.options.get('format'))
+  const { result } = await loadBundle(args.input, args.flags.has('verbose'))
+  if (!result.success) throw new CliError(result.error || 'Import failed')
+
+  const poses = parsePoseOptions(args, result)
+  await writeBundle(result, result.savedConditions, args.options.get('out') || defaultOutput(args.input, 'convert'), format, result.randomization, poses)
+  return 0
+}
+
+async function runRegenerate(args: CliArgs): Promise<number> {
+  const count = parseCount(args.options.get('count'))
+  const bounds = parseBounds(args.options.get('bounds'))
+  const format = parseFormat(args.options.get('format'))
+  const firstSeed = parseSeedOption(args.options.get('seed'))
+  const strategy = parseStrategy(args.options.get('strategy'))
+  const height = parseHeightMode(args.options.get('height'))
+
+  const { result } = await loadBundle(args.input, args.flags.has('verbose'))
+  if (!result.success) throw new CliError(result.error || 'Import failed')
+  const poses = parsePoseOptions(args, result)
+
+  // Start from the bundle's settings; --bounds overrides the spawn area,
+  // --strategy the strategy and --height the height mode
+  const settings: RandomizationSettings = { ...(result.randomization ?? DEFAULT_RANDOMIZATION_SETTINGS) }
+  if (bounds) settings.spawnBounds = bounds
+  if (strategy) settings.samplingStrategy = strategy
+  if (height) settings.heightMode = height
+  const { spawnBounds, spawnRegions, exclusionZones, yawRange, collisionMargin, constraints, orientationPolicies, samplingStrategy, heightMode } = settings
+
+  // Same selection as the editor: exportable, gravity-enabled, unlocked assets,
+  // except those carried by a dynamic asset they are attached to
+  const assets = result.assets
+  const dynamicAssets = assets.filter(a => !a.excludeFromExport && !a.disableGravity && !a.locked && !isCarried(assets, a))
+  if (dynamicAssets.length === 0) throw new CliError('No dynamic assets to randomize')
+
+  // Sample relative to the scene's authored poses, like the editor does
+  const basePoses = new Map(assets.map(asset => [asset.id, {
+    position: asset.object.position.clone(),
+    quaternion: asset.object.quaternion.clone(),
+  }]))
+  // Carried assets are checked as part of the asset carrying them
+  const targets = dynamicAssets.map(asset => withCarriedBounds(createSampleTarget(
+    asset,
+    basePoses.get(asset.id)!,
+    regionBoundsFor(spawnRegions, asset.id, spawnBounds),
+    orientationPolicies[asset.id]
+  ), assets, basePoses))
+
+  // Rejected draws are skipped, like the editor's Generate N
+  const batch = await generateConditions(targets, {
+    bounds: spawnBounds,
+    exclusionZones: exclusionZones.map(zone => zone.bounds),
+    obstacles: createObstacles(assets.filter(a => !isCarried(assets, a))),
+    constraints,
+    yawRange,
+    collisionMargin,
+    strategy: samplingStrategy,
+    surfaceProbe: heightMode === 'dropToSurface' ? createSurfaceProbe(result.assets) : undefined,
+    count,
+    firstSeed,
+  })
+  const { collision, outOfBounds, excluded, constraint, cannotFit } = batch.rejections
+  console.log(`Sampled ${batch.generated} condition(s) for ${dynamicAssets.map(a => a.name).join(', ')} in ${batch.draws} draw(s) from seed ${firstSeed}`)
+  console.log(`Rejected ${totalRejections(batch.rejections)}: ${collision} collision, ${outOfBounds} out of bounds, ${excluded} in exclusion zones, ${constraint} broke constraints, ${cannotFit} couldn't fit`)
+  const names = new Map(result.assets.map(a => [a.id, a.name]))
+  for (const [id, failures] of Object.entries(batch.constraintFailures)) {
+    const failed = constraints.find(c => c.id === id)
+    if (failed) console.log(`  ${describeConstraint(failed, assetId => names.get(assetId) ?? assetId)}: failed ${failures} time(s)`)
+  }
+  if (batch.generated > 0) {
+    console.log(`Coverage (${samplingStrategy}):`)
+    for (const coverage of batch.coverage) {
+      console.log(`  ${names.get(coverage.assetId) ?? coverage.assetId}: ${describeCoverage(coverage)}`)
+    }
+  }
+
+  if (batch.stopReason === 'cannotFit') {
+    throw new CliError('An asset is larger than the spawn area')
+  }
+  if (batch.generated === 0) {
+    throw new CliError(`No condition could be placed in ${batch.draws} draws`)
+  }
+  if (batch.generated < count) {
+    console.error(`warning: only ${batch.generated} of ${count} conditions placed before the draw limit`)
+  }
+
+  const conditions: SavedCondition[] = args.flags.has('append') ? [...result.savedConditions] : []
+  conditions.push(...batch.conditions.map(condition => ({
+    ...condition,
+    poses: withCarriedPoses(assets, condition.poses, basePoses),
+  })))
+
+  await writeBundle(result, conditions, args.options.get('out') || defaultOutput(args.input, 'regenerate'), format, settings, poses)
+  return 0
+}
+
+async function main(argv: string[]): Promise<number> {
+  const args = parseArgs(argv)
+
+  if (args.flags.has('help')) {
+    console.log(USAGE)
+    return 0
+  }
+  if (!args.command) {
+    console.error(USAGE)
+    return 1
+  }
+
+  switch (args.command) {
+    case 'validate':
+      return runValidate(args)
+    case 'info':
+      return runInfo(args)
+    case 'convert':
+      return runConvert(args)
+    case 'regenerate':
+      return runRegenerate(args)
+    default:
+      throw new CliError(`Unknown command "${args.command}"\n\n${USAGE}`)
+  }
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (e) => {
+    console.error(`error: ${e instanceof Error ? e.message : String(e)}`)
+    process.exit(e instanceof CliError ? 2 : 1)
+  }
+)
@@ -0,0 +1,284 @@
+import JSZip from 'jszip'
+import { ImportResult } from '../io/importScene'
+import { getUnscaledLocalBounds } from '../randomization/sampler'
+import { MAX_SEED } from '../randomization/rng'
+import { areaProblem } from '../randomization/areas'
+import { constraintProblem, describeConstraint } from '../randomization/constraints'
+import { orientationProblem } from '../randomization/orientation'
+import { SAMPLING_STRATEGIES } from '../randomization/strategies'
+import { detectPoseEncoding, isPoseEncoding, POSE_ENCODINGS, PoseEncoding } from '../io/poseEncoding'
+
+export interface ValidationReport {
+  errors: string[]
+  warnings: string[]
+}
+
+const QUATERNION_TOLERANCE = 1e-3
+
+// Check an imported bundle for everything the composer's export would refuse,
+// plus inconsistencies in initial_conditions.json that import silently skips.
+export async function validateBundle(zip: JSZip, result: ImportResult): Promise<ValidationReport> {
+  const errors: string[] = []
+  const warnings: string[] = []
+
+  if (!result.success) {
+    errors.push(result.error || 'Import failed')
+    return { errors, warnings }
+  }
+
+  if (!zip.file('scene.json')) {
+    warnings.push('No scene.json found; transforms were read from the USD scene file (legacy layout)')
+  }
+
+  if (!result.instruction.trim()) {
+    errors.push('No task instruction in initial_conditions.json')
+  }
+
+  const exportable = result.assets.filter(a => !a.excludeFromExport)
+  const dynamicAssets = exportable.filter(a => !a.disableGravity && !a.locked)
+  if (!exportable.some(a => a.disableGravity)) {
+    errors.push('At least one asset must have gravity disabled (kinematic)')
+  }
+  if (dynamicAssets.length === 0) {
+    warnings.push('No dynamic assets; there is nothing to randomize')
+  }
+
+  for (const asset of exportable) {
+    if (getUnscaledLocalBounds(asset).isEmpty()) {
+      warnings.push(`Asset "${asset.name}" has no recorded bounds; sampling treats it as a point`)
+    }
+  }
+
+  const randomizationFile = zip.file('randomization.json')
+  if (!randomizationFile) {
+    warnings.push('No randomization.json found; runtime sampling will use default settings')
+  } else if (!result.randomization) {
+    errors.push('randomization.json could not be read')
+  } else {
+    const { spawnBounds, spawnRegions, exclusionZones, yawRange, constraints, orientationPolicies } = result.randomization
+    const defaultProblem = areaProblem(spawnBounds)
+    if (defaultProblem) {
+      errors.push(`randomization.json: spawn region ${defaultProblem}`)
+    }
+    for (const region of spawnRegions) {
+      const problem = areaProblem(region.bounds)
+      if (problem) {
+        errors.push(`randomization.json: spawn region "${region.name}" ${problem}`)
+      }
+      if (region.assetIds.length === 0) {
+        warnings.push(`randomization.json: spawn region "${region.name}" has no assets`)
+      }
+    }
+    for (const zone of exclusionZones) {
+      const problem = areaProblem(zone.bounds)
+      if (problem) {
+        errors.push(`randomization.json: exclusion zone "${zone.name}" ${problem}`)
+      }
+    }
+    if (yawRange.min > yawRange.max) {
+      warnings.push('randomization.json: yaw minimum is larger than maximum')
+    }
+    for (const [id, policy] of Object.entries(orientationPolicies)) {
+      const problem = orientationProblem(policy)
+      const name = result.assets.find(a => a.id === id)?.name ?? id
+      if (problem) {
+        errors.push(`randomization.json: orientation of "${name}" ${problem}`)
+      } else if (policy.kind === 'yawRange' && policy.min > policy.max) {
+        warnings.push(`randomization.json: yaw minimum of "${name}" is larger than maximum`)
+      }
+    }
+
+    // Import drops constraints on unknown assets or of unknown kinds
+    const raw = JSON.parse(await randomizationFile.async('text')) as { constraints?: unknown }
+    const ignored = (Array.isArray(raw.constraints) ? raw.constraints.length : 0) - constraints.length
+    if (ignored > 0) {
+      errors.push(`randomization.json: ${ignored} constraint(s) refer to unknown assets, kinds or distances`)
+    }
+    const exportableIds = new Set(exportable.map(a => a.id))
+    const nameOf = (id: string) => result.assets.find(a => a.id === id)?.name ?? id
+    for (const constraint of constraints) {
+      const problem = constraintProblem(constraint, exportableIds)
+      if (problem) {
+        errors.push(`randomization.json: constraint "${describeConstraint(constraint, nameOf)}" ${problem}`)
+      } else if (![constraint.subjectId, constraint.objectId].some(id => dynamicAssets.some(a => a.id === id))) {
+        warnings.push(`randomization.json: constraint "${describeConstraint(constraint, nameOf)}" relates two static assets and is never checked`)
+      }
+    }
+  }
+
+  const conditionsFile = zip.file('initial_conditions.json')
+  if (!conditionsFile) {
+    warnings.push('No initial_conditions.json found')
+    return { errors, warnings }
+  }
+
+  let data: { poses?: unknown; seeds?: unknown; batches?: unknown; metadata?: unknown; frame?: unknown; encoding?: unknown }
+  try {
+    data = JSON.parse(await conditionsFile.async('text'))
+  } catch (e) {
+    errors.push(`initial_conditions.json is not valid JSON: ${e instanceof Error ? e.message : String(e)}`)
+    return { errors, warnings }
+  }
+
+  if (!Array.isArray(data.poses)) {
+    errors.push('initial_conditions.json has no "poses" array')
+    return { errors, warnings }
+  }
+
+  if (data.seeds !== undefined) {
+    if (!Array.isArray(data.seeds) || data.seeds.length !== data.poses.length) {
+      errors.push('initial_conditions.json "seeds" must be an array with one entry per pose')
+    } else if (!data.seeds.every(seed => seed === null || (Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED))) {
+      errors.push('initial_conditions.json "seeds" entries must be null or unsigned 32-bit integers')
+    }
+  }
+
+  if (data.batches !== undefined) {
+    if (!Array.isArray(data.batches) || data.batches.length !== data.poses.length) {
+      errors.push('initial_conditions.json "batches" must be an array with one entry per pose')
+    } else {
+      const seeds = Array.isArray(data.seeds) ? data.seeds : []
+      data.batches.forEach((entry: unknown, index: number) => {
+        const problem = batchProblem(entry)
+        if (problem) {
+          warnings.push(`Condition ${index + 1}: batch ${problem} (ignored on import)`)
+        } else if (entry !== null && typeof seeds[index] !== 'number') {
+          warnings.push(`Condition ${index + 1}: batch without a seed (ignored on import)`)
+        }
+      })
+    }
+  }
+
+  if (data.metadata !== undefined) {
+    if (!Array.isArray(data.metadata) || data.metadata.length !== data.poses.length) {
+      errors.push('initial_conditions.json "metadata" must be an array with one entry per pose')
+    } else {
+      data.metadata.forEach((entry: unknown, index: number) => {
+        const problem = metadataProblem(entry)
+        if (problem) warnings.push(`Condition ${index + 1}: metadata ${problem} (ignored on import)`)
+      })
+    }
+  }
+
+  // Same rule as import: the named encoding, else whatever the first pose looks like
+  let encoding: PoseEncoding = 'xyzw'
+  if (data.encoding !== undefined) {
+    if (isPoseEncoding(data.encoding)) {
+      encoding = data.encoding
+    } else {
+      errors.push(`initial_conditions.json "encoding" must be one of ${POSE_ENCODINGS.map(e => `"${e.value}"`).join(', ')}`)
+    }
+  } else {
+    const first = data.poses.find((pose: Record<string, unknown>) => Object.keys(pose).length > 0)
+    encoding = (first && detectPoseEncoding(Object.values(first)[0])) || 'xyzw'
+  }
+
+  if (data.frame !== undefined) {
+    const problem = frameProblem(data.frame, encoding)
+    if (problem) errors.push(`initial_conditions.json "frame" ${problem}; import reads the poses as world poses`)
+  }
+
+  const usdNames = new Set(exportable.map(a => a.name.replace(/[^a-zA-Z0-9_]/g, '_')))
+  const dynamicNames = dynamicAssets.map(a => a.name.replace(/[^a-zA-Z0-9_]/g, '_'))
+
+  data.poses.forEach((pose: Record<string, unknown>, index: number) => {
+    const label = `Condition ${index + 1}`
+    for (const [name, values] of Object.entries(pose)) {
+      if (!usdNames.has(name)) {
+        warnings.push(`${label}: unknown asset "${name}"`)
+      }
+      if (!fitsEncoding(values, encoding)) {
+        errors.push(`${label}: pose for "${name}" must be ${POSE_SHAPES[encoding]}`)
+        continue
+      }
+      const problem = rotationProblem(values as number[] | number[][], encoding)
+      if (problem) warnings.push(`${label}: ${problem} for "${name}"`)
+    }
+    for (const name of dynamicNames) {
+      if (!(name in pose)) {
+        warnings.push(`${label}: no pose for dynamic asset "${name}"`)
+      }
+    }
+  })
+
+  return { errors, warnings }
+}
+
+const POSE_SHAPES: Record<PoseEncoding, string> = {
+  xyzw: '7 finite numbers [x, y, z, qx, qy, qz, qw]',
+  wxyz: '7 finite numbers [x, y, z, qw, qx, qy, qz]',
+  matrix: 'a 4x4 matrix of finite numbers (4 rows of 4, or 16 numbers row by row)',
+  rpy: '6 finite numbers [x, y, z, roll, pitch, yaw]',
+}
+
+function fitsEncoding(values: unknown, encoding: PoseEncoding): boolean {
+  const isNumbers = (v: unknown): v is number[] => Array.isArray(v) && v.every(n => typeof n === 'number' && Number.isFinite(n))
+  switch (encoding) {
+    case 'xyzw':
+    case 'wxyz':
+      return isNumbers(values) && values.length === 7
+    case 'rpy':
+      return isNumbers(values) && values.length === 6
+    case 'matrix':
+      return (isNumbers(values) && values.length === 16) ||
+        (Array.isArray(values) && values.length === 4 && values.every(row => isNumbers(row) && row.length === 4))
+  }
+}
+
+// Rotations import would quietly fix up: quaternions that aren't unit length,
+// matrices whose rotation isn't orthonormal or whose last row isn't [0, 0, 0, 1]
+function rotationProblem(values: number[] | number[][], encoding: PoseEncoding): string | null {
+  if (encoding === 'xyzw' || encoding === 'wxyz') {
+    const norm = Math.hypot(...(values as number[]).slice(3))
+    return Math.abs(norm - 1) > QUATERNION_TOLERANCE ? `quaternion is not normalized (|q| = ${norm.toFixed(4)})` : null
+  }
+  if (encoding === 'matrix') {
+    const flat = values.flat()
+    const rows = [0, 4, 8, 12].map(start => flat.slice(start, start + 4))
+    if (rows[3].some((v, i) => Math.abs(v - (i === 3 ? 1 : 0)) > QUATERNION_TOLERANCE)) return 'matrix last row is not [0, 0, 0, 1]'
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) {
+        const dot = rows[0][i] * rows[0][j] + rows[1][i] * rows[1][j] + rows[2][i] * rows[2][j]
+        if (Math.abs(dot - (i === j ? 1 : 0)) > QUATERNION_TOLERANCE) return 'matrix rotation is not orthonormal'
+      }
+    }
+  }
+  return null
+}
+
+// What is wrong with the recorded reference frame, or null
+function frameProblem(frame: unknown, encoding: PoseEncoding): string | null {
+  if (typeof frame !== 'object' || frame === null) return 'must be an object'
+  const { kind, asset, pose } = frame as Record<string, unknown>
+  if (kind !== 'asset' && kind !== 'manual') return 'kind must be "asset" or "manual"'
+  if (kind === 'asset' && typeof asset !== 'string') return 'needs the name of its asset'
+  if (!fitsEncoding(pose, encoding)) return `pose must be ${POSE_SHAPES[encoding]}`
+  return null
+}
+
+// Why a metadata entry (part of it) would be dropped on import, or null
+function batchProblem(entry: unknown): string | null {
+  if (entry === null) return null
+  if (typeof entry !== 'object' || Array.isArray(entry)) return 'must be an object or null'
+  const { strategy, firstSeed, count } = entry as Record<string, unknown>
+  if (strategy === 'uniform' || !SAMPLING_STRATEGIES.some(s => s.value === strategy)) {
+    return `"strategy" must be one of ${SAMPLING_STRATEGIES.filter(s => s.value !== 'uniform').map(s => s.value).join(', ')}`
+  }
+  if (!(Number.isInteger(firstSeed) && (firstSeed as number) >= 0 && (firstSeed as number) <= MAX_SEED)) {
+    return '"firstSeed" must be an unsigned 32-bit integer'
+  }
+  if (!(Number.isInteger(count) && (count as number) >= 1)) return '"count" must be a positive integer'
+  return null
+}
+
+function metadataProblem(entry: unknown): string | null {
+  if (entry === null) return null
+  if (typeof entry !== 'object' || Array.isArray(entry)) return 'must be an object or null'
+  const { name, tags, notes } = entry as Record<string, unknown>
+  if (name !== undefined && typeof name !== 'string') return '"name" must be a string'
+  if (tags !== undefined && !(Array.isArray(tags) && tags.every(tag => typeof tag === 'string'))) {
+    return '"tags" must be an array of strings'
+  }
+  if (notes !== undefined && typeof notes !== 'string') return '"notes" must be a string'
+  return null
+}
@@ -1,11 +1,67 @@
+import { useState } from 'preact/hooks'
 import { useScene } from '../hooks/useScene'
+import { canAttach, getAncestors, getChildren, hierarchyRows } from '../scene/hierarchy'
+
+// Drop target id for the list itself: dropping there detaches the asset
+const ROOT_DROP = ''
 
 export function AssetPanel() {
-  const { assets, selectedAsset, selectAsset, removeAsset, isRandomizeMode } = useScene()
+  const { assets, selectedAssets, selectAsset, removeAsset, setAssetParent, isRandomizeMode } = useScene()
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+  // Asset being dragged onto another one to attach it, and where it would land
+  const [draggedId, setDraggedId] = useState<string | null>(null)
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null)
+
+  // Rows under a collapsed ancestor are hidden
+  const rows = hierarchyRows(assets).filter(({ asset }) => !getAncestors(assets, asset).some(a => collapsed.has(a.id)))
+
+  const toggleCollapsed = (id: string) => {
+    const next = new Set(collapsed)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    setCollapsed(next)
+  }
+
+  const handleDragOver = (e: DragEvent, parentId: string | null) => {
+    // Only asset rows are handled here; files go to the viewport
+    if (draggedId === null) return
+    // A row that refuses the drop mustn't pass it on to the list (which detaches)
+    e.stopPropagation()
+    if (!canAttach(assets, draggedId, parentId)) {
+      setDropTargetId(null)
+      return
+    }
+    e.preventDefault()
+    setDropTargetId(parentId ?? ROOT_DROP)
+  }
+
+  const handleDrop = (e: DragEvent, parentId: string | null) => {
+    if (draggedId === null) return
+    e.preventDefault()
+    e.stopPropagation()
+    setAssetParent(draggedId, parentId)
+    if (parentId) {
+      // Show where it went
+      const next = new Set(collapsed)
+      next.delete(parentId)
+      setCollapsed(next)
+    }
+    handleDragEnd()
+  }
+
+  const handleDragEnd = () => {
+    setDraggedId(null)
+    setDropTargetId(null)
+  }
 
   return (
     <div class="panel">
-      <div class="panel-header">Assets</div>
+      <div class="panel-header">
+        Assets{selectedAssets.length > 1 ? ` (${selectedAssets.length} selected)` : ''}
+      </div>
       <div class="panel-content">
         {assets.length === 0 ? (
           <div class="empty-state">
@@ -15,15 +71,42 @@ export function AssetPanel() {
             </p>
           </div>
         ) : (
-          <div class="asset-list">
-            {assets.map((asset) => {
+          <div
+            class="asset-list"
+            onDragOver={(e) => handleDragOver(e, null)}
+            onDrop={(e) => handleDrop(e, null)}
+          >
+            {rows.map(({ asset, depth }) => {
               const isDisabled = asset.locked || isRandomizeMode
+              const isSelected = selectedAssets.some(a => a.id === asset.id)
+              const hasChildren = getChildren(assets, asset.id).length > 0
               return (
                 <div
                   key={asset.id}
-                  class={`asset-item ${selectedAsset?.id === asset.id ? 'selected' : ''} ${isDisabled ? 'locked' : ''}`}
-                  onClick={() => !isDisabled && selectAsset(asset)}
+                  class={`asset-item ${isSelected ? 'selected' : ''} ${isDisabled ? 'locked' : ''} ${dropTargetId === asset.id ? 'drop-target' : ''}`}
+                  style={{ paddingLeft: `${8 + depth * 14}px` }}
+                  draggable={!isDisabled}
+                  onDragStart={(e) => {
+                    e.dataTransfer?.setData('text/plain', asset.id)
+                    setDraggedId(asset.id)
+                  }}
+                  onDragEnd={handleDragEnd}
+                  onDragOver={(e) => handleDragOver(e, asset.id)}
+                  onDrop={(e) => handleDrop(e, asset.id)}
+                  // Shift, Ctrl or Cmd adds to or removes from the selection
+                  onClick={(e) => !isDisabled && selectAsset(asset, e.shiftKey || e.ctrlKey || e.metaKey)}
                 >
+                  <button
+                    class="asset-item-toggle"
+                    style={{ visibility: hasChildren ? 'visible' : 'hidden' }}
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      toggleCollapsed(asset.id)
+                    }}
+                    title={collapsed.has(asset.id) ? 'Show attached assets' : 'Hide attached assets'}
+                  >
+                    {collapsed.has(asset.id) ? '▸' : '▾'}
+                  </button>
                   <span class="asset-item-name">{asset.name}{asset.locked ? ' (locked)' : ''}</span>
                   {!asset.locked && !isRandomizeMode && (
                     <button
@@ -39,6 +122,11 @@ export function AssetPanel() {
                 </div>
               )
             })}
+            {draggedId !== null && assets.find(a => a.id === draggedId)?.parentId && (
+              <div class={`asset-drop-root ${dropTargetId === ROOT_DROP ? 'drop-target' : ''}`}>
+                Drop here to detach
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,89 @@
+import { useScene } from '../hooks/useScene'
+import { canBeReference, manualFrame, ReferenceFrame, referenceFrameProblem, resolveReferenceFrame, WORLD_FRAME } from '../io/referenceFrame'
+
+// Frame the poses in initial_conditions.json are relative to
+export function ExportFramePanel() {
+  const { assets, referenceFrame, setReferenceFrame } = useScene()
+  const candidates = assets.filter(a => canBeReference(assets, a))
+  const problem = referenceFrameProblem(referenceFrame, assets)
+
+  const selectValue = referenceFrame.kind === 'asset' ? `asset:${referenceFrame.assetId}` : referenceFrame.kind
+
+  const handleSelect = (value: string) => {
+    if (value === 'world') {
+      setReferenceFrame(WORLD_FRAME)
+    } else if (value === 'manual') {
+      // Start from wherever the frame is now
+      const pose = resolveReferenceFrame(referenceFrame, assets) ?? resolveReferenceFrame(WORLD_FRAME, assets)!
+      setReferenceFrame(manualFrame(pose))
+    } else {
+      setReferenceFrame({ kind: 'asset', assetId: value.slice('asset:'.length) })
+    }
+  }
+
+  const handleManualChange = (key: 'position' | 'rpy', index: number, value: string) => {
+    if (referenceFrame.kind !== 'manual') return
+    const values = [...referenceFrame[key]]
+    values[index] = parseFloat(value) || 0
+    setReferenceFrame({ ...referenceFrame, [key]: values } as ReferenceFrame)
+  }
+
+  return (
+    <div class="frame-panel">
+      <div class="panel-header">Export Frame</div>
+      <div class="frame-content">
+        <div class="property-field">
+          <span class="property-field-label">Poses relative to</span>
+          <select class="property-input" value={selectValue} onChange={(e) => handleSelect((e.target as HTMLSelectElement).value)}>
+            <option value="world">World origin</option>
+            {candidates.map(asset => (
+              <option key={asset.id} value={`asset:${asset.id}`}>{asset.name}</option>
+            ))}
+            {/* Keep a frame whose asset no longer qualifies visible, so the warning makes sense */}
+            {referenceFrame.kind === 'asset' && !candidates.some(a => a.id === referenceFrame.assetId) && (
+              <option value={selectValue}>{assets.find(a => a.id === referenceFrame.assetId)?.name ?? 'Removed asset'}</option>
+            )}
+            <option value="manual">Manual</option>
+          </select>
+        </div>
+        {referenceFrame.kind === 'manual' && (
+          <>
+            <ManualRow label="Position (m)" labels={['X', 'Y', 'Z']} values={referenceFrame.position} step={0.01} onChange={(i, v) => handleManualChange('position', i, v)} />
+            <ManualRow label="RPY (degrees)" labels={['R', 'P', 'Y']} values={referenceFrame.rpy} step={1} onChange={(i, v) => handleManualChange('rpy', i, v)} />
+          </>
+        )}
+        {problem && <div class="instruction-warning">{problem}</div>}
+      </div>
+    </div>
+  )
+}
+
+interface ManualRowProps {
+  label: string
+  labels: string[]
+  values: number[]
+  step: number
+  onChange: (index: number, value: string) => void
+}
+
+function ManualRow({ label, labels, values, step, onChange }: ManualRowProps) {
+  return (
+    <>
+      <div class="frame-label">{label}</div>
+      <div class="property-row">
+        {labels.map((axis, index) => (
+          <div class="property-input-group" key={axis}>
+            <span class="property-input-label">{axis}</span>
+            <input
+              type="number"
+              class="property-input"
+              value={Math.round(values[index] * 1000) / 1000}
+              step={step}
+              onChange={(e) => onChange(index, (e.target as HTMLInputElement).value)}
+            />
+          </div>
+        ))}
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,80 @@
+import { POSE_ENCODINGS, PoseEncoding } from '../io/poseEncoding'
+import { CONDITION_TABLE_FORMATS, ConditionTableFormat } from '../io/conditionTables'
+
+interface ExportOptionsModalProps {
+  isOpen: boolean
+  poseEncoding: PoseEncoding
+  conditionTables: ConditionTableFormat[]
+  onPoseEncodingChange: (encoding: PoseEncoding) => void
+  onConditionTablesChange: (formats: ConditionTableFormat[]) => void
+  onClose: () => void
+}
+
+// How the initial conditions are written: pose encoding and extra table formats
+export function ExportOptionsModal({ isOpen, poseEncoding, conditionTables, onPoseEncodingChange, onConditionTablesChange, onClose }: ExportOptionsModalProps) {
+  if (!isOpen) return null
+
+  const encoding = POSE_ENCODINGS.find(e => e.value === poseEncoding)!
+
+  const toggleTable = (format: ConditionTableFormat, checked: boolean) => {
+    const formats = checked ? [...conditionTables, format] : conditionTables.filter(f => f !== format)
+    // Keep the listed order, so the archive doesn't depend on click order
+    onConditionTablesChange(CONDITION_TABLE_FORMATS.map(f => f.value).filter(f => formats.includes(f)))
+  }
+
+  return (
+    <div class="modal-overlay" onClick={onClose}>
+      <div class="modal-content" onClick={(e) => e.stopPropagation()}>
+        <div class="modal-header">
+          <h2>Export Options</h2>
+          <button class="modal-close" onClick={onClose}>X</button>
+        </div>
+
+        <div class="modal-body">
+          <section>
+            <h3>Pose Encoding</h3>
+            <p>How poses are written in initial_conditions.json and the tables below, in the Z-up export frame.</p>
+            <div class="property-field">
+              <span class="property-field-label">Encoding</span>
+              <select
+                class="property-input"
+                value={poseEncoding}
+                onChange={(e) => onPoseEncodingChange((e.target as HTMLSelectElement).value as PoseEncoding)}
+              >
+                {POSE_ENCODINGS.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <p class="export-options-hint">
+              {poseEncoding === 'matrix'
+                ? '4x4 homogeneous transform per asset, as rows'
+                : `[${encoding.components.join(', ')}] per asset`}
+            </p>
+          </section>
+
+          <section>
+            <h3>Condition Tables</h3>
+            <p>Extra copies of the condition set, next to initial_conditions.json.</p>
+            {CONDITION_TABLE_FORMATS.map(({ value, label }) => (
+              <label class="property-checkbox" key={value}>
+                <input
+                  type="checkbox"
+                  checked={conditionTables.includes(value)}
+                  onChange={(e) => toggleTable(value, (e.target as HTMLInputElement).checked)}
+                />
+                {label}
+              </label>
+            ))}
+          </section>
+        </div>
+
+        <div class="modal-footer">
+          <button class="toolbar-btn toolbar-btn-primary" onClick={onClose}>
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
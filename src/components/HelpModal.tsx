@@ -34,7 +34,8 @@ export function HelpModal({ isOpen, onClose }: HelpModalProps) {
                 </ul>
               </li>
               <li><strong>Enter Task Instruction</strong> - Describe the task in the Instruction panel</li>
-              <li><strong>Export</strong> - Creates ZIP with scene files and initial conditions</li>
+              <li><strong>Export Frame</strong> (optional) - Export poses relative to the robot base or another fixed frame</li>
+              <li><strong>Export</strong> - Creates ZIP with scene files and initial conditions ("Options" sets the pose encoding and adds CSV, JSON Lines or NumPy tables)</li>
             </ol>
           </section>
 
@@ -51,6 +52,7 @@ export function HelpModal({ isOpen, onClose }: HelpModalProps) {
             <ul>
               <li><strong>G</strong> - Move | <strong>R</strong> - Rotate | <strong>S</strong> - Scale</li>
               <li><strong>Escape</strong> - Deselect | <strong>Delete</strong> - Remove asset</li>
+              <li><strong>Shift/Ctrl + Click</strong> - Add to selection | <strong>B</strong> - Box select (then drag)</li>
             </ul>
           </section>
         </div>
@@ -1,5 +1,20 @@
 import { useState, useEffect, useRef } from 'preact/hooks'
+import * as THREE from 'three'
 import { useScene } from '../hooks/useScene'
+import { LoadedAsset } from '../scene/AssetLoader'
+import { TransformDragEvent } from '../scene/SelectionManager'
+import { COLLISION_APPROXIMATIONS, CollisionApproximation, PhysicsProperties } from '../physics/properties'
+import { ORIENTATION_LABELS, OrientationKind, OrientationPolicy, orientationProblem, parseAngleList } from '../randomization/orientation'
+import {
+  fromRotationValues,
+  fromZUpPosition,
+  fromZUpScale,
+  ROTATION_FORMATS,
+  RotationFormat,
+  toRotationValues,
+  toZUpPosition,
+  toZUpScale,
+} from '../io/frame'
 
 interface Vec3 {
   x: number
@@ -7,21 +22,51 @@ interface Vec3 {
   z: number
 }
 
+type NumericPhysicsKey = Exclude<keyof PhysicsProperties, 'collisionApproximation'>
+
+// Three.js frame, rotation as Euler angles in degrees (what transform
+// commands take). The inputs show it in the Z-up export frame.
 interface TransformSnapshot {
   position: Vec3
   rotation: Vec3
   scale: Vec3
 }
 
+type TransformField = 'position' | 'rotation' | 'scale'
+
 export function PropertyPanel() {
-  const { selectedAsset, assets, updateAssetTransform, selectionManager, toggleAssetGravity, createTransformCommand } = useScene()
+  const {
+    selectedAsset,
+    selectedAssets,
+    assets,
+    isRandomizeMode,
+    yawRange,
+    orientationPolicies,
+    updateAssetTransform,
+    selectionManager,
+    toggleAssetGravity,
+    updateAssetPhysics,
+    setAssetOrientation,
+    createTransformCommand,
+    dropAssetToSurface,
+  } = useScene()
 
-  // Get the current asset from assets array to have reactive disableGravity
+  // Get the current asset from assets array to have reactive disableGravity and physics
   const currentAsset = selectedAsset ? assets.find(a => a.id === selectedAsset.id) : null
+  const physics = currentAsset?.physics || {}
+  // Orientation policies only apply to assets the randomizer moves
+  const isDynamic = !!currentAsset && !currentAsset.excludeFromExport && !currentAsset.disableGravity && !currentAsset.locked
+  const orientation = selectedAsset ? orientationPolicies[selectedAsset.id] : undefined
 
   const [position, setPosition] = useState<Vec3>({ x: 0, y: 0, z: 0 })
   const [rotation, setRotation] = useState<Vec3>({ x: 0, y: 0, z: 0 })
   const [scale, setScale] = useState<Vec3>({ x: 1, y: 1, z: 1 })
+  const [rotationFormat, setRotationFormat] = useState<RotationFormat>('rpy')
+  // Rotation values as typed, until the rotation changes some other way: a
+  // quaternion is normalized when applied, which would undo a half-typed one
+  const [rotationDraft, setRotationDraft] = useState<number[] | null>(null)
+  // Set when Drop to Surface found nothing under the asset
+  const [dropMissed, setDropMissed] = useState(false)
 
   // Track the "before" transform for undo batching
   const beforeTransformRef = useRef<TransformSnapshot | null>(null)
@@ -66,6 +111,8 @@ export function PropertyPanel() {
       })
       // Clear before transform when selecting a new asset
       beforeTransformRef.current = null
+      setRotationDraft(null)
+      setDropMissed(false)
     }
   }, [selectedAsset])
 
@@ -88,6 +135,7 @@ export function PropertyPanel() {
           y: round(event.scale.y),
           z: round(event.scale.z),
         })
+        setRotationDraft(null)
       })
     }
   }, [selectionManager])
@@ -115,33 +163,102 @@ export function PropertyPanel() {
     }
   }
 
-  const handlePositionChange = (axis: keyof Vec3, value: string) => {
-    const num = parseFloat(value) || 0
-    const newPos = { ...position, [axis]: num }
-    setPosition(newPos)
+  // `index` is the component in the Z-up frame (or rotation format) that changed
+  const handleTransformChange = (field: TransformField, index: number, value: string) => {
+    const current = { position, rotation, scale }
+    const values = field === 'rotation' && rotationDraft ? [...rotationDraft] : frameValues(current, field, rotationFormat)
+    values[index] = parseFloat(value) || (field === 'scale' ? 1 : 0)
+    const next = withFrameValues(current, field, values, rotationFormat)
+    setPosition(next.position)
+    setRotation(next.rotation)
+    setScale(next.scale)
+    if (field === 'rotation') setRotationDraft(values)
     if (selectedAsset) {
-      updateAssetTransform(selectedAsset.id, newPos, rotation, scale)
+      updateAssetTransform(selectedAsset.id, next.position, next.rotation, next.scale)
     }
   }
 
-  const handleRotationChange = (axis: keyof Vec3, value: string) => {
-    const num = parseFloat(value) || 0
-    const newRot = { ...rotation, [axis]: num }
-    setRotation(newRot)
-    if (selectedAsset) {
-      updateAssetTransform(selectedAsset.id, position, newRot, scale)
+  const handleRotationFormatChange = (value: string) => {
+    setRotationFormat(value as RotationFormat)
+    setRotationDraft(null)
+  }
+
+  // Empty or invalid input clears the field (simulator default)
+  const handlePhysicsChange = (key: NumericPhysicsKey, value: string) => {
+    if (!selectedAsset) return
+    const num = parseFloat(value)
+    let next = Number.isFinite(num) && num >= 0 ? num : undefined
+    if (key === 'restitution' && next !== undefined) next = Math.min(next, 1)
+    if (next !== physics[key]) {
+      updateAssetPhysics(selectedAsset.id, { [key]: next })
     }
   }
 
-  const handleScaleChange = (axis: keyof Vec3, value: string) => {
-    const num = parseFloat(value) || 1
-    const newScale = { ...scale, [axis]: num }
-    setScale(newScale)
-    if (selectedAsset) {
-      updateAssetTransform(selectedAsset.id, position, rotation, newScale)
+  const handleApproximationChange = (value: string) => {
+    if (!selectedAsset) return
+    const next = value ? value as CollisionApproximation : undefined
+    if (next !== physics.collisionApproximation) {
+      updateAssetPhysics(selectedAsset.id, { collisionApproximation: next })
     }
   }
 
+  // Switching kind starts from the shared yaw range or the current pose
+  const handleOrientationKindChange = (value: string) => {
+    if (!selectedAsset) return
+    const kind = value as OrientationKind | ''
+    if (kind === (orientation?.kind ?? '')) return
+    const policies: Record<OrientationKind, OrientationPolicy> = {
+      fixed: { kind: 'fixed' },
+      yawRange: { kind: 'yawRange', min: yawRange.min, max: yawRange.max },
+      yawSet: { kind: 'yawSet', angles: [0, 90, 180, 270] },
+      restingFace: { kind: 'restingFace', faces: [selectedAsset.object.quaternion.clone()] },
+    }
+    setAssetOrientation(selectedAsset.id, kind ? policies[kind] : null)
+  }
+
+  const handleOrientationYawChange = (key: 'min' | 'max', value: string) => {
+    if (!selectedAsset || orientation?.kind !== 'yawRange') return
+    setAssetOrientation(selectedAsset.id, { ...orientation, [key]: parseFloat(value) || 0 })
+  }
+
+  const handleYawSetChange = (value: string) => {
+    if (!selectedAsset || orientation?.kind !== 'yawSet') return
+    setAssetOrientation(selectedAsset.id, { kind: 'yawSet', angles: parseAngleList(value) })
+  }
+
+  const handleDropToSurface = () => {
+    if (!selectedAsset) return
+    const height = dropAssetToSurface(selectedAsset.id)
+    setDropMissed(height === null)
+    if (height !== null) setPosition({ ...position, y: round(height) })
+  }
+
+  // The asset's current orientation becomes another face it can rest on
+  const handleAddFace = () => {
+    if (!selectedAsset || orientation?.kind !== 'restingFace') return
+    setAssetOrientation(selectedAsset.id, { kind: 'restingFace', faces: [...orientation.faces, selectedAsset.object.quaternion.clone()] })
+  }
+
+  const handleRemoveFace = (index: number) => {
+    if (!selectedAsset || orientation?.kind !== 'restingFace') return
+    setAssetOrientation(selectedAsset.id, { kind: 'restingFace', faces: orientation.faces.filter((_, i) => i !== index) })
+  }
+
+  if (selectedAssets.length > 1) {
+    return (
+      <div class="panel panel-right">
+        <div class="panel-header">Properties</div>
+        <div class="panel-content">
+          <SelectionProperties
+            selection={selectedAssets}
+            rotationFormat={rotationFormat}
+            onRotationFormatChange={handleRotationFormatChange}
+          />
+        </div>
+      </div>
+    )
+  }
+
   if (!selectedAsset) {
     return (
       <div class="panel panel-right">
@@ -164,29 +281,44 @@ export function PropertyPanel() {
       <div class="panel-content">
         <div class="property-group">
           <div class="property-label">Position (m)</div>
-          <div class="property-row">
-            <Vec3Input value={position} axis="x" onChange={handlePositionChange} onFocus={handleInputFocus} onBlur={handleInputBlur} step={0.01} />
-            <Vec3Input value={position} axis="y" onChange={handlePositionChange} onFocus={handleInputFocus} onBlur={handleInputBlur} step={0.01} />
-            <Vec3Input value={position} axis="z" onChange={handlePositionChange} onFocus={handleInputFocus} onBlur={handleInputBlur} step={0.01} />
-          </div>
+          <TransformInputs
+            labels={fieldLabels('position', rotationFormat)}
+            values={frameValues({ position, rotation, scale }, 'position', rotationFormat).map(round)}
+            step={0.01}
+            onChange={(index, value) => handleTransformChange('position', index, value)}
+            onFocus={handleInputFocus}
+            onBlur={handleInputBlur}
+          />
+          <button class="seed-btn drop-btn" onClick={handleDropToSurface} title="Rest the asset on the static asset below it">
+            Drop to Surface
+          </button>
+          {dropMissed && <div class="bounds-warning">No static asset below to rest on</div>}
         </div>
 
         <div class="property-group">
-          <div class="property-label">Rotation (degrees)</div>
-          <div class="property-row">
-            <Vec3Input value={rotation} axis="x" onChange={handleRotationChange} onFocus={handleInputFocus} onBlur={handleInputBlur} step={1} />
-            <Vec3Input value={rotation} axis="y" onChange={handleRotationChange} onFocus={handleInputFocus} onBlur={handleInputBlur} step={1} />
-            <Vec3Input value={rotation} axis="z" onChange={handleRotationChange} onFocus={handleInputFocus} onBlur={handleInputBlur} step={1} />
-          </div>
+          <div class="property-label">Rotation</div>
+          <RotationFormatSelect value={rotationFormat} onChange={handleRotationFormatChange} />
+          <TransformInputs
+            labels={fieldLabels('rotation', rotationFormat)}
+            values={(rotationDraft ?? frameValues({ position, rotation, scale }, 'rotation', rotationFormat)).map(round)}
+            step={rotationStep(rotationFormat)}
+            onChange={(index, value) => handleTransformChange('rotation', index, value)}
+            onFocus={handleInputFocus}
+            onBlur={handleInputBlur}
+          />
         </div>
 
         <div class="property-group">
           <div class="property-label">Scale</div>
-          <div class="property-row">
-            <Vec3Input value={scale} axis="x" onChange={handleScaleChange} onFocus={handleInputFocus} onBlur={handleInputBlur} step={0.01} />
-            <Vec3Input value={scale} axis="y" onChange={handleScaleChange} onFocus={handleInputFocus} onBlur={handleInputBlur} step={0.01} />
-            <Vec3Input value={scale} axis="z" onChange={handleScaleChange} onFocus={handleInputFocus} onBlur={handleInputBlur} step={0.01} />
-          </div>
+          <TransformInputs
+            labels={fieldLabels('scale', rotationFormat)}
+            values={frameValues({ position, rotation, scale }, 'scale', rotationFormat).map(round)}
+            step={0.01}
+            onChange={(index, value) => handleTransformChange('scale', index, value)}
+            onFocus={handleInputFocus}
+            onBlur={handleInputBlur}
+          />
+          <div class="selection-hint">Z-up export frame: X forward, Y left, Z up.</div>
         </div>
 
         <div class="property-group">
@@ -199,33 +331,256 @@ export function PropertyPanel() {
             />
             <span>Disable Gravity (Kinematic)</span>
           </label>
+          <PhysicsInput label="Mass (kg)" field="mass" value={physics} onChange={handlePhysicsChange} placeholder={physics.density !== undefined ? 'from density' : 'auto'} />
+          <PhysicsInput label="Density (kg/m³)" field="density" value={physics} onChange={handlePhysicsChange} step={10} />
+          <PhysicsInput label="Static Friction" field="staticFriction" value={physics} onChange={handlePhysicsChange} />
+          <PhysicsInput label="Dynamic Friction" field="dynamicFriction" value={physics} onChange={handlePhysicsChange} />
+          <PhysicsInput label="Restitution" field="restitution" value={physics} onChange={handlePhysicsChange} max={1} />
+          <div class="property-field">
+            <span class="property-field-label">Collision</span>
+            <select
+              class="property-input"
+              value={physics.collisionApproximation || ''}
+              onChange={(e) => handleApproximationChange((e.target as HTMLSelectElement).value)}
+            >
+              <option value="">Default</option>
+              {COLLISION_APPROXIMATIONS.map(a => (
+                <option key={a.value} value={a.value}>{a.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {isRandomizeMode && isDynamic && (
+          <div class="property-group">
+            <div class="property-label">Orientation</div>
+            <div class="property-field">
+              <span class="property-field-label">Policy</span>
+              <select
+                class="property-input"
+                value={orientation?.kind ?? ''}
+                onChange={(e) => handleOrientationKindChange((e.target as HTMLSelectElement).value)}
+              >
+                <option value="">Shared yaw range</option>
+                {(Object.keys(ORIENTATION_LABELS) as OrientationKind[]).map(kind => (
+                  <option key={kind} value={kind}>{ORIENTATION_LABELS[kind]}</option>
+                ))}
+              </select>
+            </div>
+            {orientation?.kind === 'yawRange' && (
+              <>
+                <div class="property-field">
+                  <span class="property-field-label">Yaw min (°)</span>
+                  <input type="number" class="property-input" step={5} value={orientation.min} onChange={(e) => handleOrientationYawChange('min', (e.target as HTMLInputElement).value)} />
+                </div>
+                <div class="property-field">
+                  <span class="property-field-label">Yaw max (°)</span>
+                  <input type="number" class="property-input" step={5} value={orientation.max} onChange={(e) => handleOrientationYawChange('max', (e.target as HTMLInputElement).value)} />
+                </div>
+              </>
+            )}
+            {orientation?.kind === 'yawSet' && (
+              <div class="property-field">
+                <span class="property-field-label">Yaws (°)</span>
+                <input
+                  type="text"
+                  class="property-input"
+                  value={orientation.angles.join(', ')}
+                  placeholder="0, 90, 180"
+                  onChange={(e) => handleYawSetChange((e.target as HTMLInputElement).value)}
+                />
+              </div>
+            )}
+            {orientation?.kind === 'restingFace' && (
+              <>
+                {orientation.faces.map((_, index) => (
+                  <div class="property-field" key={index}>
+                    <span class="property-field-label">Face {index + 1}</span>
+                    <button class="condition-btn delete" onClick={() => handleRemoveFace(index)} title="Remove this resting face">×</button>
+                  </div>
+                ))}
+                <button class="seed-btn" onClick={handleAddFace} title="Rotate the asset onto another stable face, then add it">
+                  + Add Current Pose
+                </button>
+              </>
+            )}
+            {orientation && orientationProblem(orientation) && (
+              <div class="bounds-warning">{orientationProblem(orientation)}</div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+const TRANSFORM_FIELDS: { field: TransformField; label: string; step: number }[] = [
+  { field: 'position', label: 'Position (m)', step: 0.01 },
+  { field: 'rotation', label: 'Rotation', step: 1 },
+  { field: 'scale', label: 'Scale', step: 0.01 },
+]
+
+interface SelectionPropertiesProps {
+  selection: LoadedAsset[]
+  rotationFormat: RotationFormat
+  onRotationFormatChange: (value: string) => void
+}
+
+// Transforms of a multi-selection. Each input shows the value the assets
+// share, or is blank ("mixed") where they differ; typing a value sets that
+// component on every selected asset. One focus-to-blur edit is one undo step.
+function SelectionProperties({ selection, rotationFormat, onRotationFormatChange }: SelectionPropertiesProps) {
+  const { selectionManager, updateAssetTransform, createGroupTransformCommand } = useScene()
+  // Inputs read the objects directly; bumped to re-render after an edit
+  const [, setRevision] = useState(0)
+  const beforeRef = useRef<TransformDragEvent['before'][] | null>(null)
+  const selectionRef = useRef(selection)
+
+  const commit = () => {
+    const before = beforeRef.current
+    beforeRef.current = null
+    if (!before) return
+    const changes = selectionRef.current
+      .map((asset, i) => ({ assetId: asset.id, before: before[i], after: objectSnapshot(asset) }))
+      .filter(change => !transformsEqual(change.before, change.after))
+    createGroupTransformCommand(changes)
+  }
+
+  // Commit a pending edit when the selection changes under it
+  useEffect(() => {
+    if (selectionRef.current !== selection) {
+      commit()
+      selectionRef.current = selection
+    }
+  }, [selection])
+
+  const snapshots = selection.map(objectSnapshot)
+  // Null where the selected assets differ
+  const shared = (field: TransformField): (number | null)[] => {
+    const perAsset = snapshots.map(t => frameValues(t, field, rotationFormat).map(round))
+    return perAsset[0].map((value, i) => perAsset.every(values => values[i] === value) ? value : null)
+  }
+
+  const handleFocus = () => {
+    if (!beforeRef.current) beforeRef.current = selection.map(objectSnapshot)
+  }
+
+  const handleChange = (field: TransformField, index: number, value: string) => {
+    const num = parseFloat(value)
+    if (!Number.isFinite(num)) return
+    selection.forEach((asset, i) => {
+      const values = frameValues(snapshots[i], field, rotationFormat)
+      values[index] = num
+      const next = withFrameValues(snapshots[i], field, values, rotationFormat)
+      updateAssetTransform(asset.id, next.position, next.rotation, next.scale)
+    })
+    selectionManager?.updateHighlight()
+    setRevision(r => r + 1)
+  }
+
+  return (
+    <>
+      <div class="property-group">
+        <div class="property-label">{selection.length} assets selected</div>
+        <div class="selection-names">{selection.map(a => a.name).join(', ')}</div>
+      </div>
+
+      {TRANSFORM_FIELDS.map(({ field, label, step }) => (
+        <div class="property-group" key={field}>
+          <div class="property-label">{label}</div>
+          {field === 'rotation' && <RotationFormatSelect value={rotationFormat} onChange={onRotationFormatChange} />}
+          <TransformInputs
+            labels={fieldLabels(field, rotationFormat)}
+            values={shared(field)}
+            step={field === 'rotation' ? rotationStep(rotationFormat) : step}
+            onChange={(index, value) => handleChange(field, index, value)}
+            onFocus={handleFocus}
+            onBlur={commit}
+          />
         </div>
+      ))}
+
+      <div class="selection-hint">
+        Values are in the Z-up export frame: X forward, Y left, Z up.
+        Drag the gizmo to move, rotate or scale the selection about its centre.
+        Select a single asset to edit physics and orientation.
       </div>
+    </>
+  )
+}
+
+interface RotationFormatSelectProps {
+  value: RotationFormat
+  onChange: (value: string) => void
+}
+
+function RotationFormatSelect({ value, onChange }: RotationFormatSelectProps) {
+  return (
+    <div class="property-field">
+      <span class="property-field-label">Format</span>
+      <select class="property-input" value={value} onChange={(e) => onChange((e.target as HTMLSelectElement).value)}>
+        {ROTATION_FORMATS.map(f => (
+          <option key={f.value} value={f.value}>{f.label}</option>
+        ))}
+      </select>
     </div>
   )
 }
 
-interface Vec3InputProps {
-  value: Vec3
-  axis: keyof Vec3
-  onChange: (axis: keyof Vec3, value: string) => void
+interface TransformInputsProps {
+  labels: string[]
+  values: (number | null)[] // Null shows as "mixed"
+  onChange: (index: number, value: string) => void
   onFocus?: () => void
   onBlur?: () => void
   step?: number
 }
 
-function Vec3Input({ value, axis, onChange, onFocus, onBlur, step = 0.01 }: Vec3InputProps) {
+function TransformInputs({ labels, values, onChange, onFocus, onBlur, step = 0.01 }: TransformInputsProps) {
   return (
-    <div class="property-input-group">
-      <span class="property-input-label">{axis.toUpperCase()}</span>
+    <div class={`property-row ${labels.length > 3 ? 'property-row-compact' : ''}`}>
+      {labels.map((label, index) => (
+        <div class="property-input-group" key={label}>
+          <span class="property-input-label">{label}</span>
+          <input
+            type="number"
+            class="property-input"
+            value={values[index] ?? ''}
+            placeholder={values[index] === null ? 'mixed' : undefined}
+            step={step}
+            onChange={(e) => onChange(index, (e.target as HTMLInputElement).value)}
+            onFocus={onFocus}
+            onBlur={onBlur}
+          />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface PhysicsInputProps {
+  label: string
+  field: NumericPhysicsKey
+  value: PhysicsProperties
+  onChange: (field: NumericPhysicsKey, value: string) => void
+  step?: number
+  max?: number
+  placeholder?: string
+}
+
+function PhysicsInput({ label, field, value, onChange, step = 0.01, max, placeholder = 'default' }: PhysicsInputProps) {
+  return (
+    <div class="property-field">
+      <span class="property-field-label">{label}</span>
       <input
         type="number"
         class="property-input"
-        value={value[axis]}
+        value={value[field] ?? ''}
+        min={0}
+        max={max}
         step={step}
-        onChange={(e) => onChange(axis, (e.target as HTMLInputElement).value)}
-        onFocus={onFocus}
-        onBlur={onBlur}
+        placeholder={placeholder}
+        onChange={(e) => onChange(field, (e.target as HTMLInputElement).value)}
       />
     </div>
   )
@@ -235,6 +590,19 @@ function round(num: number): number {
   return Math.round(num * 1000) / 1000
 }
 
+function objectSnapshot(asset: LoadedAsset): TransformSnapshot {
+  const obj = asset.object
+  return {
+    position: { x: obj.position.x, y: obj.position.y, z: obj.position.z },
+    rotation: {
+      x: obj.rotation.x * (180 / Math.PI),
+      y: obj.rotation.y * (180 / Math.PI),
+      z: obj.rotation.z * (180 / Math.PI),
+    },
+    scale: { x: obj.scale.x, y: obj.scale.y, z: obj.scale.z },
+  }
+}
+
 function vec3Equal(a: Vec3, b: Vec3): boolean {
   return a.x === b.x && a.y === b.y && a.z === b.z
 }
@@ -242,3 +610,51 @@ function vec3Equal(a: Vec3, b: Vec3): boolean {
 function transformsEqual(a: TransformSnapshot, b: TransformSnapshot): boolean {
   return vec3Equal(a.position, b.position) && vec3Equal(a.rotation, b.rotation) && vec3Equal(a.scale, b.scale)
 }
+
+function fieldLabels(field: TransformField, format: RotationFormat): string[] {
+  if (field !== 'rotation') return ['X', 'Y', 'Z']
+  return ROTATION_FORMATS.find(f => f.value === format)!.components
+}
+
+function rotationStep(format: RotationFormat): number {
+  return format === 'rpy' ? 1 : 0.01
+}
+
+// A field of the snapshot in the Z-up export frame: X, Y, Z for position and
+// scale, the rotation in the given format
+function frameValues(t: TransformSnapshot, field: TransformField, format: RotationFormat): number[] {
+  switch (field) {
+    case 'position':
+      return toZUpPosition(toVector(t.position)).toArray()
+    case 'rotation':
+      return toRotationValues(new THREE.Quaternion().setFromEuler(toEuler(t.rotation)), format)
+    case 'scale':
+      return toZUpScale(toVector(t.scale)).toArray()
+  }
+}
+
+// The snapshot with one field set from Z-up export frame values
+function withFrameValues(t: TransformSnapshot, field: TransformField, values: number[], format: RotationFormat): TransformSnapshot {
+  switch (field) {
+    case 'position':
+      return { ...t, position: fromVector(fromZUpPosition(new THREE.Vector3().fromArray(values))) }
+    case 'rotation': {
+      const euler = new THREE.Euler().setFromQuaternion(fromRotationValues(values, format))
+      return { ...t, rotation: fromVector(new THREE.Vector3(euler.x, euler.y, euler.z).multiplyScalar(180 / Math.PI)) }
+    }
+    case 'scale':
+      return { ...t, scale: fromVector(fromZUpScale(new THREE.Vector3().fromArray(values))) }
+  }
+}
+
+function toVector(v: Vec3): THREE.Vector3 {
+  return new THREE.Vector3(v.x, v.y, v.z)
+}
+
+function fromVector(v: THREE.Vector3): Vec3 {
+  return { x: v.x, y: v.y, z: v.z }
+}
+
+function toEuler(degrees: Vec3): THREE.Euler {
+  return new THREE.Euler(degrees.x * (Math.PI / 180), degrees.y * (Math.PI / 180), degrees.z * (Math.PI / 180))
+}
@@ -1,31 +1,113 @@
 import { useState, useRef } from 'preact/hooks'
 import { useScene, SpawnBounds } from '../hooks/useScene'
+import { RandomizationSettings } from '../randomization/spec'
+import { parseSeed, randomSeed } from '../randomization/rng'
+import { BatchResult, totalRejections } from '../randomization/batch'
+import { DEFAULT_REGION_ID, findRegionForAsset } from '../randomization/regions'
+import { areaProblem, areasMatch, areaShape, convertArea, SpawnShape } from '../randomization/areas'
+import { CONSTRAINT_KINDS, CONSTRAINT_LABELS, ConstraintKind, constraintProblem, describeConstraint, isDistanceConstraint } from '../randomization/constraints'
+import { SAMPLING_STRATEGIES, SamplingStrategy } from '../randomization/strategies'
+import { HEIGHT_MODES, HeightMode } from '../randomization/surfaces'
+import { describeCoverage } from '../randomization/coverage'
+import { conditionLabel, parseTags } from '../randomization/conditions'
+import { describeMotion, SimulationResult } from '../physics/simulation'
+import { EXCLUSION_ZONE_COLOR, regionColor } from '../scene/SpawnRegionVisuals'
+
+const DEFAULT_BATCH_COUNT = 50
+const MAX_BATCH_COUNT = 1000
+const DEFAULT_CONSTRAINT_DISTANCE = 0.1
+
+// Condition being edited in the saved conditions list; tags as typed
+interface ConditionDraft {
+  index: number
+  name: string
+  tags: string
+  notes: string
+}
+
+// Area fields edited with number inputs, across all shapes
+type NumericBoundsKey = 'minX' | 'maxX' | 'minY' | 'maxY' | 'rotation' | 'centerX' | 'centerY' | 'radius' | 'innerRadius'
 
 export function RandomizationPanel() {
   const {
     isRandomizeMode,
     spawnBounds,
+    spawnRegions,
+    exclusionZones,
+    activeRegionId,
+    polygonDraft,
+    yawRange,
+    collisionMargin,
+    constraints,
+    orientationPolicies,
+    samplingStrategy,
+    heightMode,
+    seed,
+    currentSeed,
     savedPoses,
+    batchProgress,
+    batchReport,
     savedConditions,
+    showGhosts,
+    heatmapAssetId,
+    isSimulating,
+    stabilityResults,
     assets,
     selectedAsset,
     enterRandomizeMode,
     exitRandomizeMode,
-    setSpawnBounds,
+    setSpawnRegionBounds,
+    addSpawnRegion,
+    removeSpawnRegion,
+    setAssetSpawnRegion,
+    addExclusionZone,
+    removeExclusionZone,
+    selectSpawnRegion,
+    startPolygonDrawing,
+    finishPolygonDrawing,
+    cancelPolygonDrawing,
     setBoundsTransformMode,
+    setYawRange,
+    setCollisionMargin,
+    setSamplingStrategy,
+    setHeightMode,
+    addConstraint,
+    removeConstraint,
+    setSeed,
     randomizeNonStaticAssets,
     acceptRandomization,
+    generateBatch,
+    cancelBatch,
+    clearBatchReport,
     saveCurrentCondition,
     deleteCondition,
     loadCondition,
     clearSavedConditions,
-    createSpawnBoundsCommand,
+    updateConditionDetails,
+    moveCondition,
+    duplicateSavedCondition,
+    overwriteCondition,
+    setShowGhosts,
+    setHeatmapAssetId,
+    settleScene,
+    checkConditionStability,
+    createSpawnRegionBoundsCommand,
+    createRandomizationSettingsCommand,
   } = useScene()
 
   const [showConditionsList, setShowConditionsList] = useState(false)
+  const [conditionDraft, setConditionDraft] = useState<ConditionDraft | null>(null)
+  const [batchCount, setBatchCount] = useState(DEFAULT_BATCH_COUNT)
+  const [constraintDraft, setConstraintDraft] = useState({
+    subjectId: '',
+    kind: 'notInside' as ConstraintKind,
+    objectId: '',
+    distance: DEFAULT_CONSTRAINT_DISTANCE,
+  })
 
   const [notification, setNotification] = useState<string | null>(null)
   const beforeBoundsRef = useRef<SpawnBounds | null>(null)
+  const beforeSettingsRef = useRef<RandomizationSettings | null>(null)
 
   // Count dynamic (non-static) and static assets
   const exportableAssets = assets.filter(a => !a.excludeFromExport && !a.locked)
@@ -35,22 +117,149 @@ export function RandomizationPanel() {
   const hasStaticAssets = staticAssets.length > 0
   const canRandomize = hasDynamicAssets && hasStaticAssets
 
+  // The bounds inputs edit the active region (the default one unless a per-asset region or a zone is picked)
+  const activeRegion = spawnRegions.find(r => r.id === activeRegionId)
+  const activeZone = exclusionZones.find(z => z.id === activeRegionId)
+  const activeBounds = activeRegion?.bounds ?? activeZone?.bounds ?? spawnBounds
+  const activeRegionKey = activeRegion?.id ?? activeZone?.id ?? DEFAULT_REGION_ID
+
+  // Constraints can relate any exported asset; static ones stay at their pose
+  const constrainableAssets = assets.filter(a => !a.excludeFromExport)
+  const assetIds = new Set(constrainableAssets.map(a => a.id))
+  const nameOf = (assetId: string) => assets.find(a => a.id === assetId)?.name ?? 'missing asset'
+
   const handleBoundsFocus = () => {
     if (!beforeBoundsRef.current) {
-      beforeBoundsRef.current = { ...spawnBounds }
+      beforeBoundsRef.current = { ...activeBounds }
     }
   }
 
   const handleBoundsBlur = () => {
-    if (beforeBoundsRef.current && !boundsEqual(beforeBoundsRef.current, spawnBounds)) {
-      createSpawnBoundsCommand(beforeBoundsRef.current, spawnBounds)
+    if (beforeBoundsRef.current && !areasMatch(beforeBoundsRef.current, activeBounds)) {
+      createSpawnRegionBoundsCommand(activeRegionKey, beforeBoundsRef.current, activeBounds)
     }
     beforeBoundsRef.current = null
   }
 
-  const handleBoundsChange = (key: keyof SpawnBounds, value: string) => {
+  const handleBoundsChange = (key: NumericBoundsKey, value: string) => {
+    const num = parseFloat(value) || 0
+    setSpawnRegionBounds(activeRegionKey, { ...activeBounds, [key]: num } as SpawnBounds)
+  }
+
+  const handleShapeChange = (shape: SpawnShape) => {
+    const after = convertArea(activeBounds, shape)
+    setSpawnRegionBounds(activeRegionKey, after)
+    createSpawnRegionBoundsCommand(activeRegionKey, activeBounds, after)
+  }
+
+  const boundsInput = (key: NumericBoundsKey, value: number, step = 0.01) => (
+    <input
+      type="number"
+      step={step}
+      value={value}
+      onChange={(e) => handleBoundsChange(key, (e.target as HTMLInputElement).value)}
+      onFocus={handleBoundsFocus}
+      onBlur={handleBoundsBlur}
+    />
+  )
+
+  // Why the polygon being drawn can't be used yet
+  const draftProblem = polygonDraft && areaProblem({ shape: 'polygon', points: polygonDraft.points })
+
+  const settings: RandomizationSettings = { spawnBounds, spawnRegions, exclusionZones, yawRange, collisionMargin, constraints, orientationPolicies, samplingStrategy, heightMode }
+
+  const handleSettingsFocus = () => {
+    if (!beforeSettingsRef.current) {
+      beforeSettingsRef.current = settings
+    }
+  }
+
+  const handleSettingsBlur = () => {
+    const before = beforeSettingsRef.current
+    if (before && (before.yawRange.min !== yawRange.min || before.yawRange.max !== yawRange.max || before.collisionMargin !== collisionMargin)) {
+      createRandomizationSettingsCommand(before, settings)
+    }
+    beforeSettingsRef.current = null
+  }
+
+  const handleStrategyChange = (strategy: SamplingStrategy) => {
+    setSamplingStrategy(strategy)
+    createRandomizationSettingsCommand(settings, { ...settings, samplingStrategy: strategy })
+  }
+
+  const handleHeightModeChange = (mode: HeightMode) => {
+    setHeightMode(mode)
+    createRandomizationSettingsCommand(settings, { ...settings, heightMode: mode })
+  }
+
+  const handleYawChange = (key: 'min' | 'max', value: string) => {
     const num = parseFloat(value) || 0
-    setSpawnBounds({ ...spawnBounds, [key]: num })
+    setYawRange({ ...yawRange, [key]: num })
+  }
+
+  const handleMarginChange = (value: string) => {
+    setCollisionMargin(Math.max(0, parseFloat(value) || 0))
+  }
+
+  const newConstraint = {
+    kind: constraintDraft.kind,
+    subjectId: constraintDraft.subjectId,
+    objectId: constraintDraft.objectId,
+    distance: isDistanceConstraint(constraintDraft.kind) ? constraintDraft.distance : undefined,
+  }
+  const newConstraintProblem = constraintProblem({ ...newConstraint, id: '' }, assetIds)
+
+  const handleAddConstraint = () => {
+    if (newConstraintProblem) return
+    addConstraint(newConstraint)
+  }
+
+  const handleSeedChange = (value: string) => {
+    const parsed = parseSeed(value)
+    if (parsed !== null) setSeed(parsed)
+  }
+
+  const handleConditionEdit = (index: number) => {
+    const condition = savedConditions[index]
+    setConditionDraft({
+      index,
+      name: condition.name ?? '',
+      tags: condition.tags?.join(', ') ?? '',
+      notes: condition.notes ?? '',
+    })
+  }
+
+  const handleConditionDraftSave = () => {
+    if (!conditionDraft) return
+    updateConditionDetails(conditionDraft.index, {
+      name: conditionDraft.name,
+      tags: parseTags(conditionDraft.tags),
+      notes: conditionDraft.notes,
+    })
+    setConditionDraft(null)
+  }
+
+  // Row indexes shift when the list is reordered or shortened, so close the editor first
+  const handleConditionListChange = (change: () => void) => {
+    setConditionDraft(null)
+    change()
+  }
+
+  const handleSettle = async () => {
+    const result = await settleScene()
+    if (!result.success && result.error) showNotification(result.error)
+  }
+
+  const handleCheckStability = async () => {
+    const result = await checkConditionStability()
+    if (!result.success && result.error) showNotification(result.error)
+  }
+
+  const unstableCount = stabilityResults?.filter(result => !result.stable).length ?? 0
+
+  const handleBatchCountChange = (value: string) => {
+    const num = parseInt(value, 10)
+    if (Number.isFinite(num)) setBatchCount(Math.min(MAX_BATCH_COUNT, Math.max(1, num)))
   }
 
   const getHint = () => {
@@ -144,47 +353,303 @@ export function RandomizationPanel() {
             </button>
           </div>
 
-          <div class="bounds-label">Spawn Area (X-Y plane)</div>
-          <div class="bounds-group">
+          <div class="bounds-label">Spawn Regions</div>
+          <div class="region-list">
+            <div
+              class={`region-item ${activeRegionKey === DEFAULT_REGION_ID ? 'active' : ''}`}
+              onClick={() => selectSpawnRegion(DEFAULT_REGION_ID)}
+            >
+              <span class="region-swatch" style={{ background: hexColor(regionColor(-1)) }} />
+              <span class="region-name">Default</span>
+              <span class="region-count">
+                {dynamicAssets.filter(a => !findRegionForAsset(spawnRegions, a.id)).length} assets
+              </span>
+            </div>
+            {spawnRegions.map((region, index) => (
+              <div
+                class={`region-item ${region.id === activeRegion?.id ? 'active' : ''}`}
+                key={region.id}
+                onClick={() => selectSpawnRegion(region.id)}
+              >
+                <span class="region-swatch" style={{ background: hexColor(regionColor(index)) }} />
+                <span class="region-name">{region.name}</span>
+                <span class="region-count">
+                  {dynamicAssets.filter(a => region.assetIds.includes(a.id)).length} assets
+                </span>
+                <button
+                  class="condition-btn delete"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    removeSpawnRegion(region.id)
+                  }}
+                  title="Remove region (its assets use the default region)"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <button class="seed-btn add-region-btn" onClick={() => addSpawnRegion()} title="Add a spawn region for some of the assets">
+              + Add Region
+            </button>
+          </div>
+
+          <div class="bounds-label">Exclusion Zones</div>
+          <div class="region-list">
+            {exclusionZones.map(zone => (
+              <div
+                class={`region-item ${zone.id === activeZone?.id ? 'active' : ''}`}
+                key={zone.id}
+                onClick={() => selectSpawnRegion(zone.id)}
+              >
+                <span class="region-swatch" style={{ background: hexColor(EXCLUSION_ZONE_COLOR) }} />
+                <span class="region-name">{zone.name}</span>
+                <button
+                  class="condition-btn delete"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    removeExclusionZone(zone.id)
+                  }}
+                  title="Remove exclusion zone"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <button class="seed-btn add-region-btn" onClick={addExclusionZone} title="Add an area where no dynamic asset may spawn">
+              + Add Zone
+            </button>
+          </div>
+
+          <div class="bounds-label">
+            {activeZone ? `${activeZone.name} (keep out)` : `${activeRegion ? activeRegion.name : 'Default'} Area`} (X-Y plane)
+          </div>
+          <div class="bounds-group area-group">
+            <div class="bounds-row">
+              <label>Shape:</label>
+              <select
+                class="shape-select"
+                value={areaShape(activeBounds)}
+                onChange={(e) => handleShapeChange((e.target as HTMLSelectElement).value as SpawnShape)}
+                disabled={polygonDraft !== null}
+              >
+                <option value="rectangle">Rectangle</option>
+                <option value="circle">Circle</option>
+                <option value="polygon">Polygon</option>
+              </select>
+            </div>
+            {activeBounds.shape === 'circle' ? (
+              <>
+                <div class="bounds-row">
+                  <label>Center:</label>
+                  {boundsInput('centerX', activeBounds.centerX)}
+                  <span>,</span>
+                  {boundsInput('centerY', activeBounds.centerY)}
+                </div>
+                <div class="bounds-row">
+                  <label>Radius:</label>
+                  {boundsInput('radius', activeBounds.radius)}
+                  <span>hole</span>
+                  {boundsInput('innerRadius', activeBounds.innerRadius ?? 0)}
+                </div>
+              </>
+            ) : activeBounds.shape === 'polygon' ? (
+              polygonDraft ? (
+                <div class="bounds-row polygon-row">
+                  <span>Click the table: {polygonDraft.points.length} vertices</span>
+                  <button
+                    class="seed-btn"
+                    onClick={finishPolygonDrawing}
+                    disabled={draftProblem !== null}
+                    title={draftProblem ?? 'Use the drawn polygon'}
+                  >
+                    Finish
+                  </button>
+                  <button class="seed-btn" onClick={cancelPolygonDrawing}>Cancel</button>
+                </div>
+              ) : (
+                <div class="bounds-row polygon-row">
+                  <span>{activeBounds.points.length} vertices</span>
+                  <button
+                    class="seed-btn"
+                    onClick={() => startPolygonDrawing(activeRegionKey)}
+                    title="Click points on the table to outline a new polygon"
+                  >
+                    Draw
+                  </button>
+                </div>
+              )
+            ) : (
+              <>
+                <div class="bounds-row">
+                  <label>X:</label>
+                  {boundsInput('minX', activeBounds.minX)}
+                  <span>to</span>
+                  {boundsInput('maxX', activeBounds.maxX)}
+                </div>
+                <div class="bounds-row">
+                  <label>Y:</label>
+                  {boundsInput('minY', activeBounds.minY)}
+                  <span>to</span>
+                  {boundsInput('maxY', activeBounds.maxY)}
+                </div>
+                <div class="bounds-row">
+                  <label>Rotation:</label>
+                  {boundsInput('rotation', activeBounds.rotation ?? 0, 5)}
+                  <span>°</span>
+                </div>
+              </>
+            )}
+            {areaProblem(activeBounds) && <div class="bounds-warning">{areaProblem(activeBounds)}</div>}
+          </div>
+          {activeRegion && (
+            <div class="region-assets">
+              {dynamicAssets.map(asset => (
+                <label class="region-asset" key={asset.id}>
+                  <input
+                    type="checkbox"
+                    checked={activeRegion.assetIds.includes(asset.id)}
+                    onChange={(e) => setAssetSpawnRegion(asset.id, (e.target as HTMLInputElement).checked ? activeRegion.id : null)}
+                  />
+                  {asset.name}
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div class="bounds-label">Constraints</div>
+          <div class="region-list">
+            {constraints.map(constraint => (
+              <div class="region-item constraint-item" key={constraint.id}>
+                <span class="region-name" title={constraintProblem(constraint, assetIds) ?? undefined}>
+                  {describeConstraint(constraint, nameOf)}
+                </span>
+                <button
+                  class="condition-btn delete"
+                  onClick={() => removeConstraint(constraint.id)}
+                  title="Remove constraint"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <div class="constraint-row">
+              <select
+                value={constraintDraft.subjectId}
+                onChange={(e) => setConstraintDraft({ ...constraintDraft, subjectId: (e.target as HTMLSelectElement).value })}
+              >
+                <option value="">Asset…</option>
+                {constrainableAssets.map(asset => <option key={asset.id} value={asset.id}>{asset.name}</option>)}
+              </select>
+              <select
+                value={constraintDraft.kind}
+                onChange={(e) => setConstraintDraft({ ...constraintDraft, kind: (e.target as HTMLSelectElement).value as ConstraintKind })}
+              >
+                {CONSTRAINT_KINDS.map(kind => <option key={kind} value={kind}>{CONSTRAINT_LABELS[kind]}</option>)}
+              </select>
+              {isDistanceConstraint(constraintDraft.kind) && (
+                <input
+                  type="number"
+                  step={0.01}
+                  min={0}
+                  value={constraintDraft.distance}
+                  onChange={(e) => setConstraintDraft({ ...constraintDraft, distance: parseFloat((e.target as HTMLInputElement).value) || 0 })}
+                  title="Distance between centers (m)"
+                />
+              )}
+              <select
+                value={constraintDraft.objectId}
+                onChange={(e) => setConstraintDraft({ ...constraintDraft, objectId: (e.target as HTMLSelectElement).value })}
+              >
+                <option value="">Asset…</option>
+                {constrainableAssets.map(asset => <option key={asset.id} value={asset.id}>{asset.name}</option>)}
+              </select>
+              <button
+                class="seed-btn"
+                onClick={handleAddConstraint}
+                disabled={newConstraintProblem !== null}
+                title={newConstraintProblem ?? 'Add the constraint'}
+              >
+                Add
+              </button>
+            </div>
+          </div>
+
+          <div class="bounds-label">Sampling</div>
+          <div class="bounds-group sampling-group">
             <div class="bounds-row">
-              <label>X:</label>
+              <label>Yaw:</label>
               <input
                 type="number"
-                step={0.01}
-                value={spawnBounds.minX}
-                onChange={(e) => handleBoundsChange('minX', (e.target as HTMLInputElement).value)}
-                onFocus={handleBoundsFocus}
-                onBlur={handleBoundsBlur}
+                step={5}
+                value={yawRange.min}
+                onChange={(e) => handleYawChange('min', (e.target as HTMLInputElement).value)}
+                onFocus={handleSettingsFocus}
+                onBlur={handleSettingsBlur}
               />
               <span>to</span>
               <input
                 type="number"
-                step={0.01}
-                value={spawnBounds.maxX}
-                onChange={(e) => handleBoundsChange('maxX', (e.target as HTMLInputElement).value)}
-                onFocus={handleBoundsFocus}
-                onBlur={handleBoundsBlur}
+                step={5}
+                value={yawRange.max}
+                onChange={(e) => handleYawChange('max', (e.target as HTMLInputElement).value)}
+                onFocus={handleSettingsFocus}
+                onBlur={handleSettingsBlur}
               />
+              <span>°</span>
             </div>
             <div class="bounds-row">
-              <label>Y:</label>
+              <label>Clearance:</label>
               <input
                 type="number"
-                step={0.01}
-                value={spawnBounds.minY}
-                onChange={(e) => handleBoundsChange('minY', (e.target as HTMLInputElement).value)}
-                onFocus={handleBoundsFocus}
-                onBlur={handleBoundsBlur}
+                step={0.005}
+                min={0}
+                value={collisionMargin}
+                onChange={(e) => handleMarginChange((e.target as HTMLInputElement).value)}
+                onFocus={handleSettingsFocus}
+                onBlur={handleSettingsBlur}
+                title="Minimum distance between sampled assets, and from static assets"
               />
-              <span>to</span>
+              <span>m</span>
+            </div>
+            <div class="bounds-row">
+              <label>Seed:</label>
               <input
                 type="number"
-                step={0.01}
-                value={spawnBounds.maxY}
-                onChange={(e) => handleBoundsChange('maxY', (e.target as HTMLInputElement).value)}
-                onFocus={handleBoundsFocus}
-                onBlur={handleBoundsBlur}
+                step={1}
+                min={0}
+                value={seed}
+                onChange={(e) => handleSeedChange((e.target as HTMLInputElement).value)}
+                title="Seed for the next Randomize; each draw advances it by one"
               />
+              <button class="seed-btn" onClick={() => setSeed(randomSeed())} title="Pick a random seed">
+                New
+              </button>
+            </div>
+            <div class="bounds-row">
+              <label>Spread:</label>
+              <select
+                class="shape-select"
+                value={samplingStrategy}
+                onChange={(e) => handleStrategyChange((e.target as HTMLSelectElement).value as SamplingStrategy)}
+                title="How Generate spreads each asset's positions over its region"
+              >
+                {SAMPLING_STRATEGIES.map(s => (
+                  <option key={s.value} value={s.value}>{s.label}</option>
+                ))}
+              </select>
+            </div>
+            <div class="bounds-row">
+              <label>Height:</label>
+              <select
+                class="shape-select"
+                value={heightMode}
+                onChange={(e) => handleHeightModeChange((e.target as HTMLSelectElement).value as HeightMode)}
+                title="Keep each asset's height, or rest it on the static asset below it"
+              >
+                {HEIGHT_MODES.map(m => (
+                  <option key={m.value} value={m.value}>{m.label}</option>
+                ))}
+              </select>
             </div>
           </div>
           <div class="bounds-hint">Click objects to position them manually</div>
@@ -193,6 +658,7 @@ export function RandomizationPanel() {
 
       <div class="randomize-info">
         {dynamicAssets.length} dynamic asset{dynamicAssets.length !== 1 ? 's' : ''}
+        {currentSeed !== null && ` · seed ${currentSeed}`}
       </div>
 
       <div class="saved-conditions-section">
@@ -206,18 +672,126 @@ export function RandomizationPanel() {
             <span>{savedConditions.length} saved condition{savedConditions.length !== 1 ? 's' : ''}</span>
           </button>
           {savedConditions.length > 0 && (
-            <button class="clear-conditions-btn" onClick={clearSavedConditions} title="Clear all saved conditions">
+            <button class="clear-conditions-btn" onClick={() => handleConditionListChange(clearSavedConditions)} title="Clear all saved conditions">
               Clear All
             </button>
           )}
         </div>
 
+        {savedConditions.length > 0 && (
+          <div class="condition-overlays">
+            <label class="region-asset" title="Show every saved condition's poses as translucent ghosts">
+              <input
+                type="checkbox"
+                checked={showGhosts}
+                onChange={(e) => setShowGhosts((e.target as HTMLInputElement).checked)}
+              />
+              Ghosts
+            </label>
+            <label>Heatmap:</label>
+            <select
+              class="shape-select"
+              value={heatmapAssetId ?? ''}
+              onChange={(e) => setHeatmapAssetId((e.target as HTMLSelectElement).value || null)}
+              title="Show where one asset lands across the saved conditions"
+            >
+              <option value="">Off</option>
+              {dynamicAssets.map(asset => (
+                <option key={asset.id} value={asset.id}>{asset.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {savedConditions.length > 0 && (
+          <div class="condition-overlays">
+            <button
+              class="condition-btn"
+              onClick={handleCheckStability}
+              disabled={isSimulating}
+              title="Simulate each saved condition and flag the ones where assets move"
+            >
+              {isSimulating ? 'Simulating…' : 'Check Stability'}
+            </button>
+            {stabilityResults && (
+              <span>{unstableCount > 0 ? `${unstableCount} of ${stabilityResults.length} unstable` : 'All stable'}</span>
+            )}
+          </div>
+        )}
+
         {showConditionsList && savedConditions.length > 0 && (
           <div class="conditions-list">
-            {savedConditions.map((_, index) => (
+            {savedConditions.map((condition, index) => conditionDraft?.index === index ? (
+              <div class="condition-editor" key={index}>
+                <input
+                  type="text"
+                  value={conditionDraft.name}
+                  placeholder={`Condition ${index + 1}`}
+                  onInput={(e) => setConditionDraft({ ...conditionDraft, name: (e.target as HTMLInputElement).value })}
+                  title="Name"
+                />
+                <input
+                  type="text"
+                  value={conditionDraft.tags}
+                  placeholder="Tags, comma separated"
+                  onInput={(e) => setConditionDraft({ ...conditionDraft, tags: (e.target as HTMLInputElement).value })}
+                  title="Tags, e.g. hard, occluded"
+                />
+                <textarea
+                  value={conditionDraft.notes}
+                  placeholder="Notes"
+                  rows={2}
+                  onInput={(e) => setConditionDraft({ ...conditionDraft, notes: (e.target as HTMLTextAreaElement).value })}
+                />
+                <div class="condition-actions">
+                  <button class="condition-btn" onClick={() => duplicateSavedCondition(index)} title="Add a copy below this condition">
+                    Duplicate
+                  </button>
+                  <button class="condition-btn" onClick={() => overwriteCondition(index)} title="Replace this condition's poses with the current scene">
+                    Overwrite
+                  </button>
+                  <button class="condition-btn" onClick={() => setConditionDraft(null)} title="Discard the changes">
+                    Cancel
+                  </button>
+                  <button class="condition-btn load" onClick={handleConditionDraftSave} title="Keep the name, tags and notes">
+                    Done
+                  </button>
+                </div>
+              </div>
+            ) : (
               <div class="condition-item" key={index}>
-                <span class="condition-name">Condition {index + 1}</span>
+                <span class="condition-name" title={condition.notes}>
+                  {conditionLabel(condition, index)}
+                  {condition.seed !== undefined && <span class="condition-seed">seed {condition.seed}</span>}
+                  {condition.tags?.map(tag => <span class="condition-tag" key={tag}>{tag}</span>)}
+                  {stabilityResults?.[index] && !stabilityResults[index].stable && (
+                    <span class="condition-unstable" title={describeInstability(stabilityResults[index], nameOf)}>unstable</span>
+                  )}
+                </span>
                 <div class="condition-actions">
+                  <button
+                    class="condition-btn"
+                    onClick={() => handleConditionListChange(() => moveCondition(index, -1))}
+                    disabled={index === 0}
+                    title="Move up"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    class="condition-btn"
+                    onClick={() => handleConditionListChange(() => moveCondition(index, 1))}
+                    disabled={index === savedConditions.length - 1}
+                    title="Move down"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    class="condition-btn"
+                    onClick={() => handleConditionEdit(index)}
+                    title="Name, tag, duplicate or overwrite this condition"
+                  >
+                    Edit
+                  </button>
                   <button
                     class="condition-btn load"
                     onClick={() => loadCondition(index)}
@@ -227,7 +801,7 @@ export function RandomizationPanel() {
                   </button>
                   <button
                     class="condition-btn delete"
-                    onClick={() => deleteCondition(index)}
+                    onClick={() => handleConditionListChange(() => deleteCondition(index))}
                     title="Delete this condition"
                   >
                     ×
@@ -243,9 +817,73 @@ export function RandomizationPanel() {
         <button class="toolbar-btn" onClick={saveCurrentCondition} title="Save current positions as initial condition">
           Save Current
         </button>
-        <button class="toolbar-btn" onClick={randomizeNonStaticAssets}>
+        <button class="toolbar-btn" onClick={randomizeNonStaticAssets} disabled={batchProgress !== null}>
           Randomize
         </button>
+        <button
+          class="toolbar-btn"
+          onClick={handleSettle}
+          disabled={isSimulating || batchProgress !== null}
+          title="Simulate physics until the dynamic assets come to rest"
+        >
+          Settle
+        </button>
+      </div>
+      {notification && <div class="randomize-notification">{notification}</div>}
+
+      <div class="batch-section">
+        {batchProgress ? (
+          <div class="batch-progress">
+            <div class="batch-progress-bar">
+              <div class="batch-progress-fill" style={{ width: `${(100 * batchProgress.generated) / batchProgress.total}%` }} />
+            </div>
+            <div class="batch-progress-row">
+              <span>
+                {batchProgress.generated}/{batchProgress.total} · {totalRejections(batchProgress.rejections)} rejected
+              </span>
+              <button class="condition-btn" onClick={cancelBatch} title="Stop and keep the conditions generated so far">
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div class="batch-row">
+            <input
+              type="number"
+              min={1}
+              max={MAX_BATCH_COUNT}
+              step={1}
+              value={batchCount}
+              onChange={(e) => handleBatchCountChange((e.target as HTMLInputElement).value)}
+            />
+            <button class="toolbar-btn" onClick={() => generateBatch(batchCount)} title="Sample collision-free conditions and save them">
+              Generate {batchCount}
+            </button>
+          </div>
+        )}
+        {batchReport && (
+          <div class={`batch-report ${batchReport.stopReason === 'done' ? '' : 'incomplete'}`}>
+            <div class="batch-report-header">
+              <span>{describeBatchOutcome(batchReport)}</span>
+              <button class="randomize-close-btn" onClick={clearBatchReport} title="Dismiss">×</button>
+            </div>
+            <div>{describeRejections(batchReport)}</div>
+            {Object.entries(batchReport.constraintFailures).map(([id, count]) => {
+              const constraint = constraints.find(c => c.id === id)
+              return constraint && (
+                <div class="batch-detail" key={id}>{describeConstraint(constraint, nameOf)}: failed {count}×</div>
+              )
+            })}
+            {batchReport.generated > 0 && (
+              <>
+                <div>Coverage</div>
+                {batchReport.coverage.map(coverage => (
+                  <div class="batch-detail" key={coverage.assetId}>{nameOf(coverage.assetId)}: {describeCoverage(coverage)}</div>
+                ))}
+              </>
+            )}
+          </div>
+        )}
       </div>
 
       {savedPoses && (
@@ -261,9 +899,35 @@ export function RandomizationPanel() {
   )
 }
 
-function boundsEqual(a: SpawnBounds, b: SpawnBounds): boolean {
-  return (
-    a.minX === b.minX && a.maxX === b.maxX &&
-    a.minY === b.minY && a.maxY === b.maxY
-  )
+function describeBatchOutcome(report: BatchResult): string {
+  switch (report.stopReason) {
+    case 'done':
+      return `Generated ${report.generated} conditions in ${report.draws} draws`
+    case 'cancelled':
+      return `Cancelled: kept ${report.generated} of ${report.total} conditions`
+    case 'cannotFit':
+      return 'Stopped: an asset is larger than the spawn area'
+    case 'maxDraws':
+      return `Stopped after ${report.draws} draws: ${report.generated} of ${report.total} conditions`
+  }
+}
+
+function describeRejections(report: BatchResult): string {
+  const { collision, outOfBounds, excluded, constraint, cannotFit } = report.rejections
+  const total = totalRejections(report.rejections)
+  if (total === 0) return 'No samples rejected'
+  return `Rejected ${total}: ${collision} collision, ${outOfBounds} out of bounds, ${excluded} in exclusion zones, ${constraint} broke constraints, ${cannotFit} couldn't fit`
+}
+
+function hexColor(color: number): string {
+  return `#${color.toString(16).padStart(6, '0')}`
+}
+
+
+// Tooltip for an unstable condition: the assets that moved too far
+function describeInstability(result: SimulationResult, nameOf: (assetId: string) => string): string {
+  return result.motions
+    .filter(motion => !motion.stable)
+    .map(motion => describeMotion(motion, nameOf(motion.assetId)))
+    .join('\n')
 }
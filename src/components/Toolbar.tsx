@@ -1,18 +1,25 @@
 import { useRef, useEffect, useState } from 'preact/hooks'
 import { useScene } from '../hooks/useScene'
 import { TransformMode } from '../scene/SelectionManager'
-import { exportScene } from '../io/exportScene'
+import { buildSceneBundle, downloadBundle, ExportFormat } from '../io/exportScene'
 import { importScene } from '../io/importScene'
+import { DEFAULT_POSE_ENCODING, PoseEncoding } from '../io/poseEncoding'
+import { ConditionTableFormat } from '../io/conditionTables'
+import { ExportOptionsModal } from './ExportOptionsModal'
 
 interface ToolbarProps {
   onHelpClick: () => void
 }
 
 export function Toolbar({ onHelpClick }: ToolbarProps) {
-  const { transformMode, setTransformMode, assets, addAsset, assetLoader, savedConditions, instruction, setSavedConditions, setInstruction } = useScene()
+  const { transformMode, setTransformMode, assets, addAsset, assetLoader, savedConditions, instruction, setSavedConditions, setInstruction, spawnBounds, spawnRegions, exclusionZones, yawRange, collisionMargin, constraints, orientationPolicies, samplingStrategy, heightMode, setRandomizationSettings, referenceFrame, setReferenceFrame, withAuthoredPoses } = useScene()
   const folderInputRef = useRef<HTMLInputElement>(null)
   const importInputRef = useRef<HTMLInputElement>(null)
   const [notification, setNotification] = useState<{ message: string; type: 'error' | 'success' } | null>(null)
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('usd')
+  const [poseEncoding, setPoseEncoding] = useState<PoseEncoding>(DEFAULT_POSE_ENCODING)
+  const [conditionTables, setConditionTables] = useState<ConditionTableFormat[]>([])
+  const [showExportOptions, setShowExportOptions] = useState(false)
 
   const modes: { mode: TransformMode; label: string; key: string }[] = [
     { mode: 'translate', label: 'Move', key: 'G' },
@@ -68,10 +75,19 @@ export function Toolbar({ onHelpClick }: ToolbarProps) {
 
   const handleExport = async () => {
     if (assets.length === 0) return
-    const result = await exportScene(assets, savedConditions, instruction)
-    if (!result.success && result.error) {
-      showNotification(result.error, 'error')
+    // The scene is written in its authored layout, not the draw on screen
+    const result = withAuthoredPoses(() => buildSceneBundle(assets, savedConditions, instruction, {
+      format: exportFormat,
+      randomization: { spawnBounds, spawnRegions, exclusionZones, yawRange, collisionMargin, constraints, orientationPolicies, samplingStrategy, heightMode },
+      referenceFrame,
+      poseEncoding,
+      conditionTables,
+    }))
+    if (!result.success || !result.bundle) {
+      if (result.error) showNotification(result.error, 'error')
+      return
     }
+    await downloadBundle(result.bundle)
   }
 
   const handleImport = () => {
@@ -108,6 +124,21 @@ export function Toolbar({ onHelpClick }: ToolbarProps) {
       setInstruction(result.instruction)
     }
 
+    // Restore randomization settings
+    if (result.randomization) {
+      setRandomizationSettings(result.randomization)
+    }
+
+    // Restore the frame the poses were exported in
+    if (result.referenceFrame) {
+      setReferenceFrame(result.referenceFrame)
+    }
+
+    // Export again the way the bundle was written
+    if (result.poseEncoding) {
+      setPoseEncoding(result.poseEncoding)
+    }
+
     showNotification(`Imported ${result.assets.length} asset(s)`, 'success')
     input.value = ''
   }
@@ -156,6 +187,18 @@ export function Toolbar({ onHelpClick }: ToolbarProps) {
         <button class="toolbar-btn" onClick={handleImport}>
           Import
         </button>
+        <select
+          class="toolbar-select"
+          value={exportFormat}
+          onChange={(e) => setExportFormat((e.target as HTMLSelectElement).value as ExportFormat)}
+          title="Export format"
+        >
+          <option value="usd">USD</option>
+          <option value="mjcf">MuJoCo</option>
+        </select>
+        <button class="toolbar-btn" onClick={() => setShowExportOptions(true)} title="Pose encoding and condition tables">
+          Options
+        </button>
         <button
           class="toolbar-btn toolbar-btn-primary"
           onClick={handleExport}
@@ -179,6 +222,15 @@ export function Toolbar({ onHelpClick }: ToolbarProps) {
         onChange={handleImportSelect}
       />
 
+      <ExportOptionsModal
+        isOpen={showExportOptions}
+        poseEncoding={poseEncoding}
+        conditionTables={conditionTables}
+        onPoseEncodingChange={setPoseEncoding}
+        onConditionTablesChange={setConditionTables}
+        onClose={() => setShowExportOptions(false)}
+      />
+
       {notification && (
         <div class={`notification notification-${notification.type}`}>
           {notification.message}
@@ -4,13 +4,71 @@ import * as THREE from 'three'
 import { SceneManager } from '../scene/SceneManager'
 import { SelectionManager, TransformMode, TransformDragEvent } from '../scene/SelectionManager'
 import { AssetLoader, LoadedAsset } from '../scene/AssetLoader'
+import { EXCLUSION_ZONE_COLOR, regionColor, SpawnRegionVisuals } from '../scene/SpawnRegionVisuals'
+import { ConditionOverlay } from '../scene/ConditionOverlay'
+import { canAttach, carryDescendants, isCarried, parentsFirst, withCarriedPoses, worldMatrix } from '../scene/hierarchy'
 import { useHistory, Command } from './useHistory'
-
-export interface SpawnBounds {
+import { createObstacles, createSampleTarget, dropToSurface, sampleCondition, withCarriedBounds, YawRange } from '../randomization/sampler'
+import { DEFAULT_RANDOMIZATION_SETTINGS, RandomizationSettings } from '../randomization/spec'
+import { createRng, nextSeed, randomSeed } from '../randomization/rng'
+import { assignAssetToRegion, createRegionId, DEFAULT_REGION_ID, nextRegionName, regionBoundsFor } from '../randomization/regions'
+import { areaCenter } from '../randomization/areas'
+import { createConstraintId, PlacementConstraint } from '../randomization/constraints'
+import { OrientationPolicy } from '../randomization/orientation'
+import { SamplingBatch, SamplingStrategy } from '../randomization/strategies'
+import { createSurfaceProbe, HeightMode } from '../randomization/surfaces'
+import { ConditionDetails, duplicateCondition, normalizeDetails } from '../randomization/conditions'
+import { BatchProgress, BatchResult, emptyRejectionCounts, generateConditions } from '../randomization/batch'
+import { PhysicsProperties } from '../physics/properties'
+import { createSceneSimulator, SimulationResult } from '../physics/simulation'
+import { ReferenceFrame, WORLD_FRAME } from '../io/referenceFrame'
+
+// Spawn area on the table plane (Z-up, meters). Rectangles are the default shape.
+export type SpawnBounds = RectangleSpawnBounds | CircleSpawnBounds | PolygonSpawnBounds
+
+export interface RectangleSpawnBounds {
+  shape?: 'rectangle'
+  // Extent before rotation
   minX: number
   maxX: number
   minY: number
   maxY: number
+  rotation?: number // Degrees counter-clockwise about the center, seen from above
+}
+
+// A disc, or an annulus when innerRadius > 0
+export interface CircleSpawnBounds {
+  shape: 'circle'
+  centerX: number
+  centerY: number
+  radius: number
+  innerRadius?: number
+}
+
+export interface PolygonSpawnBounds {
+  shape: 'polygon'
+  points: [number, number][] // Vertices in order, not closed
+}
+
+// Spawn area for a group of dynamic assets; assets in no region use the global SpawnBounds
+export interface SpawnRegion {
+  id: string
+  name: string
+  bounds: SpawnBounds
+  assetIds: string[]
+}
+
+// Keep-out area (robot base, fixture, gripper start) no dynamic asset may touch
+export interface ExclusionZone {
+  id: string
+  name: string
+  bounds: SpawnBounds
+}
+
+// Polygon being drawn in the viewport for a spawn region
+export interface PolygonDraft {
+  regionId: string
+  points: [number, number][] // Z-up vertices placed so far
 }
 
 export interface SavedPose {
@@ -20,6 +78,11 @@ export interface SavedPose {
 
 export interface SavedCondition {
   poses: Map<string, SavedPose>
+  seed?: number // Sampler seed that produced the poses; absent for hand-placed conditions
+  batch?: SamplingBatch // Planned batch the seed was drawn in; absent for uniform sampling
+  name?: string
+  tags?: string[] // Free-form labels, e.g. "hard" or "occluded"
+  notes?: string
 }
 
 export interface SceneState {
@@ -27,35 +90,89 @@ export interface SceneState {
   selectionManager: SelectionManager | null
   assetLoader: AssetLoader | null
   assets: LoadedAsset[]
-  selectedAsset: LoadedAsset | null
+  selectedAsset: LoadedAsset | null // Primary selection: the last asset picked
+  selectedAssets: LoadedAsset[] // Every selected asset, in the order picked
   transformMode: TransformMode
   isRandomizeMode: boolean
   spawnBounds: SpawnBounds
+  spawnRegions: SpawnRegion[]
+  exclusionZones: ExclusionZone[]
+  activeRegionId: string // Region or zone whose bounds the gizmo and inputs edit (DEFAULT_REGION_ID for spawnBounds)
+  polygonDraft: PolygonDraft | null // Set while clicks in the viewport draw a polygon region
+  yawRange: YawRange
+  collisionMargin: number
+  constraints: PlacementConstraint[] // Relations sampled conditions must satisfy
+  orientationPolicies: Record<string, OrientationPolicy> // By asset id; others use yawRange
+  samplingStrategy: SamplingStrategy // How Generate N spreads positions over the batch
+  heightMode: HeightMode // Whether sampled assets keep their height or rest on the surface below
+  seed: number // Seed for the next randomization
+  currentSeed: number | null // Seed behind the current poses, null once edited by hand
   savedPoses: Map<string, SavedPose> | null
+  batchProgress: BatchProgress | null // Set while a batch is generating
+  batchReport: BatchResult | null // Outcome of the last batch
   savedConditions: SavedCondition[]
+  showGhosts: boolean // Onion skin of every saved condition in the viewport
+  heatmapAssetId: string | null // Asset whose saved positions are shown as a heatmap
+  isSimulating: boolean // Set while physics settles the scene or checks conditions
+  stabilityResults: SimulationResult[] | null // Per saved condition, from the last check; cleared when they change
   instruction: string
+  referenceFrame: ReferenceFrame // Frame the exported poses are relative to
 }
 
 export interface SceneActions {
   initScene: (container: HTMLElement) => void
   addAsset: (asset: LoadedAsset) => void
   removeAsset: (id: string) => void
-  selectAsset: (asset: LoadedAsset | null) => void
+  setAssetParent: (id: string, parentId: string | null) => void // Null detaches; ignored if it would make a cycle
+  selectAsset: (asset: LoadedAsset | null, additive?: boolean) => void // Additive toggles the asset in the selection
   setTransformMode: (mode: TransformMode) => void
   updateAssetTransform: (id: string, position: { x: number; y: number; z: number }, rotation: { x: number; y: number; z: number }, scale: { x: number; y: number; z: number }) => void
   toggleAssetGravity: (id: string) => void
+  updateAssetPhysics: (id: string, changes: Partial<PhysicsProperties>) => void
   enterRandomizeMode: () => void
-  exitRandomizeMode: () => void
-  setSpawnBounds: (bounds: SpawnBounds) => void
+  exitRandomizeMode: () => void // Puts the sampled assets back at their authored poses
+  withAuthoredPoses: <T>(fn: () => T) => T // Runs fn with the sampled assets at their authored poses
+  setSpawnRegionBounds: (regionId: string, bounds: SpawnBounds) => void
+  addSpawnRegion: (assetIds?: string[]) => void
+  removeSpawnRegion: (regionId: string) => void
+  setAssetSpawnRegion: (assetId: string, regionId: string | null) => void
+  addExclusionZone: () => void
+  removeExclusionZone: (zoneId: string) => void
+  selectSpawnRegion: (regionId: string) => void
+  startPolygonDrawing: (regionId: string) => void
+  finishPolygonDrawing: () => void
+  cancelPolygonDrawing: () => void
   setBoundsTransformMode: (mode: 'translate' | 'rotate' | 'scale') => void
+  setYawRange: (range: YawRange) => void
+  setCollisionMargin: (margin: number) => void
+  setSamplingStrategy: (strategy: SamplingStrategy) => void
+  setHeightMode: (mode: HeightMode) => void
+  dropAssetToSurface: (id: string) => number | null // New height, null when nothing is below
+  addConstraint: (constraint: Omit<PlacementConstraint, 'id'>) => void
+  removeConstraint: (constraintId: string) => void
+  setAssetOrientation: (assetId: string, policy: OrientationPolicy | null) => void
+  setRandomizationSettings: (settings: RandomizationSettings) => void
+  setSeed: (seed: number) => void
   randomizeNonStaticAssets: () => void
   acceptRandomization: () => void
+  generateBatch: (count: number) => Promise<void>
+  cancelBatch: () => void
+  clearBatchReport: () => void
   saveCurrentCondition: () => void
   deleteCondition: (index: number) => void
   loadCondition: (index: number) => void
   clearSavedConditions: () => void
+  updateConditionDetails: (index: number, details: ConditionDetails) => void
+  moveCondition: (index: number, offset: number) => void
+  duplicateSavedCondition: (index: number) => void
+  overwriteCondition: (index: number) => void
   setSavedConditions: (conditions: SavedCondition[]) => void
+  setShowGhosts: (show: boolean) => void
+  settleScene: () => Promise<{ success: boolean; error?: string }>
+  checkConditionStability: () => Promise<{ success: boolean; error?: string }>
+  setHeatmapAssetId: (assetId: string | null) => void
   setInstruction: (instruction: string) => void
+  setReferenceFrame: (frame: ReferenceFrame) => void
   // History actions
   undo: () => void
   redo: () => void
@@ -63,42 +180,80 @@ export interface SceneActions {
   canRedo: boolean
   // For property panel batching
   createTransformCommand: (id: string, before: { position: { x: number; y: number; z: number }; rotation: { x: number; y: number; z: number }; scale: { x: number; y: number; z: number } }, after: { position: { x: number; y: number; z: number }; rotation: { x: number; y: number; z: number }; scale: { x: number; y: number; z: number } }) => void
+  // One undo step for a change to several assets (group drags, multi-selection edits)
+  createGroupTransformCommand: (changes: TransformDragEvent[]) => void
   // For instruction panel batching
   createInstructionCommand: (before: string, after: string) => void
   // For bounds input batching
-  createSpawnBoundsCommand: (before: SpawnBounds, after: SpawnBounds) => void
+  createSpawnRegionBoundsCommand: (regionId: string, before: SpawnBounds, after: SpawnBounds) => void
+  // For yaw and margin input batching
+  createRandomizationSettingsCommand: (before: RandomizationSettings, after: RandomizationSettings) => void
 }
 
+// Side of the square exclusion zone added by addExclusionZone (m)
+const DEFAULT_EXCLUSION_ZONE_SIZE = 0.1
+
 export interface SceneContextValue extends SceneState, SceneActions {}
 
 export const SceneContext = createContext<SceneContextValue | null>(null)
 
-const DEFAULT_SPAWN_BOUNDS: SpawnBounds = {
-  minX: -0.3,
-  maxX: 0.3,
-  minY: -0.3,
-  maxY: 0.3,
-}
-
 export function useSceneProvider(): SceneContextValue {
   const [sceneManager, setSceneManager] = useState<SceneManager | null>(null)
   const [selectionManager, setSelectionManager] = useState<SelectionManager | null>(null)
   const [assetLoader] = useState(() => new AssetLoader())
   const [assets, setAssets] = useState<LoadedAsset[]>([])
   const [selectedAsset, setSelectedAsset] = useState<LoadedAsset | null>(null)
+  const [selectedAssets, setSelectedAssets] = useState<LoadedAsset[]>([])
   const [transformMode, setTransformModeState] = useState<TransformMode>('translate')
   const [isRandomizeMode, setIsRandomizeMode] = useState(false)
-  const [spawnBounds, setSpawnBoundsState] = useState<SpawnBounds>(DEFAULT_SPAWN_BOUNDS)
+  const [spawnBounds, setSpawnBoundsState] = useState<SpawnBounds>(DEFAULT_RANDOMIZATION_SETTINGS.spawnBounds)
+  const [yawRange, setYawRange] = useState<YawRange>(DEFAULT_RANDOMIZATION_SETTINGS.yawRange)
+  const [collisionMargin, setCollisionMargin] = useState(DEFAULT_RANDOMIZATION_SETTINGS.collisionMargin)
+  const [samplingStrategy, setSamplingStrategy] = useState<SamplingStrategy>(DEFAULT_RANDOMIZATION_SETTINGS.samplingStrategy)
+  const [heightMode, setHeightMode] = useState<HeightMode>(DEFAULT_RANDOMIZATION_SETTINGS.heightMode)
+  const [seed, setSeed] = useState(() => randomSeed())
+  const [currentSeed, setCurrentSeed] = useState<number | null>(null)
   const [savedPoses, setSavedPoses] = useState<Map<string, SavedPose> | null>(null)
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null)
+  const [batchReport, setBatchReport] = useState<BatchResult | null>(null)
   const [savedConditions, setSavedConditions] = useState<SavedCondition[]>([])
   const [instruction, setInstruction] = useState('')
-  const boundsBoxRef = useRef<THREE.Box3Helper | null>(null)
-  const boundsMeshRef = useRef<THREE.Mesh | null>(null)
+  const [referenceFrame, setReferenceFrame] = useState<ReferenceFrame>(WORLD_FRAME)
+  const [spawnRegions, setSpawnRegionsState] = useState<SpawnRegion[]>([])
+  const [exclusionZones, setExclusionZonesState] = useState<ExclusionZone[]>([])
+  const [activeRegionId, setActiveRegionId] = useState(DEFAULT_REGION_ID)
+  const [regionVisuals, setRegionVisuals] = useState<SpawnRegionVisuals | null>(null)
+  const [conditionOverlay, setConditionOverlay] = useState<ConditionOverlay | null>(null)
+  const [showGhosts, setShowGhosts] = useState(false)
+  const [heatmapAssetId, setHeatmapAssetId] = useState<string | null>(null)
+  const [isSimulating, setIsSimulating] = useState(false)
+  const [stabilityResults, setStabilityResults] = useState<SimulationResult[] | null>(null)
+  const [polygonDraft, setPolygonDraft] = useState<PolygonDraft | null>(null)
+  const [constraints, setConstraintsState] = useState<PlacementConstraint[]>([])
+  const [orientationPolicies, setOrientationPoliciesState] = useState<Record<string, OrientationPolicy>>({})
 
   // History management
   const history = useHistory()
   const assetsRef = useRef<LoadedAsset[]>([])
   assetsRef.current = assets
+  const seedRef = useRef(seed)
+  seedRef.current = seed
+  const spawnRegionsRef = useRef(spawnRegions)
+  spawnRegionsRef.current = spawnRegions
+  const exclusionZonesRef = useRef(exclusionZones)
+  exclusionZonesRef.current = exclusionZones
+  const constraintsRef = useRef(constraints)
+  constraintsRef.current = constraints
+  const orientationPoliciesRef = useRef(orientationPolicies)
+  orientationPoliciesRef.current = orientationPolicies
+  const currentSeedRef = useRef(currentSeed)
+  currentSeedRef.current = currentSeed
+  // Poses randomization samples from: the authored layout, captured on the
+  // first draw in the mode so repeated draws don't compound. Leaving the mode
+  // (and exporting) puts the assets back there, so scene.json and
+  // randomization.json record the same base and a seed reproduces its poses.
+  const samplingBaseRef = useRef<Map<string, SavedPose> | null>(null)
+  const batchAbortRef = useRef<AbortController | null>(null)
 
   // Helper to apply transform to an asset
   const applyTransform = useCallback((
@@ -109,6 +264,7 @@ export function useSceneProvider(): SceneContextValue {
   ) => {
     const asset = assetsRef.current.find((a) => a.id === id)
     if (asset) {
+      const before = worldMatrix(asset.object)
       asset.object.position.set(position.x, position.y, position.z)
       asset.object.rotation.set(
         rotation.x * (Math.PI / 180),
@@ -116,6 +272,7 @@ export function useSceneProvider(): SceneContextValue {
         rotation.z * (Math.PI / 180)
       )
       asset.object.scale.set(scale.x, scale.y, scale.z)
+      carryDescendants(assetsRef.current, id, before)
     }
   }, [])
 
@@ -131,8 +288,62 @@ export function useSceneProvider(): SceneContextValue {
       undo: () => applyTransform(id, before.position, before.rotation, before.scale),
     }
     history.pushCommand(command)
+    // Hand-edited poses no longer match any seed
+    setCurrentSeed(null)
   }, [applyTransform, history])
 
+  // Create and push one command for several assets' transforms
+  const createGroupTransformCommand = useCallback((changes: TransformDragEvent[]) => {
+    if (changes.length === 0) return
+    // Parents first: moving one carries its children, which then get their own transform
+    const ordered = parentsFirst(assetsRef.current, changes, change => change.assetId)
+    const apply = (side: 'before' | 'after') => {
+      for (const change of ordered) {
+        const t = change[side]
+        applyTransform(change.assetId, t.position, t.rotation, t.scale)
+      }
+      selectionManager?.updateHighlight()
+    }
+    const command: Command = {
+      type: 'groupTransform',
+      execute: () => apply('after'),
+      undo: () => apply('before'),
+    }
+    history.pushCommand(command)
+    // Hand-edited poses no longer match any seed
+    setCurrentSeed(null)
+  }, [applyTransform, selectionManager, history])
+
+  // Rest an asset on the static asset below it (manual placement), with history
+  const dropAssetToSurface = useCallback((id: string): number | null => {
+    const asset = assetsRef.current.find(a => a.id === id)
+    if (!asset) return null
+
+    const pose = { position: asset.object.position.clone(), quaternion: asset.object.quaternion.clone() }
+    const { localBounds } = createSampleTarget(asset, pose)
+    if (!dropToSurface(localBounds, pose, createSurfaceProbe(assetsRef.current, id))) return null
+
+    const before = asset.object.position.y
+    const after = pose.position.y
+    const setHeight = (y: number) => {
+      const previous = worldMatrix(asset.object)
+      asset.object.position.y = y
+      carryDescendants(assetsRef.current, id, previous)
+      selectionManager?.updateHighlight()
+    }
+    setHeight(after)
+
+    const command: Command = {
+      type: 'dropToSurface',
+      execute: () => setHeight(after),
+      undo: () => setHeight(before),
+    }
+    history.pushCommand(command)
+    // Hand-edited poses no longer match any seed
+    setCurrentSeed(null)
+    return after
+  }, [selectionManager, history])
+
   // Create and push an instruction command (for instruction panel)
   const createInstructionCommand = useCallback((before: string, after: string) => {
     const command: Command = {
@@ -143,16 +354,6 @@ export function useSceneProvider(): SceneContextValue {
     history.pushCommand(command)
   }, [history])
 
-  // Create and push a spawn bounds command (for bounds input)
-  const createSpawnBoundsCommand = useCallback((before: SpawnBounds, after: SpawnBounds) => {
-    const command: Command = {
-      type: 'spawnBounds',
-      execute: () => setSpawnBoundsState(after),
-      undo: () => setSpawnBoundsState(before),
-    }
-    history.pushCommand(command)
-  }, [history])
-
   // Handle transform drag end from SelectionManager
   const handleTransformDragEnd = useCallback((event: TransformDragEvent) => {
     createTransformCommand(event.assetId, event.before, event.after)
@@ -163,18 +364,22 @@ export function useSceneProvider(): SceneContextValue {
     setSceneManager(sm)
 
     const sel = new SelectionManager(sm.scene, sm.camera, sm.renderer, sm.controls)
-    sel.setOnSelectionChange((asset) => {
+    sel.setOnSelectionChange((asset, selection) => {
       setSelectedAsset(asset)
+      setSelectedAssets(selection)
     })
     setSelectionManager(sel)
+    setRegionVisuals(new SpawnRegionVisuals(sm.scene))
+    setConditionOverlay(new ConditionOverlay(sm.scene))
   }, [])
 
   // Set up transform drag end callback when selection manager is available
   useEffect(() => {
     if (selectionManager) {
       selectionManager.setOnTransformDragEnd(handleTransformDragEnd)
+      selectionManager.setOnGroupTransformDragEnd(createGroupTransformCommand)
     }
-  }, [selectionManager, handleTransformDragEnd])
+  }, [selectionManager, handleTransformDragEnd, createGroupTransformCommand])
 
   // Internal add asset (no history)
   const doAddAsset = useCallback((asset: LoadedAsset) => {
@@ -194,15 +399,16 @@ export function useSceneProvider(): SceneContextValue {
       const asset = prev.find((a) => a.id === id)
       if (asset && sceneManager) {
         sceneManager.scene.remove(asset.object)
-        if (selectedAsset?.id === id) {
-          selectionManager?.select(null)
+        const selection = selectionManager?.getSelection() ?? []
+        if (selection.some(a => a.id === id)) {
+          selectionManager?.setSelection(selection.filter(a => a.id !== id))
         }
       }
       const newAssets = prev.filter((a) => a.id !== id)
       selectionManager?.setAssets(newAssets)
       return newAssets
     })
-  }, [sceneManager, selectionManager, selectedAsset])
+  }, [sceneManager, selectionManager])
 
   // Public add asset with history
   const addAsset = useCallback((asset: LoadedAsset) => {
@@ -234,8 +440,39 @@ export function useSceneProvider(): SceneContextValue {
     history.pushCommand(command)
   }, [doAddAsset, doRemoveAsset, selectedAsset, selectionManager, history])
 
-  const selectAsset = useCallback((asset: LoadedAsset | null) => {
-    selectionManager?.select(asset)
+  // Internal set parent (no history). Nothing moves: the hierarchy is logical
+  // and transforms stay in the world frame (see hierarchy.ts).
+  const doSetAssetParent = useCallback((id: string, parentId: string | undefined) => {
+    setAssets((prev) => {
+      const newAssets = prev.map((asset) => asset.id === id ? { ...asset, parentId } : asset)
+      selectionManager?.setAssets(newAssets)
+      return newAssets
+    })
+  }, [selectionManager])
+
+  // Public set parent with history
+  const setAssetParent = useCallback((id: string, parentId: string | null) => {
+    const asset = assetsRef.current.find((a) => a.id === id)
+    if (!asset || !canAttach(assetsRef.current, id, parentId)) return
+    const before = asset.parentId
+    const after = parentId ?? undefined
+    if (before === after) return
+
+    doSetAssetParent(id, after)
+    const command: Command = {
+      type: 'setParent',
+      execute: () => doSetAssetParent(id, after),
+      undo: () => doSetAssetParent(id, before),
+    }
+    history.pushCommand(command)
+  }, [doSetAssetParent, history])
+
+  const selectAsset = useCallback((asset: LoadedAsset | null, additive = false) => {
+    if (asset && additive) {
+      selectionManager?.toggle(asset)
+    } else {
+      selectionManager?.select(asset)
+    }
   }, [selectionManager])
 
   const setTransformMode = useCallback((mode: TransformMode) => {
@@ -251,6 +488,7 @@ export function useSceneProvider(): SceneContextValue {
   ) => {
     const asset = assets.find((a) => a.id === id)
     if (asset) {
+      const before = worldMatrix(asset.object)
       asset.object.position.set(position.x, position.y, position.z)
       asset.object.rotation.set(
         rotation.x * (Math.PI / 180),
@@ -258,6 +496,7 @@ export function useSceneProvider(): SceneContextValue {
         rotation.z * (Math.PI / 180)
       )
       asset.object.scale.set(scale.x, scale.y, scale.z)
+      carryDescendants(assets, id, before)
     }
   }, [assets])
 
@@ -284,158 +523,319 @@ export function useSceneProvider(): SceneContextValue {
     history.pushCommand(command)
   }, [doToggleAssetGravity, history])
 
-  const createBoundsMesh = useCallback((bounds: SpawnBounds): THREE.Mesh => {
-    // Calculate size and center from bounds (in Z-up coordinates)
-    const sizeX = bounds.maxX - bounds.minX
-    const sizeY = bounds.maxY - bounds.minY
-    const centerX = (bounds.minX + bounds.maxX) / 2
-    const centerY = (bounds.minY + bounds.maxY) / 2
-
-    // Create a flat plane (PlaneGeometry lies in XY, we rotate it to be horizontal)
-    // In Three.js Y-up: plane should be in XZ plane (horizontal ground)
-    const geometry = new THREE.PlaneGeometry(sizeX, sizeY)
-    const material = new THREE.MeshBasicMaterial({
-      color: 0x00ff00,
-      transparent: true,
-      opacity: 0.3,
-      depthWrite: false,
-      side: THREE.DoubleSide,
+  // Internal set physics properties (no history)
+  const doSetAssetPhysics = useCallback((id: string, physics: PhysicsProperties | undefined) => {
+    setAssets((prev) => {
+      return prev.map((asset) => {
+        if (asset.id === id) {
+          return { ...asset, physics }
+        }
+        return asset
+      })
     })
-    const mesh = new THREE.Mesh(geometry, material)
-    // Rotate plane to be horizontal (in XZ plane) and position it
-    // PlaneGeometry is in XY by default, rotate -90 degrees around X to make it horizontal
-    mesh.rotation.x = -Math.PI / 2
-    // Position: centerX stays, Y=0 (ground), Z=-centerY (Z-up Y becomes -Three.js Z)
-    mesh.position.set(centerX, 0, -centerY)
-    return mesh
   }, [])
 
-  const updateBoundsFromMesh = useCallback((mesh: THREE.Mesh) => {
-    // Extract bounds from mesh position and scale
-    const pos = mesh.position
-    const scale = mesh.scale
-    const geometry = mesh.geometry as THREE.PlaneGeometry
-    const params = geometry.parameters
-
-    // PlaneGeometry width/height, scaled
-    const sizeX = params.width * scale.x
-    const sizeY = params.height * scale.z  // After rotation, scale.z affects the depth (Y in Z-up)
-
-    // Convert back from Three.js Y-up to Z-up
-    const newBounds: SpawnBounds = {
-      minX: pos.x - sizeX / 2,
-      maxX: pos.x + sizeX / 2,
-      minY: -pos.z - sizeY / 2,
-      maxY: -pos.z + sizeY / 2,
-    }
-    setSpawnBoundsState(newBounds)
-
-    // Update the wireframe helper to follow the mesh
-    if (boundsBoxRef.current && sceneManager) {
-      sceneManager.scene.remove(boundsBoxRef.current)
-      const box = new THREE.Box3().setFromObject(mesh)
-      const helper = new THREE.Box3Helper(box, new THREE.Color(0x00ff00))
-      helper.material = new THREE.LineBasicMaterial({
-        color: 0x00ff00,
-        transparent: true,
-        opacity: 0.8,
-        depthTest: false,
-      })
-      sceneManager.scene.add(helper)
-      boundsBoxRef.current = helper
-    }
-  }, [sceneManager])
+  // Public update physics properties with history. Undefined values clear a field.
+  const updateAssetPhysics = useCallback((id: string, changes: Partial<PhysicsProperties>) => {
+    const asset = assetsRef.current.find((a) => a.id === id)
+    if (!asset) return
 
-  const updateBoundsVisualization = useCallback((bounds: SpawnBounds, createNew = false) => {
-    if (!sceneManager) return
+    const before = asset.physics
+    const merged: PhysicsProperties = { ...before, ...changes }
+    for (const key of Object.keys(merged) as (keyof PhysicsProperties)[]) {
+      if (merged[key] === undefined) delete merged[key]
+    }
+    const after = Object.keys(merged).length > 0 ? merged : undefined
 
-    // Remove existing visuals
-    if (boundsBoxRef.current) {
-      sceneManager.scene.remove(boundsBoxRef.current)
-      boundsBoxRef.current = null
+    doSetAssetPhysics(id, after)
+    const command: Command = {
+      type: 'updatePhysics',
+      execute: () => doSetAssetPhysics(id, after),
+      undo: () => doSetAssetPhysics(id, before),
     }
-    if (boundsMeshRef.current && createNew) {
-      sceneManager.scene.remove(boundsMeshRef.current)
-      boundsMeshRef.current = null
+    history.pushCommand(command)
+  }, [doSetAssetPhysics, history])
+
+  // Bounds of the default region (DEFAULT_REGION_ID), a per-asset region or an exclusion zone
+  const setSpawnRegionBounds = useCallback((regionId: string, bounds: SpawnBounds) => {
+    if (regionId === DEFAULT_REGION_ID) {
+      setSpawnBoundsState(bounds)
+    } else if (exclusionZonesRef.current.some(z => z.id === regionId)) {
+      setExclusionZonesState(prev => prev.map(z => z.id === regionId ? { ...z, bounds } : z))
+    } else {
+      setSpawnRegionsState(prev => prev.map(r => r.id === regionId ? { ...r, bounds } : r))
     }
+  }, [])
 
-    // Create mesh if needed
-    if (!boundsMeshRef.current || createNew) {
-      const mesh = createBoundsMesh(bounds)
-      sceneManager.scene.add(mesh)
-      boundsMeshRef.current = mesh
-    }
+  // Gizmo moved, rotated or scaled a region plane: read its bounds back
+  const updateBoundsFromMesh = useCallback((mesh: THREE.Mesh) => {
+    const regionId = regionVisuals?.regionIdOf(mesh)
+    if (!regionId) return
+
+    setSpawnRegionBounds(regionId, SpawnRegionVisuals.boundsFromMesh(mesh))
+  }, [regionVisuals])
 
-    // Create wireframe helper
-    const box = new THREE.Box3().setFromObject(boundsMeshRef.current)
-    const helper = new THREE.Box3Helper(box, new THREE.Color(0x00ff00))
-    helper.material = new THREE.LineBasicMaterial({
-      color: 0x00ff00,
-      transparent: true,
-      opacity: 0.8,
-      depthTest: false,
+  // Keep the region planes in sync with the state while in randomize mode
+  useEffect(() => {
+    if (!regionVisuals) return
+    if (!isRandomizeMode) {
+      regionVisuals.clear()
+      return
+    }
+    regionVisuals.sync([
+      { id: DEFAULT_REGION_ID, bounds: spawnBounds, color: regionColor(-1) },
+      ...spawnRegions.map((region, index) => ({ id: region.id, bounds: region.bounds, color: regionColor(index) })),
+      ...exclusionZones.map(zone => ({ id: zone.id, bounds: zone.bounds, color: EXCLUSION_ZONE_COLOR })),
+    ])
+    selectionManager?.setPickableBoundsMeshes(regionVisuals.getMeshes(), (mesh) => {
+      const regionId = regionVisuals.regionIdOf(mesh)
+      if (regionId) setActiveRegionId(regionId)
     })
-    sceneManager.scene.add(helper)
-    boundsBoxRef.current = helper
-  }, [sceneManager, createBoundsMesh])
+  }, [regionVisuals, selectionManager, isRandomizeMode, spawnBounds, spawnRegions, exclusionZones])
+
+  // Keep the saved-condition overlays in sync while in randomize mode
+  useEffect(() => {
+    if (!conditionOverlay) return
+    if (!isRandomizeMode) {
+      conditionOverlay.clear()
+      return
+    }
+    const dynamicAssets = assets.filter(a => !a.excludeFromExport && !a.disableGravity && !a.locked)
+    conditionOverlay.setGhosts(dynamicAssets, showGhosts ? savedConditions : null)
+    const heatmapAsset = dynamicAssets.find(a => a.id === heatmapAssetId)
+    conditionOverlay.setHeatmap(
+      heatmapAsset?.id ?? null,
+      savedConditions,
+      heatmapAsset ? regionBoundsFor(spawnRegions, heatmapAsset.id, spawnBounds) : null
+    )
+  }, [conditionOverlay, isRandomizeMode, assets, savedConditions, showGhosts, heatmapAssetId, spawnRegions, spawnBounds])
+
+  // Point the gizmo at the active region
+  useEffect(() => {
+    if (!isRandomizeMode || !regionVisuals) return
+    const mesh = regionVisuals.getMesh(activeRegionId) ?? regionVisuals.getMesh(DEFAULT_REGION_ID)
+    if (mesh) selectionManager?.switchBoundsMesh(mesh)
+  }, [regionVisuals, selectionManager, isRandomizeMode, activeRegionId])
 
   const enterRandomizeMode = useCallback(() => {
     // Deselect any selected asset
     selectionManager?.select(null)
     setIsRandomizeMode(true)
-    updateBoundsVisualization(spawnBounds, true)
 
-    // Attach transform controls to bounds mesh
-    if (boundsMeshRef.current && selectionManager) {
-      selectionManager.attachToBoundsMesh(boundsMeshRef.current, updateBoundsFromMesh)
+    // Attach transform controls to the active region's plane
+    if (regionVisuals && selectionManager) {
+      regionVisuals.sync([{ id: DEFAULT_REGION_ID, bounds: spawnBounds, color: regionColor(-1) }])
+      selectionManager.attachToBoundsMesh(regionVisuals.getMesh(DEFAULT_REGION_ID)!, updateBoundsFromMesh)
     }
-  }, [spawnBounds, updateBoundsVisualization, selectionManager, updateBoundsFromMesh])
+    setActiveRegionId(DEFAULT_REGION_ID)
+  }, [spawnBounds, regionVisuals, selectionManager, updateBoundsFromMesh])
 
-  const exitRandomizeMode = useCallback(() => {
-    setIsRandomizeMode(false)
+  // Create and push a region bounds command (for bounds input)
+  const createSpawnRegionBoundsCommand = useCallback((regionId: string, before: SpawnBounds, after: SpawnBounds) => {
+    const command: Command = {
+      type: 'spawnBounds',
+      execute: () => setSpawnRegionBounds(regionId, after),
+      undo: () => setSpawnRegionBounds(regionId, before),
+    }
+    history.pushCommand(command)
+  }, [setSpawnRegionBounds, history])
 
-    // Detach transform controls from bounds mesh
-    selectionManager?.detachBoundsMesh()
+  // Replace the region list with history
+  const pushSpawnRegions = useCallback((type: string, after: SpawnRegion[]) => {
+    const before = spawnRegionsRef.current
+    setSpawnRegionsState(after)
+    const command: Command = {
+      type,
+      execute: () => setSpawnRegionsState(after),
+      undo: () => setSpawnRegionsState(before),
+    }
+    history.pushCommand(command)
+  }, [history])
 
-    // Remove bounds visualization
-    if (boundsBoxRef.current && sceneManager) {
-      sceneManager.scene.remove(boundsBoxRef.current)
-      boundsBoxRef.current = null
+  // New region covering the default bounds, optionally taking over some assets
+  const addSpawnRegion = useCallback((assetIds: string[] = []) => {
+    const regions = spawnRegionsRef.current
+    const region: SpawnRegion = {
+      id: createRegionId(),
+      name: nextRegionName(regions),
+      bounds: { ...spawnBounds },
+      assetIds: [],
     }
-    if (boundsMeshRef.current && sceneManager) {
-      sceneManager.scene.remove(boundsMeshRef.current)
-      boundsMeshRef.current = null
+    let after = [...regions, region]
+    for (const assetId of assetIds) {
+      after = assignAssetToRegion(after, assetId, region.id)
     }
-    setSavedPoses(null)
-    // Note: savedConditions are preserved when exiting randomize mode
-  }, [sceneManager, selectionManager])
+    pushSpawnRegions('addSpawnRegion', after)
+    setActiveRegionId(region.id)
+  }, [spawnBounds, pushSpawnRegions])
+
+  // Remove a region; its assets fall back to the default region
+  const removeSpawnRegion = useCallback((regionId: string) => {
+    const regions = spawnRegionsRef.current
+    if (!regions.some(r => r.id === regionId)) return
+    pushSpawnRegions('removeSpawnRegion', regions.filter(r => r.id !== regionId))
+    setActiveRegionId(prev => prev === regionId ? DEFAULT_REGION_ID : prev)
+  }, [pushSpawnRegions])
+
+  // Move an asset into a region, or back to the default region with null
+  const setAssetSpawnRegion = useCallback((assetId: string, regionId: string | null) => {
+    pushSpawnRegions('assignSpawnRegion', assignAssetToRegion(spawnRegionsRef.current, assetId, regionId))
+  }, [pushSpawnRegions])
+
+  // Replace the exclusion zone list with history
+  const pushExclusionZones = useCallback((type: string, after: ExclusionZone[]) => {
+    const before = exclusionZonesRef.current
+    setExclusionZonesState(after)
+    const command: Command = {
+      type,
+      execute: () => setExclusionZonesState(after),
+      undo: () => setExclusionZonesState(before),
+    }
+    history.pushCommand(command)
+  }, [history])
 
-  const setSpawnBounds = useCallback((bounds: SpawnBounds) => {
-    setSpawnBoundsState(bounds)
-    if (isRandomizeMode && boundsMeshRef.current && sceneManager) {
-      // Update mesh position/scale from bounds
-      sceneManager.scene.remove(boundsMeshRef.current)
-      boundsMeshRef.current = null
-      updateBoundsVisualization(bounds, true)
-      if (boundsMeshRef.current && selectionManager) {
-        selectionManager.attachToBoundsMesh(boundsMeshRef.current, updateBoundsFromMesh)
-      }
+  // New square zone in the middle of the default area
+  const addExclusionZone = useCallback(() => {
+    const zones = exclusionZonesRef.current
+    const center = areaCenter(spawnBounds)
+    const half = DEFAULT_EXCLUSION_ZONE_SIZE / 2
+    const zone: ExclusionZone = {
+      id: createRegionId(),
+      name: nextRegionName(zones, 'Zone'),
+      bounds: { minX: center.x - half, maxX: center.x + half, minY: center.y - half, maxY: center.y + half },
+    }
+    pushExclusionZones('addExclusionZone', [...zones, zone])
+    setActiveRegionId(zone.id)
+  }, [spawnBounds, pushExclusionZones])
+
+  const removeExclusionZone = useCallback((zoneId: string) => {
+    const zones = exclusionZonesRef.current
+    if (!zones.some(z => z.id === zoneId)) return
+    pushExclusionZones('removeExclusionZone', zones.filter(z => z.id !== zoneId))
+    setActiveRegionId(prev => prev === zoneId ? DEFAULT_REGION_ID : prev)
+  }, [pushExclusionZones])
+
+  // Replace the constraint list with history
+  const pushConstraints = useCallback((type: string, after: PlacementConstraint[]) => {
+    const before = constraintsRef.current
+    setConstraintsState(after)
+    const command: Command = {
+      type,
+      execute: () => setConstraintsState(after),
+      undo: () => setConstraintsState(before),
+    }
+    history.pushCommand(command)
+  }, [history])
+
+  const addConstraint = useCallback((constraint: Omit<PlacementConstraint, 'id'>) => {
+    pushConstraints('addConstraint', [...constraintsRef.current, { ...constraint, id: createConstraintId() }])
+  }, [pushConstraints])
+
+  const removeConstraint = useCallback((constraintId: string) => {
+    const current = constraintsRef.current
+    if (!current.some(c => c.id === constraintId)) return
+    pushConstraints('removeConstraint', current.filter(c => c.id !== constraintId))
+  }, [pushConstraints])
+
+  // Give an asset its own orientation policy, or back to the shared yaw range with null
+  const setAssetOrientation = useCallback((assetId: string, policy: OrientationPolicy | null) => {
+    const before = orientationPoliciesRef.current
+    const after = { ...before }
+    if (policy) {
+      after[assetId] = policy
+    } else {
+      delete after[assetId]
+    }
+    setOrientationPoliciesState(after)
+    const command: Command = {
+      type: 'assetOrientation',
+      execute: () => setOrientationPoliciesState(after),
+      undo: () => setOrientationPoliciesState(before),
+    }
+    history.pushCommand(command)
+  }, [history])
+
+  const selectSpawnRegion = useCallback((regionId: string) => {
+    setActiveRegionId(regionId)
+    selectionManager?.selectBounds()
+  }, [selectionManager])
+
+  // Draw a polygon for a region: each click on the table adds a vertex
+  const startPolygonDrawing = useCallback((regionId: string) => {
+    setPolygonDraft({ regionId, points: [] })
+    setActiveRegionId(regionId)
+    selectionManager?.setGroundPicking((point) => {
+      // Three.js (Y-up) X, -Z -> Z-up X, Y
+      setPolygonDraft(prev => prev && { ...prev, points: [...prev.points, [point.x, -point.z]] })
+    })
+  }, [selectionManager])
+
+  const cancelPolygonDrawing = useCallback(() => {
+    setPolygonDraft(null)
+    selectionManager?.setGroundPicking(null)
+  }, [selectionManager])
+
+  // Replace the region's area with the drawn polygon (needs at least 3 vertices)
+  const finishPolygonDrawing = useCallback(() => {
+    cancelPolygonDrawing()
+    if (!polygonDraft || polygonDraft.points.length < 3) return
+
+    const { regionId, points } = polygonDraft
+    const before = regionId === DEFAULT_REGION_ID
+      ? spawnBounds
+      : [...spawnRegionsRef.current, ...exclusionZonesRef.current].find(r => r.id === regionId)?.bounds
+    if (!before) return
+    const after: SpawnBounds = { shape: 'polygon', points }
+    setSpawnRegionBounds(regionId, after)
+    createSpawnRegionBoundsCommand(regionId, before, after)
+  }, [polygonDraft, spawnBounds, cancelPolygonDrawing, setSpawnRegionBounds, createSpawnRegionBoundsCommand])
+
+  // Show the vertices placed so far
+  useEffect(() => {
+    regionVisuals?.setDraft(polygonDraft && polygonDraft.points.map(([x, y]) => ({ x, y })))
+  }, [regionVisuals, polygonDraft])
+
+  // Replace all randomization settings at once (import, undo/redo)
+  const setRandomizationSettings = useCallback((settings: RandomizationSettings) => {
+    setSpawnBoundsState(settings.spawnBounds)
+    setSpawnRegionsState(settings.spawnRegions)
+    setExclusionZonesState(settings.exclusionZones)
+    setYawRange(settings.yawRange)
+    setCollisionMargin(settings.collisionMargin)
+    setConstraintsState(settings.constraints)
+    setOrientationPoliciesState(settings.orientationPolicies)
+    setSamplingStrategy(settings.samplingStrategy)
+    setHeightMode(settings.heightMode)
+    setActiveRegionId(prev => [...settings.spawnRegions, ...settings.exclusionZones].some(r => r.id === prev) ? prev : DEFAULT_REGION_ID)
+  }, [])
+
+  // Create and push a randomization settings command (for yaw and margin inputs)
+  const createRandomizationSettingsCommand = useCallback((before: RandomizationSettings, after: RandomizationSettings) => {
+    const command: Command = {
+      type: 'randomizationSettings',
+      execute: () => setRandomizationSettings(after),
+      undo: () => setRandomizationSettings(before),
     }
-  }, [isRandomizeMode, updateBoundsVisualization, sceneManager, selectionManager, updateBoundsFromMesh])
+    history.pushCommand(command)
+  }, [setRandomizationSettings, history])
 
   const setBoundsTransformMode = useCallback((mode: 'translate' | 'rotate' | 'scale') => {
     selectionManager?.setBoundsTransformMode(mode)
   }, [selectionManager])
 
   // Helper to apply poses to assets (for undo/redo)
+  // Parents go first; each carries its descendants, which then get their own pose
   const applyPoses = useCallback((poses: Map<string, SavedPose>) => {
-    poses.forEach((pose, id) => {
-      const asset = assetsRef.current.find(a => a.id === id)
+    const assets = assetsRef.current
+    for (const [id, pose] of parentsFirst(assets, [...poses], ([id]) => id)) {
+      const asset = assets.find(a => a.id === id)
       if (asset) {
+        const before = worldMatrix(asset.object)
         asset.object.position.copy(pose.position)
         asset.object.quaternion.copy(pose.quaternion)
+        carryDescendants(assets, id, before)
       }
-    })
+    }
     selectionManager?.updateHighlight()
   }, [selectionManager])
 
@@ -452,175 +852,117 @@ export function useSceneProvider(): SceneContextValue {
     return poses
   }, [])
 
-  const getAssetBoundingBox = useCallback((asset: LoadedAsset): THREE.Box3 => {
-    const box = new THREE.Box3()
-    box.setFromObject(asset.object)
-    return box
-  }, [])
-
-  const checkCollision = useCallback((box1: THREE.Box3, box2: THREE.Box3): boolean => {
-    return box1.intersectsBox(box2)
+  // The sampling base, joined by assets added since it was captured
+  const samplingBase = useCallback((poses: Map<string, SavedPose>): Map<string, SavedPose> => {
+    const base = samplingBaseRef.current ?? new Map<string, SavedPose>()
+    for (const [id, pose] of poses) {
+      if (!base.has(id)) base.set(id, pose)
+    }
+    samplingBaseRef.current = base
+    return base
   }, [])
 
-  const getAssetLocalSize = useCallback((asset: LoadedAsset, useRotation?: THREE.Quaternion): THREE.Vector3 => {
-    // Save current transform
-    const savedPos = asset.object.position.clone()
-    const savedQuat = asset.object.quaternion.clone()
-
-    // Reset to origin, optionally with a specific rotation
-    asset.object.position.set(0, 0, 0)
-    if (useRotation) {
-      asset.object.quaternion.copy(useRotation)
-    } else {
-      asset.object.quaternion.set(0, 0, 0, 1) // identity
+  // Run `fn` with the sampled assets at their authored poses, e.g. to export
+  // the scene while a draw is showing
+  const withAuthoredPoses = useCallback(<T>(fn: () => T): T => {
+    const base = samplingBaseRef.current
+    if (!base) return fn()
+    const current = capturePoses()
+    applyPoses(base)
+    try {
+      return fn()
+    } finally {
+      applyPoses(current)
     }
+  }, [capturePoses, applyPoses])
 
-    const box = new THREE.Box3().setFromObject(asset.object)
-    const size = new THREE.Vector3()
-    box.getSize(size)
-
-    // Restore transform
-    asset.object.position.copy(savedPos)
-    asset.object.quaternion.copy(savedQuat)
+  const exitRandomizeMode = useCallback(() => {
+    setIsRandomizeMode(false)
+    setPolygonDraft(null)
 
-    return size
-  }, [])
+    // Detach transform controls from bounds mesh
+    selectionManager?.detachBoundsMesh()
 
-  const isBoxWithinSpawnBounds = useCallback((box: THREE.Box3): boolean => {
-    // Only check X and Y bounds (2D plane), ignore Z/height
-    // Spawn bounds (Z-up): X, Y -> Three.js (Y-up): X, -Z
-    const minX = spawnBounds.minX
-    const maxX = spawnBounds.maxX
-    const minZ = -spawnBounds.maxY // Z-up Y becomes -Y-up Z
-    const maxZ = -spawnBounds.minY
-
-    return (
-      box.min.x >= minX && box.max.x <= maxX &&
-      box.min.z >= minZ && box.max.z <= maxZ
-    )
-  }, [spawnBounds])
+    // Remove region planes
+    regionVisuals?.clear()
+    setSavedPoses(null)
+    if (samplingBaseRef.current) {
+      applyPoses(samplingBaseRef.current)
+      samplingBaseRef.current = null
+    }
+    batchAbortRef.current?.abort()
+    setBatchReport(null)
+    // Note: savedConditions are preserved when exiting randomize mode
+  }, [regionVisuals, selectionManager, applyPoses])
 
   // Internal randomize (no history)
-  const doRandomizeNonStaticAssets = useCallback(() => {
-    // Get non-static (gravity-enabled) exportable assets
-    const dynamicAssets = assetsRef.current.filter(a => !a.excludeFromExport && !a.disableGravity && !a.locked)
+  const doRandomizeNonStaticAssets = useCallback((sampleSeed: number) => {
+    // Get non-static (gravity-enabled) exportable assets; those attached to
+    // one ride along with it instead of being sampled
+    const assets = assetsRef.current
+    const dynamicAssets = assets.filter(a => !a.excludeFromExport && !a.disableGravity && !a.locked && !isCarried(assets, a))
 
     if (dynamicAssets.length === 0) return
 
     // Save current poses before randomizing
-    const poses = new Map<string, SavedPose>()
-    dynamicAssets.forEach(asset => {
-      poses.set(asset.id, {
-        position: asset.object.position.clone(),
-        quaternion: asset.object.quaternion.clone(),
-      })
-    })
+    const poses = capturePoses()
     setSavedPoses(poses)
+    const basePoses = samplingBase(poses)
+
+    // Place each asset (with the assets it carries) without collision and within
+    // 2D bounds, relative to its base pose
+    const targets = dynamicAssets.map(asset => withCarriedBounds(createSampleTarget(
+      asset,
+      basePoses.get(asset.id)!,
+      regionBoundsFor(spawnRegions, asset.id, spawnBounds),
+      orientationPolicies[asset.id]
+    ), assets, basePoses))
+    const sampled = sampleCondition(targets, {
+      bounds: spawnBounds,
+      exclusionZones: exclusionZones.map(zone => zone.bounds),
+      obstacles: createObstacles(assets.filter(a => !isCarried(assets, a))),
+      constraints,
+      yawRange,
+      collisionMargin,
+      random: createRng(sampleSeed),
+      surfaceProbe: heightMode === 'dropToSurface' ? createSurfaceProbe(assets) : undefined,
+    })
+    applyPoses(withCarriedPoses(assets, sampled, basePoses))
+    setCurrentSeed(sampleSeed)
+  }, [spawnBounds, spawnRegions, exclusionZones, constraints, orientationPolicies, yawRange, collisionMargin, heightMode, capturePoses, applyPoses, samplingBase])
+
+  // Take the seed for the next draw and advance it
+  const takeSeed = useCallback((): number => {
+    const sampleSeed = seedRef.current
+    seedRef.current = nextSeed(sampleSeed)
+    setSeed(seedRef.current)
+    return sampleSeed
+  }, [])
 
-    // Try to place each asset without collision and within 2D bounds
-    const placedBoxes: THREE.Box3[] = []
-    const maxAttempts = 100
-
-    for (const asset of dynamicAssets) {
-      let placed = false
-
-      // Get the saved pose for this asset (to preserve Z/height)
-      const savedPose = poses.get(asset.id)
-
-      // Get asset size with the saved rotation applied (so bounds calculation accounts for orientation)
-      const assetSize = getAssetLocalSize(asset, savedPose?.quaternion)
-      // Use max of X/Z for horizontal extent since we rotate around Y
-      const maxHorizontalExtent = Math.max(assetSize.x, assetSize.z) / 2
-
-      // Calculate shrunken bounds to ensure asset stays within (in Z-up coords, only X and Y)
-      const validMinX = spawnBounds.minX + maxHorizontalExtent
-      const validMaxX = spawnBounds.maxX - maxHorizontalExtent
-      const validMinY = spawnBounds.minY + maxHorizontalExtent
-      const validMaxY = spawnBounds.maxY - maxHorizontalExtent
-
-      // Check if asset can fit at all (only X and Y)
-      const canFit = validMinX < validMaxX && validMinY < validMaxY
-
-      // Preserve the original height (Three.js Y = Z-up Z)
-      const originalHeight = savedPose ? savedPose.position.y : asset.object.position.y
-
-      for (let attempt = 0; attempt < maxAttempts && !placed; attempt++) {
-        let x: number, z: number
-
-        if (canFit) {
-          // Random position within shrunken bounds (Z-up to Y-up conversion)
-          // Only randomize X and Y (Z-up), keep height unchanged
-          x = validMinX + Math.random() * (validMaxX - validMinX)
-          z = -(validMinY + Math.random() * (validMaxY - validMinY))  // Z-up Y -> -Y-up Z
-        } else {
-          // Asset is too big, just center it horizontally
-          x = (spawnBounds.minX + spawnBounds.maxX) / 2
-          z = -((spawnBounds.minY + spawnBounds.maxY) / 2)
-        }
-
-        // Random rotation around Y axis (up axis in Three.js), relative to saved orientation
-        const rotY = Math.random() * Math.PI * 2
-        const randomYRotation = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), rotY)
-
-        // Apply transform - keep original height (Y in Three.js)
-        asset.object.position.set(x, originalHeight, z)
-        if (savedPose) {
-          // Apply random Y rotation on top of the saved orientation
-          asset.object.quaternion.copy(savedPose.quaternion).premultiply(randomYRotation)
-        } else {
-          asset.object.rotation.set(0, rotY, 0)
-        }
-
-        // Check collision with placed assets
-        const assetBox = getAssetBoundingBox(asset)
-        let hasCollision = false
-
-        for (const placedBox of placedBoxes) {
-          if (checkCollision(assetBox, placedBox)) {
-            hasCollision = true
-            break
-          }
-        }
-
-        // Verify asset is within spawn bounds (only X and Y)
-        const withinBounds = isBoxWithinSpawnBounds(assetBox)
-
-        if (!hasCollision && withinBounds) {
-          placedBoxes.push(assetBox)
-          placed = true
-        } else if (!canFit && !hasCollision) {
-          // If asset can't fit but no collision, accept it
-          placedBoxes.push(assetBox)
-          placed = true
-        }
-      }
-
-      // If couldn't place without collision, keep last attempted position
-      if (!placed) {
-        placedBoxes.push(getAssetBoundingBox(asset))
-      }
-    }
-
-    // Update selection highlight if needed
-    selectionManager?.updateHighlight()
-  }, [spawnBounds, getAssetBoundingBox, getAssetLocalSize, isBoxWithinSpawnBounds, checkCollision, selectionManager])
-
-  // Public randomize with history
+  // Public randomize with history. Uses the current seed, then advances it.
   const randomizeNonStaticAssets = useCallback(() => {
     const beforePoses = capturePoses()
     if (beforePoses.size === 0) return
 
-    doRandomizeNonStaticAssets()
+    const beforeSeed = currentSeedRef.current
+    const sampleSeed = takeSeed()
+    doRandomizeNonStaticAssets(sampleSeed)
 
     const afterPoses = capturePoses()
 
     const command: Command = {
       type: 'randomize',
-      execute: () => applyPoses(afterPoses),
-      undo: () => applyPoses(beforePoses),
+      execute: () => {
+        applyPoses(afterPoses)
+        setCurrentSeed(sampleSeed)
+      },
+      undo: () => {
+        applyPoses(beforePoses)
+        setCurrentSeed(beforeSeed)
+      },
     }
     history.pushCommand(command)
-  }, [capturePoses, doRandomizeNonStaticAssets, applyPoses, history])
+  }, [capturePoses, takeSeed, doRandomizeNonStaticAssets, applyPoses, history])
 
   // Internal functions for savedConditions manipulation
   const savedConditionsRef = useRef<SavedCondition[]>([])
@@ -650,7 +992,7 @@ export function useSceneProvider(): SceneContextValue {
           quaternion: asset.object.quaternion.clone(),
         })
       })
-      const condition: SavedCondition = { poses }
+      const condition: SavedCondition = { poses, seed: currentSeedRef.current ?? undefined }
       doAddSavedCondition(condition)
 
       // Create command for the condition addition
@@ -663,39 +1005,110 @@ export function useSceneProvider(): SceneContextValue {
     }
   }, [doAddSavedCondition, doRemoveLastSavedCondition, history])
 
-  // Public acceptRandomization with history (save + randomize)
+  // Public acceptRandomization with history: saves the current poses and draws
+  // the next condition as one step
   const acceptRandomization = useCallback(() => {
-    // Save the current poses to savedConditions
-    const dynamicAssets = assetsRef.current.filter(a => !a.excludeFromExport && !a.disableGravity && !a.locked)
+    const beforePoses = capturePoses()
+    if (beforePoses.size === 0) return
 
-    if (dynamicAssets.length > 0) {
-      const poses = new Map<string, SavedPose>()
-      dynamicAssets.forEach(asset => {
-        poses.set(asset.id, {
-          position: asset.object.position.clone(),
-          quaternion: asset.object.quaternion.clone(),
-        })
-      })
-      const condition: SavedCondition = { poses }
-      doAddSavedCondition(condition)
+    const beforeSeed = currentSeedRef.current
+    const condition: SavedCondition = { poses: beforePoses, seed: beforeSeed ?? undefined }
+    doAddSavedCondition(condition)
 
-      // Create command for the condition addition
-      const command: Command = {
-        type: 'acceptRandomization',
-        execute: () => doAddSavedCondition(condition),
-        undo: () => doRemoveLastSavedCondition(),
+    const sampleSeed = takeSeed()
+    doRandomizeNonStaticAssets(sampleSeed)
+    const afterPoses = capturePoses()
+
+    const command: Command = {
+      type: 'acceptRandomization',
+      execute: () => {
+        doAddSavedCondition(condition)
+        applyPoses(afterPoses)
+        setCurrentSeed(sampleSeed)
+      },
+      undo: () => {
+        doRemoveLastSavedCondition()
+        applyPoses(beforePoses)
+        setCurrentSeed(beforeSeed)
+      },
+    }
+    history.pushCommand(command)
+  }, [capturePoses, doAddSavedCondition, doRemoveLastSavedCondition, takeSeed, doRandomizeNonStaticAssets, applyPoses, history])
+
+  // Generate `count` conditions in one go (see generateConditions) and append
+  // them as a single command. Progress and the rejection report go to state.
+  const generateBatch = useCallback(async (count: number) => {
+    if (batchAbortRef.current) return
+
+    // Carried assets ride along with their dynamic ancestor and are checked as
+    // part of it, as in randomize
+    const assets = assetsRef.current
+    const dynamicAssets = assets.filter(a => !a.excludeFromExport && !a.disableGravity && !a.locked && !isCarried(assets, a))
+    if (dynamicAssets.length === 0) return
+
+    const poses = capturePoses()
+    const basePoses = samplingBase(poses)
+    const targets = dynamicAssets.map(asset => withCarriedBounds(createSampleTarget(
+      asset,
+      basePoses.get(asset.id)!,
+      regionBoundsFor(spawnRegions, asset.id, spawnBounds),
+      orientationPolicies[asset.id]
+    ), assets, basePoses))
+
+    const controller = new AbortController()
+    batchAbortRef.current = controller
+    setBatchReport(null)
+    setBatchProgress({ generated: 0, total: count, draws: 0, rejections: emptyRejectionCounts() })
+
+    try {
+      const result = await generateConditions(targets, {
+        bounds: spawnBounds,
+        exclusionZones: exclusionZones.map(zone => zone.bounds),
+        obstacles: createObstacles(assets.filter(a => !isCarried(assets, a))),
+        constraints,
+        yawRange,
+        collisionMargin,
+        strategy: samplingStrategy,
+        surfaceProbe: heightMode === 'dropToSurface' ? createSurfaceProbe(assets) : undefined,
+        count,
+        firstSeed: seedRef.current,
+        signal: controller.signal,
+        onProgress: setBatchProgress,
+      })
+      seedRef.current = result.nextSeed
+      setSeed(result.nextSeed)
+      setBatchReport(result)
+
+      if (result.conditions.length > 0) {
+        const previousConditions = [...savedConditionsRef.current]
+        const generated = result.conditions.map(condition => ({
+          ...condition,
+          poses: withCarriedPoses(assets, condition.poses, basePoses),
+        }))
+        const newConditions = [...previousConditions, ...generated]
+        doSetSavedConditions(newConditions)
+
+        const command: Command = {
+          type: 'generateConditions',
+          execute: () => doSetSavedConditions(newConditions),
+          undo: () => doSetSavedConditions(previousConditions),
+        }
+        history.pushCommand(command)
       }
-      history.pushCommand(command)
+    } finally {
+      batchAbortRef.current = null
+      setBatchProgress(null)
     }
+  }, [spawnBounds, spawnRegions, exclusionZones, constraints, orientationPolicies, yawRange, collisionMargin, samplingStrategy, heightMode, capturePoses, samplingBase, doSetSavedConditions, history])
 
-    // Clear current saved poses and trigger new randomization
-    setSavedPoses(null)
+  // Stop a running batch; conditions generated so far are kept
+  const cancelBatch = useCallback(() => {
+    batchAbortRef.current?.abort()
+  }, [])
 
-    // Use setTimeout to allow state to update, then call randomize
-    setTimeout(() => {
-      randomizeNonStaticAssets()
-    }, 0)
-  }, [doAddSavedCondition, doRemoveLastSavedCondition, randomizeNonStaticAssets, history])
+  const clearBatchReport = useCallback(() => {
+    setBatchReport(null)
+  }, [])
 
   // Public clearSavedConditions with history
   const clearSavedConditions = useCallback(() => {
@@ -728,6 +1141,122 @@ export function useSceneProvider(): SceneContextValue {
     history.pushCommand(command)
   }, [doSetSavedConditions, history])
 
+  // Replace the saved conditions as one undoable step
+  const pushSavedConditions = useCallback((type: string, after: SavedCondition[]) => {
+    const before = savedConditionsRef.current
+    doSetSavedConditions(after)
+    const command: Command = {
+      type,
+      execute: () => doSetSavedConditions(after),
+      undo: () => doSetSavedConditions(before),
+    }
+    history.pushCommand(command)
+  }, [doSetSavedConditions, history])
+
+  // Set a condition's name, tags and notes (poses and seed are kept)
+  const updateConditionDetails = useCallback((index: number, details: ConditionDetails) => {
+    const current = savedConditionsRef.current
+    const condition = current[index]
+    if (!condition) return
+    const updated: SavedCondition = { poses: condition.poses, seed: condition.seed, batch: condition.batch, ...normalizeDetails(details) }
+    pushSavedConditions('editCondition', current.map((c, i) => (i === index ? updated : c)))
+  }, [pushSavedConditions])
+
+  // Move a condition up (negative offset) or down the list
+  const moveCondition = useCallback((index: number, offset: number) => {
+    const current = savedConditionsRef.current
+    const target = index + offset
+    if (index < 0 || index >= current.length || target < 0 || target >= current.length || target === index) return
+    const next = [...current]
+    const [moved] = next.splice(index, 1)
+    next.splice(target, 0, moved)
+    pushSavedConditions('moveCondition', next)
+  }, [pushSavedConditions])
+
+  const duplicateSavedCondition = useCallback((index: number) => {
+    const current = savedConditionsRef.current
+    const condition = current[index]
+    if (!condition) return
+    pushSavedConditions('duplicateCondition', [
+      ...current.slice(0, index + 1),
+      duplicateCondition(condition),
+      ...current.slice(index + 1),
+    ])
+  }, [pushSavedConditions])
+
+  // Replace a condition's poses with the current scene, keeping its details
+  const overwriteCondition = useCallback((index: number) => {
+    const current = savedConditionsRef.current
+    const condition = current[index]
+    const poses = capturePoses()
+    if (!condition || poses.size === 0) return
+    const updated: SavedCondition = { ...condition, poses, seed: currentSeedRef.current ?? undefined, batch: undefined }
+    pushSavedConditions('overwriteCondition', current.map((c, i) => (i === index ? updated : c)))
+  }, [capturePoses, pushSavedConditions])
+
+  // Results no longer line up with the conditions once those change
+  useEffect(() => {
+    setStabilityResults(null)
+  }, [savedConditions])
+
+  // Let the dynamic assets fall and come to rest from their current poses,
+  // as one undoable step
+  const settleScene = useCallback(async (): Promise<{ success: boolean; error?: string }> => {
+    const beforePoses = capturePoses()
+    if (beforePoses.size === 0) return { success: false, error: 'No dynamic assets to settle' }
+
+    setIsSimulating(true)
+    try {
+      const simulator = await createSceneSimulator(assetsRef.current)
+      const afterPoses = simulator.run(beforePoses).poses
+      const beforeSeed = currentSeedRef.current
+      applyPoses(afterPoses)
+      setCurrentSeed(null)
+
+      const command: Command = {
+        type: 'settle',
+        execute: () => {
+          applyPoses(afterPoses)
+          setCurrentSeed(null)
+        },
+        undo: () => {
+          applyPoses(beforePoses)
+          setCurrentSeed(beforeSeed)
+        },
+      }
+      history.pushCommand(command)
+      return { success: true }
+    } catch (e) {
+      return { success: false, error: `Physics failed: ${e instanceof Error ? e.message : String(e)}` }
+    } finally {
+      setIsSimulating(false)
+    }
+  }, [capturePoses, applyPoses, history])
+
+  // Simulate every saved condition and record which ones move
+  const checkConditionStability = useCallback(async (): Promise<{ success: boolean; error?: string }> => {
+    const conditions = savedConditionsRef.current
+    if (conditions.length === 0) return { success: false, error: 'No saved conditions to check' }
+
+    setIsSimulating(true)
+    try {
+      const simulator = await createSceneSimulator(assetsRef.current)
+      const results: SimulationResult[] = []
+      for (const condition of conditions) {
+        results.push(simulator.run(condition.poses))
+        // Keep the editor responsive between conditions
+        await new Promise(resolve => setTimeout(resolve, 0))
+      }
+      // Conditions edited while checking make the results stale
+      if (savedConditionsRef.current === conditions) setStabilityResults(results)
+      return { success: true }
+    } catch (e) {
+      return { success: false, error: `Physics failed: ${e instanceof Error ? e.message : String(e)}` }
+    } finally {
+      setIsSimulating(false)
+    }
+  }, [])
+
   // Load a saved condition (apply its poses to current assets)
   const loadCondition = useCallback((index: number) => {
     const conditions = savedConditionsRef.current
@@ -735,16 +1264,25 @@ export function useSceneProvider(): SceneContextValue {
 
     const condition = conditions[index]
     const beforePoses = capturePoses()
+    const beforeSeed = currentSeedRef.current
+    const afterSeed = condition.seed ?? null
 
     // Apply poses from the condition
     applyPoses(condition.poses)
+    setCurrentSeed(afterSeed)
 
     const afterPoses = capturePoses()
 
     const command: Command = {
       type: 'loadCondition',
-      execute: () => applyPoses(afterPoses),
-      undo: () => applyPoses(beforePoses),
+      execute: () => {
+        applyPoses(afterPoses)
+        setCurrentSeed(afterSeed)
+      },
+      undo: () => {
+        applyPoses(beforePoses)
+        setCurrentSeed(beforeSeed)
+      },
     }
     history.pushCommand(command)
   }, [capturePoses, applyPoses, history])
@@ -755,39 +1293,95 @@ export function useSceneProvider(): SceneContextValue {
     assetLoader,
     assets,
     selectedAsset,
+    selectedAssets,
     transformMode,
     isRandomizeMode,
     spawnBounds,
+    spawnRegions,
+    exclusionZones,
+    activeRegionId,
+    polygonDraft,
+    yawRange,
+    collisionMargin,
+    constraints,
+    orientationPolicies,
+    samplingStrategy,
+    heightMode,
+    seed,
+    currentSeed,
     savedPoses,
+    batchProgress,
+    batchReport,
     savedConditions,
+    showGhosts,
+    heatmapAssetId,
+    isSimulating,
+    stabilityResults,
     instruction,
+    referenceFrame,
     initScene,
     addAsset,
     removeAsset,
+    setAssetParent,
     selectAsset,
     setTransformMode,
     updateAssetTransform,
     toggleAssetGravity,
+    updateAssetPhysics,
     enterRandomizeMode,
     exitRandomizeMode,
-    setSpawnBounds,
+    withAuthoredPoses,
+    setSpawnRegionBounds,
+    addSpawnRegion,
+    removeSpawnRegion,
+    setAssetSpawnRegion,
+    addExclusionZone,
+    removeExclusionZone,
+    selectSpawnRegion,
+    startPolygonDrawing,
+    finishPolygonDrawing,
+    cancelPolygonDrawing,
     setBoundsTransformMode,
+    setYawRange,
+    setCollisionMargin,
+    setSamplingStrategy,
+    setHeightMode,
+    dropAssetToSurface,
+    addConstraint,
+    removeConstraint,
+    setAssetOrientation,
+    setRandomizationSettings,
+    setSeed,
     randomizeNonStaticAssets,
     acceptRandomization,
+    generateBatch,
+    cancelBatch,
+    clearBatchReport,
     saveCurrentCondition,
     deleteCondition,
     loadCondition,
     clearSavedConditions,
+    updateConditionDetails,
+    moveCondition,
+    duplicateSavedCondition,
+    overwriteCondition,
     setSavedConditions,
+    setShowGhosts,
+    setHeatmapAssetId,
+    settleScene,
+    checkConditionStability,
     setInstruction,
+    setReferenceFrame,
     // History
     undo: history.undo,
     redo: history.redo,
     canUndo: history.canUndo,
     canRedo: history.canRedo,
     createTransformCommand,
+    createGroupTransformCommand,
     createInstructionCommand,
-    createSpawnBoundsCommand,
+    createSpawnRegionBoundsCommand,
+    createRandomizationSettingsCommand,
   }
 }
 
@@ -0,0 +1,131 @@
+import JSZip from 'jszip'
+import { InitialConditions } from './exportCommon'
+import { flattenPose, POSE_ENCODINGS, PoseEncoding } from './poseEncoding'
+
+// The condition set in other shapes, next to initial_conditions.json and with
+// the same poses (same encoding and frame):
+//   initial_conditions.csv    one row per condition, columns <asset>_<component>
+//   initial_conditions.jsonl  one JSON object per condition
+//   initial_conditions.npz    NumPy archive with one (conditions x components)
+//                             array per asset, (conditions x 4 x 4) for matrices;
+//                             NaN where a condition has no pose for the asset
+
+export type ConditionTableFormat = 'csv' | 'jsonl' | 'npz'
+
+export const CONDITION_TABLE_FORMATS: { value: ConditionTableFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'jsonl', label: 'JSON Lines' },
+  { value: 'npz', label: 'NumPy (.npz)' },
+]
+
+// Add the tables in `formats`: text tables to `files` (the bundle's text
+// files, written to the archive with the others), the NumPy archive to `zip`
+export function addConditionTables(
+  zip: JSZip,
+  files: Record<string, string>,
+  initialConditions: InitialConditions,
+  encoding: PoseEncoding,
+  formats: ConditionTableFormat[]
+): void {
+  if (formats.includes('csv')) {
+    files['initial_conditions.csv'] = buildConditionsCsv(initialConditions, encoding)
+  }
+  if (formats.includes('jsonl')) {
+    files['initial_conditions.jsonl'] = buildConditionsJsonl(initialConditions)
+  }
+  if (formats.includes('npz')) {
+    zip.file('initial_conditions.npz', buildConditionsNpz(initialConditions, encoding).generateAsync({ type: 'uint8array' }))
+  }
+}
+
+export function buildConditionsCsv(initialConditions: InitialConditions, encoding: PoseEncoding): string {
+  const components = componentsOf(encoding)
+  const names = assetNames(initialConditions)
+  // Batch columns only when some seed needs its planned batch, like `batches`
+  const batches = initialConditions.batches
+  const batchHeader = batches ? ['batch_strategy', 'batch_first_seed', 'batch_count'] : []
+  const header = ['condition', 'seed', ...batchHeader, 'name', 'tags', ...names.flatMap(name => components.map(c => `${name}_${c}`))]
+
+  const rows = initialConditions.poses.map((pose, index) => {
+    const metadata = initialConditions.metadata?.[index]
+    const batch = batches?.[index]
+    const batchValues = batches ? [batch?.strategy ?? '', String(batch?.firstSeed ?? ''), String(batch?.count ?? '')] : []
+    const values = names.flatMap(name => {
+      const encoded = pose[name]
+      return encoded ? flattenPose(encoded).map(String) : components.map(() => '')
+    })
+    return [
+      String(index + 1),
+      String(initialConditions.seeds?.[index] ?? ''),
+      ...batchValues,
+      csvField(metadata?.name ?? ''),
+      csvField(metadata?.tags?.join(';') ?? ''),
+      ...values,
+    ]
+  })
+  return [header, ...rows].map(row => row.join(',')).join('\n') + '\n'
+}
+
+export function buildConditionsJsonl(initialConditions: InitialConditions): string {
+  return initialConditions.poses.map((poses, index) => JSON.stringify({
+    condition: index + 1,
+    seed: initialConditions.seeds?.[index] ?? null,
+    ...(initialConditions.batches?.[index] && { batch: initialConditions.batches[index] }),
+    ...initialConditions.metadata?.[index],
+    poses,
+  })).join('\n') + '\n'
+}
+
+export function buildConditionsNpz(initialConditions: InitialConditions, encoding: PoseEncoding): JSZip {
+  const npz = new JSZip()
+  const size = componentsOf(encoding).length
+  const count = initialConditions.poses.length
+  for (const name of assetNames(initialConditions)) {
+    const data = new Float64Array(count * size).fill(NaN)
+    initialConditions.poses.forEach((pose, index) => {
+      const encoded = pose[name]
+      if (encoded) data.set(flattenPose(encoded), index * size)
+    })
+    const shape = encoding === 'matrix' ? [count, 4, 4] : [count, size]
+    npz.file(`${name}.npy`, npyBytes(data, shape))
+  }
+  return npz
+}
+
+function componentsOf(encoding: PoseEncoding): string[] {
+  return POSE_ENCODINGS.find(e => e.value === encoding)!.components
+}
+
+// Every asset with a pose in some condition, in order of first appearance
+function assetNames(initialConditions: InitialConditions): string[] {
+  const names: string[] = []
+  for (const pose of initialConditions.poses) {
+    for (const name of Object.keys(pose)) {
+      if (!names.includes(name)) names.push(name)
+    }
+  }
+  return names
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+// NPY version 1.0: magic, header length, a Python dict literal padded so the
+// data starts on a 64-byte boundary, then little-endian float64s
+function npyBytes(data: Float64Array, shape: number[]): Uint8Array {
+  const magic = [0x93, ...Array.from('NUMPY', c => c.charCodeAt(0)), 1, 0]
+  const shapeText = shape.length === 1 ? `(${shape[0]},)` : `(${shape.join(', ')})`
+  let header = `{'descr': '<f8', 'fortran_order': False, 'shape': ${shapeText}, }`
+  const unpadded = magic.length + 2 + header.length + 1
+  header += ' '.repeat((64 - unpadded % 64) % 64) + '\n'
+
+  const bytes = new Uint8Array(magic.length + 2 + header.length + data.length * 8)
+  const view = new DataView(bytes.buffer)
+  bytes.set(magic)
+  view.setUint16(magic.length, header.length, true)
+  bytes.set(Array.from(header, c => c.charCodeAt(0)), magic.length + 2)
+  const offset = magic.length + 2 + header.length
+  data.forEach((value, i) => view.setFloat64(offset + i * 8, value, true))
+  return bytes
+}
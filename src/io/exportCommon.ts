@@ -0,0 +1,179 @@
+import { LoadedAsset } from '../scene/AssetLoader'
+import { SavedCondition, SavedPose } from '../hooks/useScene'
+import { DEFAULT_POSE_ENCODING, encodePose, EncodedPose, PoseEncoding } from './poseEncoding'
+import { ReferenceFrame, referenceFrameProblem, resolveReferenceFrame, toFramePose } from './referenceFrame'
+import { SamplingBatch } from '../randomization/strategies'
+
+// Pieces shared by the USD and MJCF exporters: export checks, asset names and
+// initial_conditions.json.
+
+const DEFAULT_FILENAME = 'scene.zip'
+
+export interface InitialConditionsPose {
+  [assetName: string]: EncodedPose // [x, y, z, qx, qy, qz, qw] unless `encoding` says otherwise
+}
+
+export interface InitialConditions {
+  instruction: string
+  poses: InitialConditionsPose[]
+  // Sampler seed behind each pose (same order), null for hand-placed ones.
+  // Omitted when no pose was sampled.
+  seeds?: (number | null)[]
+  // Planned batch (strategy, first seed, count) each seed was drawn in (same
+  // order), null for hand-placed and uniformly sampled poses. The seed alone
+  // doesn't reproduce a planned condition. Omitted when no pose has one.
+  batches?: (SamplingBatch | null)[]
+  // Name, tags and notes of each pose (same order), null for conditions
+  // without any. Omitted when no condition has them.
+  metadata?: (InitialConditionsMetadata | null)[]
+  // Frame the poses are relative to. Omitted for the scene's world frame.
+  frame?: InitialConditionsFrame
+  // How the poses (and the frame's pose) are written. Omitted for xyzw.
+  encoding?: PoseEncoding
+}
+
+export interface InitialConditionsMetadata {
+  name?: string
+  tags?: string[]
+  notes?: string
+}
+
+export interface InitialConditionsFrame {
+  kind: 'asset' | 'manual'
+  asset?: string // Name of the asset the frame sits on, as in the poses
+  pose: EncodedPose // The frame in the scene's world frame, encoded like the poses
+}
+
+// A reference frame resolved for export
+export interface ExportFrame {
+  kind: 'asset' | 'manual'
+  asset?: string // Export name of its asset
+  pose: SavedPose // In the composer's world
+}
+
+export interface InitialConditionsOptions {
+  frame?: ExportFrame | null // Poses are relative to it when given
+  encoding?: PoseEncoding // Defaults to xyzw
+}
+
+// Asset name as used for USD prims, MJCF bodies and initial_conditions.json keys
+export function exportName(asset: LoadedAsset): string {
+  return asset.name.replace(/[^a-zA-Z0-9_]/g, '_')
+}
+
+// Reason the scene can't be exported yet, or null when it can
+export function checkExportable(assets: LoadedAsset[], instruction: string, referenceFrame?: ReferenceFrame): string | null {
+  // Check if instruction is provided
+  if (!instruction.trim()) {
+    return 'Please enter an instruction before exporting.'
+  }
+
+  // Check if at least one asset has gravity disabled
+  const hasKinematicAsset = assets.filter(a => !a.excludeFromExport).some(a => a.disableGravity)
+  if (!hasKinematicAsset) {
+    return 'At least one asset must have gravity disabled (kinematic) before exporting.'
+  }
+
+  return referenceFrame ? referenceFrameProblem(referenceFrame, assets) : null
+}
+
+// The export's reference frame, or null when poses stay in the world frame
+export function resolveExportFrame(referenceFrame: ReferenceFrame | undefined, assets: LoadedAsset[]): ExportFrame | null {
+  if (!referenceFrame || referenceFrame.kind === 'world') return null
+  const pose = resolveReferenceFrame(referenceFrame, assets)
+  if (!pose) return null
+  const asset = referenceFrame.kind === 'asset' ? assets.find(a => a.id === referenceFrame.assetId) : undefined
+  return asset ? { kind: 'asset', asset: exportName(asset), pose } : { kind: 'manual', pose }
+}
+
+// initial_conditions.json content for the dynamic (non-kinematic) assets, or
+// null when there are none. Without saved conditions the current scene state
+// is the only pose.
+export function buildInitialConditions(
+  exportableAssets: LoadedAsset[],
+  savedConditions: SavedCondition[],
+  instruction: string,
+  options: InitialConditionsOptions = {}
+): InitialConditions | null {
+  const { frame = null, encoding = DEFAULT_POSE_ENCODING } = options
+  const dynamicAssets = exportableAssets.filter(a => !a.disableGravity)
+  if (dynamicAssets.length === 0) return null
+
+  const poses: InitialConditionsPose[] = []
+  const seeds: (number | null)[] = []
+  const batches: (SamplingBatch | null)[] = []
+  const metadata: (InitialConditionsMetadata | null)[] = []
+
+  // Add all saved conditions
+  for (const condition of savedConditions) {
+    const pose = toInitialConditionsPose(condition.poses, dynamicAssets, frame, encoding)
+    if (Object.keys(pose).length > 0) {
+      poses.push(pose)
+      seeds.push(condition.seed ?? null)
+      batches.push(condition.seed !== undefined && condition.batch ? { ...condition.batch } : null)
+      metadata.push(toInitialConditionsMetadata(condition))
+    }
+  }
+
+  // If no saved conditions, use current scene state as the only pose
+  if (poses.length === 0) {
+    const current = new Map(dynamicAssets.map(asset => [asset.id, {
+      position: asset.object.position,
+      quaternion: asset.object.quaternion,
+    }]))
+    poses.push(toInitialConditionsPose(current, dynamicAssets, frame, encoding))
+  }
+
+  const initialConditions: InitialConditions = {
+    instruction: instruction.trim(),
+    poses,
+  }
+  if (seeds.some(seed => seed !== null)) {
+    initialConditions.seeds = seeds
+  }
+  if (batches.some(batch => batch !== null)) {
+    initialConditions.batches = batches
+  }
+  if (metadata.some(entry => entry !== null)) {
+    initialConditions.metadata = metadata
+  }
+  if (frame) {
+    const pose = encodePose(frame.pose, encoding)
+    initialConditions.frame = frame.asset !== undefined ? { kind: frame.kind, asset: frame.asset, pose } : { kind: frame.kind, pose }
+  }
+  if (encoding !== DEFAULT_POSE_ENCODING) {
+    initialConditions.encoding = encoding
+  }
+  return initialConditions
+}
+
+function toInitialConditionsMetadata(condition: SavedCondition): InitialConditionsMetadata | null {
+  const entry: InitialConditionsMetadata = {}
+  if (condition.name) entry.name = condition.name
+  if (condition.tags && condition.tags.length > 0) entry.tags = condition.tags
+  if (condition.notes) entry.notes = condition.notes
+  return Object.keys(entry).length > 0 ? entry : null
+}
+
+function toInitialConditionsPose(
+  poseMap: Map<string, SavedPose>,
+  assets: LoadedAsset[],
+  frame: ExportFrame | null,
+  encoding: PoseEncoding
+): InitialConditionsPose {
+  const pose: InitialConditionsPose = {}
+
+  for (const asset of assets) {
+    const saved = poseMap.get(asset.id)
+    if (saved) {
+      pose[exportName(asset)] = encodePose(frame ? toFramePose(frame.pose, saved) : saved, encoding)
+    }
+  }
+  return pose
+}
+
+export function normalizeFilename(filename: string | undefined): string {
+  const name = filename?.trim()
+  if (!name) return DEFAULT_FILENAME
+  return name.toLowerCase().endsWith('.zip') ? name : `${name}.zip`
+}
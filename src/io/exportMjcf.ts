@@ -0,0 +1,216 @@
+import JSZip from 'jszip'
+import * as THREE from 'three'
+import { STLExporter } from 'three/addons/exporters/STLExporter.js'
+import { OBJExporter } from 'three/addons/exporters/OBJExporter.js'
+import { LoadedAsset } from '../scene/AssetLoader'
+import { SavedCondition } from '../hooks/useScene'
+import { getUnscaledLocalBounds } from '../randomization/sampler'
+import { PhysicsProperties } from '../physics/properties'
+import { buildRandomizationSpec, DEFAULT_RANDOMIZATION_SETTINGS } from '../randomization/spec'
+import { ExportOptions, SceneBundleResult } from './exportScene'
+import {
+  buildInitialConditions,
+  checkExportable,
+  exportName,
+  InitialConditions,
+  normalizeFilename,
+  resolveExportFrame,
+} from './exportCommon'
+import { toZUpPosition, toZUpQuaternion, toZUpScale } from './frame'
+import { DEFAULT_POSE_ENCODING } from './poseEncoding'
+import { addConditionTables } from './conditionTables'
+
+// MuJoCo export: scene.xml (MJCF) with one body per asset, meshes converted to
+// STL or OBJ under meshes/, initial_conditions.json (also emitted as keyframes) and
+// randomization.json.
+
+export type MjcfMeshFormat = 'stl' | 'obj'
+
+// Radius of the placeholder geom for assets without geometry or bounds
+const PLACEHOLDER_RADIUS = 0.01
+// MuJoCo's default torsional and rolling friction, kept when sliding friction is set
+const TORSIONAL_FRICTION = 0.005
+const ROLLING_FRICTION = 0.0001
+
+export function buildMjcfBundle(
+  assets: LoadedAsset[],
+  savedConditions: SavedCondition[] = [],
+  instruction: string = '',
+  options: ExportOptions = {}
+): SceneBundleResult {
+  const error = checkExportable(assets, instruction, options.referenceFrame)
+  if (error) {
+    return { success: false, error }
+  }
+
+  const meshFormat = options.meshFormat || 'stl'
+  const exportableAssets = assets.filter(a => !a.excludeFromExport)
+  const zip = new JSZip()
+  const files: Record<string, string> = {}
+
+  const meshAssets: string[] = []
+  const bodies: string[] = []
+
+  for (const asset of exportableAssets) {
+    const name = exportName(asset)
+    const pos = toZUpPosition(asset.object.position)
+    const quat = toZUpQuaternion(asset.object.quaternion)
+    const scale = toZUpScale(asset.object.scale)
+
+    let geom: string
+    const mesh = asset.physics?.collisionApproximation === 'boundingBox' ? null : exportAssetMesh(asset.object, meshFormat)
+    if (mesh) {
+      const meshFile = `${name}.${meshFormat}`
+      zip.file(`meshes/${meshFile}`, mesh)
+      meshAssets.push(`    <mesh name="${name}" file="${meshFile}" scale="${vec(scale)}"/>`)
+      geom = `<geom name="${name}" type="mesh" mesh="${name}"${geomPhysics(asset.physics)}/>`
+    } else {
+      geom = boxGeom(asset, name, scale)
+    }
+
+    // Bodies without a joint are welded to the world: kinematic assets stay put
+    const joint = asset.disableGravity ? '' : `\n      <freejoint name="${name}_joint"/>`
+    bodies.push(`    <body name="${name}" pos="${vec(pos)}" quat="${quat.w} ${quat.x} ${quat.y} ${quat.z}">${joint}
+      ${geom}
+    </body>`)
+  }
+
+  const dynamicAssets = exportableAssets.filter(a => !a.disableGravity)
+  const initialConditions = buildInitialConditions(exportableAssets, savedConditions, instruction)
+  const frame = resolveExportFrame(options.referenceFrame, assets)
+
+  let xml = `<mujoco model="scene">
+  <compiler angle="radian" meshdir="meshes"/>
+  <option gravity="0 0 -9.81"/>
+`
+  if (meshAssets.length > 0) {
+    xml += `
+  <asset>
+${meshAssets.join('\n')}
+  </asset>
+`
+  }
+  xml += `
+  <worldbody>
+${bodies.join('\n')}
+  </worldbody>
+`
+  if (initialConditions) {
+    xml += `
+  <keyframe>
+${buildKeyframes(initialConditions, dynamicAssets).join('\n')}
+  </keyframe>
+`
+  }
+  xml += `</mujoco>
+`
+
+  files['scene.xml'] = xml
+  if (initialConditions) {
+    // Keyframes above stay in the world frame of scene.xml, as xyzw; the file
+    // follows the export frame and encoding
+    const encoding = options.poseEncoding ?? DEFAULT_POSE_ENCODING
+    const exported = frame || encoding !== DEFAULT_POSE_ENCODING
+      ? buildInitialConditions(exportableAssets, savedConditions, instruction, { frame, encoding })!
+      : initialConditions
+    files['initial_conditions.json'] = JSON.stringify(exported, null, 2)
+    addConditionTables(zip, files, exported, encoding, options.conditionTables ?? [])
+  }
+  const randomization = buildRandomizationSpec(exportableAssets, options.randomization ?? DEFAULT_RANDOMIZATION_SETTINGS, frame)
+  files['randomization.json'] = JSON.stringify(randomization, null, 2)
+
+  for (const [path, content] of Object.entries(files)) {
+    zip.file(path, content)
+  }
+
+  return {
+    success: true,
+    bundle: {
+      filename: normalizeFilename(options.filename),
+      files,
+      archive: zip,
+    },
+  }
+}
+
+// One keyframe per initial condition. qpos holds each free joint's position and
+// (w, x, y, z) quaternion in body order; assets a condition omits keep their
+// current pose.
+function buildKeyframes(initialConditions: InitialConditions, dynamicAssets: LoadedAsset[]): string[] {
+  return initialConditions.poses.map((pose, index) => {
+    const qpos = dynamicAssets.flatMap(asset => {
+      const values = pose[exportName(asset)]
+      if (values) {
+        const [x, y, z, qx, qy, qz, qw] = values as number[]
+        return [x, y, z, qw, qx, qy, qz]
+      }
+      const pos = toZUpPosition(asset.object.position)
+      const quat = toZUpQuaternion(asset.object.quaternion)
+      return [pos.x, pos.y, pos.z, quat.w, quat.x, quat.y, quat.z]
+    })
+    return `    <key name="condition_${index + 1}" qpos="${qpos.join(' ')}"/>`
+  })
+}
+
+// The asset's geometry in its own frame (no position, rotation or scale), rotated
+// into Z-up. Null when the object has no triangles (e.g. headless loads).
+function exportAssetMesh(object: THREE.Object3D, format: MjcfMeshFormat): string | Uint8Array | null {
+  const clone = object.clone(true)
+  clone.position.set(0, 0, 0)
+  clone.quaternion.identity()
+  clone.scale.set(1, 1, 1)
+
+  // Rotating +90° about X maps Three.js (x, y, z) to (x, -z, y)
+  const root = new THREE.Group()
+  root.rotation.x = Math.PI / 2
+  root.add(clone)
+  root.updateMatrixWorld(true)
+
+  let hasTriangles = false
+  root.traverse((child) => {
+    const mesh = child as THREE.Mesh
+    if (mesh.isMesh && mesh.geometry.getAttribute('position')?.count >= 3) {
+      hasTriangles = true
+    }
+  })
+  if (!hasTriangles) return null
+
+  if (format === 'obj') {
+    return new OBJExporter().parse(root)
+  }
+  const data = new STLExporter().parse(root, { binary: true })
+  return new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+}
+
+// Box geom from the asset's recorded bounds, for bounding-box collision and for
+// assets whose geometry isn't loaded
+function boxGeom(asset: LoadedAsset, name: string, scale: THREE.Vector3): string {
+  const bounds = getUnscaledLocalBounds(asset)
+  if (bounds.isEmpty()) {
+    return `<geom name="${name}" type="sphere" size="${PLACEHOLDER_RADIUS}"${geomPhysics(asset.physics)}/>`
+  }
+  const center = toZUpPosition(bounds.getCenter(new THREE.Vector3())).multiply(scale)
+  const halfSize = toZUpScale(bounds.getSize(new THREE.Vector3())).multiply(scale).multiplyScalar(0.5)
+  return `<geom name="${name}" type="box" pos="${vec(center)}" size="${vec(halfSize)}"${geomPhysics(asset.physics)}/>`
+}
+
+// MuJoCo has no restitution coefficient (contacts are tuned with solref), so
+// restitution is not exported. Mass takes precedence over density, as in USD.
+function geomPhysics(physics: PhysicsProperties | undefined): string {
+  if (!physics) return ''
+  let attributes = ''
+  const friction = physics.dynamicFriction ?? physics.staticFriction
+  if (friction !== undefined) {
+    attributes += ` friction="${friction} ${TORSIONAL_FRICTION} ${ROLLING_FRICTION}"`
+  }
+  if (physics.mass !== undefined) {
+    attributes += ` mass="${physics.mass}"`
+  } else if (physics.density !== undefined) {
+    attributes += ` density="${physics.density}"`
+  }
+  return attributes
+}
+
+function vec(v: THREE.Vector3): string {
+  return `${v.x} ${v.y} ${v.z}`
+}
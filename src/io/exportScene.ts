@@ -2,48 +2,100 @@ import JSZip from 'jszip'
 import * as THREE from 'three'
 import { LoadedAsset } from '../scene/AssetLoader'
 import { SavedCondition } from '../hooks/useScene'
+import { getUnscaledLocalBounds } from '../randomization/sampler'
+import { getChildren, getParent, hierarchyRows, localMatrix } from '../scene/hierarchy'
+import { hasPhysicsProperties, PhysicsProperties, USD_APPROXIMATION_TOKENS } from '../physics/properties'
+import { buildRandomizationSpec, DEFAULT_RANDOMIZATION_SETTINGS, RandomizationSettings } from '../randomization/spec'
+import { buildMjcfBundle, MjcfMeshFormat } from './exportMjcf'
+import { buildInitialConditions, checkExportable, exportName, normalizeFilename, resolveExportFrame } from './exportCommon'
+import { toZUpPosition, toZUpQuaternion, toZUpScale } from './frame'
+import { ReferenceFrame } from './referenceFrame'
+import { DEFAULT_POSE_ENCODING, PoseEncoding } from './poseEncoding'
+import { addConditionTables, ConditionTableFormat } from './conditionTables'
 
 export interface ExportResult {
   success: boolean
   error?: string
 }
 
-interface InitialConditionsPose {
-  [assetName: string]: number[] // [x, y, z, qx, qy, qz, qw]
+export type ExportFormat = 'usd' | 'mjcf'
+
+export interface ExportOptions {
+  filename?: string // Name of the ZIP archive, defaults to scene.zip
+  format?: ExportFormat // Scene description to write, defaults to USD
+  meshFormat?: MjcfMeshFormat // MJCF only: format of the converted meshes, defaults to STL
+  randomization?: RandomizationSettings // Written to randomization.json, defaults to the editor defaults
+  referenceFrame?: ReferenceFrame // Frame of the poses in initial_conditions.json, defaults to the world
+  poseEncoding?: PoseEncoding // How initial_conditions.json writes poses, defaults to xyzw
+  conditionTables?: ConditionTableFormat[] // Extra copies of the condition set (CSV, JSON Lines, NumPy)
+}
+
+export interface SceneBundle {
+  filename: string
+  // Text files at the root of the archive, keyed by path (scene.usda or scene.xml, scene.json,
+  // initial_conditions.json and its text tables, randomization.json)
+  files: Record<string, string>
+  archive: JSZip
 }
 
-interface InitialConditions {
-  instruction: string
-  poses: InitialConditionsPose[]
+export interface SceneBundleResult extends ExportResult {
+  bundle?: SceneBundle
 }
 
+// Export the scene and hand the ZIP to the browser as a download
 export async function exportScene(
   assets: LoadedAsset[],
   savedConditions: SavedCondition[] = [],
-  instruction: string = ''
+  instruction: string = '',
+  options: ExportOptions = {}
 ): Promise<ExportResult> {
-  // Check if instruction is provided
-  if (!instruction.trim()) {
-    return {
-      success: false,
-      error: 'Please enter an instruction before exporting.'
-    }
+  const result = buildSceneBundle(assets, savedConditions, instruction, options)
+  if (!result.success || !result.bundle) {
+    return { success: false, error: result.error }
   }
 
-  // Filter out assets marked as excludeFromExport
-  const exportableAssets = assets.filter(a => !a.excludeFromExport)
+  await downloadBundle(result.bundle)
+  return { success: true }
+}
 
-  // Check if at least one asset has gravity disabled
-  const hasKinematicAsset = exportableAssets.some(a => a.disableGravity)
-  if (!hasKinematicAsset) {
-    return {
-      success: false,
-      error: 'At least one asset must have gravity disabled (kinematic) before exporting.'
-    }
+// Hand a built bundle to the browser as a download
+export async function downloadBundle(bundle: SceneBundle): Promise<void> {
+  const blob = await generateBundleBlob(bundle)
+  downloadBlob(blob, bundle.filename)
+}
+
+// Generate the ZIP archive as a Blob (browser consumers)
+export function generateBundleBlob(bundle: SceneBundle): Promise<Blob> {
+  return bundle.archive.generateAsync({ type: 'blob' })
+}
+
+// Generate the ZIP archive as raw bytes (scripts, tests, Node)
+export function generateBundleBytes(bundle: SceneBundle): Promise<Uint8Array> {
+  return bundle.archive.generateAsync({ type: 'uint8array' })
+}
+
+// Build the export bundle without touching the DOM. The archive holds the asset
+// files plus every entry in `files`; nothing is downloaded.
+export function buildSceneBundle(
+  assets: LoadedAsset[],
+  savedConditions: SavedCondition[] = [],
+  instruction: string = '',
+  options: ExportOptions = {}
+): SceneBundleResult {
+  if (options.format === 'mjcf') {
+    return buildMjcfBundle(assets, savedConditions, instruction, options)
+  }
+
+  const error = checkExportable(assets, instruction, options.referenceFrame)
+  if (error) {
+    return { success: false, error }
   }
 
+  // Filter out assets marked as excludeFromExport
+  const exportableAssets = assets.filter(a => !a.excludeFromExport)
+
   const zip = new JSZip()
-  const assetsFolder = zip.folder('assets')
+  const files: Record<string, string> = {}
 
   // Build USD scene file content
   let usdContent = `#usda 1.0
@@ -57,60 +109,57 @@ def Xform "World"
 {
 `
 
-  for (const asset of exportableAssets) {
+  // Attached assets are nested in their parent's prim, with transforms
+  // relative to it, where that leaves the physics as it is (see nestsInParent).
+  // The others are root prims that name their parent in customData. Assets
+  // attached to one that isn't exported are roots.
+  const writeAssetPrim = (asset: LoadedAsset, parentPath: string): string => {
     // Get transform values (convert Y-up back to Z-up for USD)
-    const pos = asset.object.position
-    const quat = asset.object.quaternion
-    const scl = asset.object.scale
-
-    // Convert quaternion from Three.js (Y-up) to USD (Z-up)
-    // The position mapping is: USD = (Three.x, -Three.z, Three.y)
-    // For quaternion, we need to swap y↔z and negate the new y component
-    // Quaternion (w, x, y, z) in Three.js becomes (w, x, -z, y) in USD
-    const usdQuat = new THREE.Quaternion(quat.x, -quat.z, quat.y, quat.w)
+    const transform = parentPath === '/World' ? worldTransform(asset) : localTransform(exportableAssets, asset)
+    const pos = toZUpPosition(transform.position)
+    const usdQuat = toZUpQuaternion(transform.quaternion)
+    const scl = toZUpScale(transform.scale)
 
     // Sanitize asset name for USD (no spaces, special chars)
-    const usdName = asset.name.replace(/[^a-zA-Z0-9_]/g, '_')
+    const usdName = exportName(asset)
+    const primPath = `${parentPath}/${usdName}`
 
     // Find the main file's relative path in the assets folder
     const mainFileName = asset.mainFile.split('/').pop() || asset.mainFile
 
+    const children = getChildren(exportableAssets, asset.id)
+      .filter(child => nestsInParent(exportableAssets, child))
+      .map(child => `\n${indent(writeAssetPrim(child, primPath)).replace(/\n$/, '')}`)
+      .join('')
+
     // Add reference to the asset in USD
-    // Convert from Three.js (Y-up) to USD (Z-up, Y-left):
-    // Three.js: X=right, Y=up, Z=forward
-    // USD:      X=forward, Y=left, Z=up
-    // Mapping: USD_X = Three_X, USD_Y = -Three_Z, USD_Z = Three_Y
     const kinematicAttr = asset.disableGravity ? '\n        bool physics:kinematicEnabled = true' : ''
-    usdContent += `
+    const physics = buildUsdPhysics(asset.physics, primPath)
+    const parent = parentPath === '/World' ? getParent(exportableAssets, asset) : undefined
+    const customData = parent ? `\n        customData = {\n            string attachedTo = "${exportName(parent)}"\n        }` : ''
+    return `
     def Xform "${usdName}" (
-        prepend references = @./assets/${asset.name}/${mainFileName}@
+        prepend references = @./assets/${asset.name}/${mainFileName}@${physics.metadata}${customData}
     )
-    {${kinematicAttr}
-        double3 xformOp:translate = (${pos.x}, ${-pos.z}, ${pos.y})
+    {${kinematicAttr}${physics.attributes}
+        double3 xformOp:translate = (${pos.x}, ${pos.y}, ${pos.z})
         quatd xformOp:orient = (${usdQuat.w}, ${usdQuat.x}, ${usdQuat.y}, ${usdQuat.z})
-        float3 xformOp:scale = (${scl.x}, ${scl.z}, ${scl.y})
-        uniform token[] xformOpOrder = ["xformOp:translate", "xformOp:orient", "xformOp:scale"]
+        float3 xformOp:scale = (${scl.x}, ${scl.y}, ${scl.z})
+        uniform token[] xformOpOrder = ["xformOp:translate", "xformOp:orient", "xformOp:scale"]${physics.children}${children}
     }
 `
+  }
 
-    // Add asset files to zip
-    if (assetsFolder) {
-      const assetSubfolder = assetsFolder.folder(asset.name)
-      if (assetSubfolder) {
-        for (const [path, file] of asset.files) {
-          // Preserve folder structure within asset, remove top-level folder name
-          const relativePath = path.includes('/') ? path.split('/').slice(1).join('/') : path
-          assetSubfolder.file(relativePath, file)
-        }
-      }
-    }
+  for (const { asset, depth } of hierarchyRows(exportableAssets)) {
+    if (depth === 0 || !nestsInParent(exportableAssets, asset)) usdContent += writeAssetPrim(asset, '/World')
+    addAssetFiles(zip, asset)
   }
 
   usdContent += `}
 `
 
   // Add the main USD scene file
-  zip.file('scene.usda', usdContent)
+  files['scene.usda'] = usdContent
 
   // Generate scene.json for re-importing into the composer (Three.js coordinates)
   const sceneJson = {
@@ -135,86 +184,146 @@ def Xform "World"
         z: asset.object.scale.z,
       },
       disableGravity: asset.disableGravity || false,
+      physics: hasPhysicsProperties(asset.physics) ? asset.physics : undefined,
+      // Id of the asset this one is attached to; transforms above stay in the world frame
+      parent: getParent(exportableAssets, asset)?.id,
+      // Local bounds let headless tools (no mesh loading) reason about asset extents
+      bounds: serializeBounds(getUnscaledLocalBounds(asset)),
     })),
   }
-  zip.file('scene.json', JSON.stringify(sceneJson, null, 2))
+  files['scene.json'] = JSON.stringify(sceneJson, null, 2)
 
   // Generate initial_conditions.json for dynamic (non-kinematic) assets
-  const dynamicAssets = exportableAssets.filter(a => !a.disableGravity)
-  if (dynamicAssets.length > 0) {
-    const poses: InitialConditionsPose[] = []
-
-    // Helper to convert a pose map to InitialConditionsPose
-    const convertPoseToExport = (poseMap: Map<string, { position: THREE.Vector3; quaternion: THREE.Quaternion }>, assetList: LoadedAsset[]): InitialConditionsPose => {
-      const pose: InitialConditionsPose = {}
-
-      for (const asset of assetList) {
-        const saved = poseMap.get(asset.id)
-        if (saved) {
-          const pos = saved.position
-          const quat = saved.quaternion
-
-          // Convert from Three.js (Y-up) to USD (Z-up)
-          // Quaternion (w, x, y, z) in Three.js becomes (w, x, -z, y) in USD
-          const usdName = asset.name.replace(/[^a-zA-Z0-9_]/g, '_')
-          pose[usdName] = [
-            pos.x,
-            -pos.z,
-            pos.y,
-            quat.x,
-            -quat.z,
-            quat.y,
-            quat.w,
-          ]
-        }
-      }
-      return pose
-    }
+  const frame = resolveExportFrame(options.referenceFrame, assets)
+  const initialConditions = buildInitialConditions(exportableAssets, savedConditions, instruction, {
+    frame,
+    encoding: options.poseEncoding,
+  })
+  if (initialConditions) {
+    files['initial_conditions.json'] = JSON.stringify(initialConditions, null, 2)
+    addConditionTables(zip, files, initialConditions, options.poseEncoding ?? DEFAULT_POSE_ENCODING, options.conditionTables ?? [])
+  }
 
-    // Add all saved conditions
-    for (const condition of savedConditions) {
-      const pose = convertPoseToExport(condition.poses, dynamicAssets)
-      if (Object.keys(pose).length > 0) {
-        poses.push(pose)
-      }
-    }
+  // Generate randomization.json so simulators can sample fresh conditions at runtime
+  const randomization = buildRandomizationSpec(exportableAssets, options.randomization ?? DEFAULT_RANDOMIZATION_SETTINGS, frame)
+  files['randomization.json'] = JSON.stringify(randomization, null, 2)
 
-    // If no saved conditions, use current scene state as the only pose
-    if (poses.length === 0) {
-      const pose: InitialConditionsPose = {}
-
-      for (const asset of dynamicAssets) {
-        const pos = asset.object.position
-        const quat = asset.object.quaternion
-
-        // Convert from Three.js (Y-up) to USD (Z-up)
-        // Quaternion (w, x, y, z) in Three.js becomes (w, x, -z, y) in USD
-        const usdName = asset.name.replace(/[^a-zA-Z0-9_]/g, '_')
-        pose[usdName] = [
-          pos.x,
-          -pos.z,
-          pos.y,
-          quat.x,
-          -quat.z,
-          quat.y,
-          quat.w,
-        ]
-      }
-      poses.push(pose)
-    }
+  for (const [path, content] of Object.entries(files)) {
+    zip.file(path, content)
+  }
 
-    const initialConditions: InitialConditions = {
-      instruction: instruction.trim(),
-      poses
-    }
-    zip.file('initial_conditions.json', JSON.stringify(initialConditions, null, 2))
+  return {
+    success: true,
+    bundle: {
+      filename: normalizeFilename(options.filename),
+      files,
+      archive: zip,
+    },
   }
+}
 
-  // Generate and download
-  const blob = await zip.generateAsync({ type: 'blob' })
-  downloadBlob(blob, 'scene.zip')
+// Whether an attached asset's prim goes inside its parent's. UsdPhysics gives
+// colliders below a rigid body to that body, and a physics material binding to
+// every descendant, so only static assets nest, and only under a static parent
+// without physics properties of its own (no rigid body or material authored).
+function nestsInParent(assets: LoadedAsset[], asset: LoadedAsset): boolean {
+  const parent = getParent(assets, asset)
+  return !!parent && !!asset.disableGravity && !!parent.disableGravity && !hasPhysicsProperties(parent.physics)
+}
 
-  return { success: true }
+// The object's own values: assets aren't Three.js children of each other, so
+// these are world values
+function worldTransform(asset: LoadedAsset): { position: THREE.Vector3; quaternion: THREE.Quaternion; scale: THREE.Vector3 } {
+  return { position: asset.object.position, quaternion: asset.object.quaternion, scale: asset.object.scale }
+}
+
+// Transform relative to the parent asset
+function localTransform(assets: LoadedAsset[], asset: LoadedAsset): { position: THREE.Vector3; quaternion: THREE.Quaternion; scale: THREE.Vector3 } {
+  const transform = { position: new THREE.Vector3(), quaternion: new THREE.Quaternion(), scale: new THREE.Vector3() }
+  localMatrix(assets, asset).decompose(transform.position, transform.quaternion, transform.scale)
+  return transform
+}
+
+// Shift a prim one level deeper
+function indent(text: string): string {
+  return text.split('\n').map(line => line ? `    ${line}` : line).join('\n')
+}
+
+// Copy an asset's source files to assets/<name>/ in the archive
+function addAssetFiles(zip: JSZip, asset: LoadedAsset): void {
+  const assetSubfolder = zip.folder('assets')?.folder(asset.name)
+  if (!assetSubfolder) return
+  for (const [path, file] of asset.files) {
+    // Preserve folder structure within asset, remove top-level folder name
+    const relativePath = path.includes('/') ? path.split('/').slice(1).join('/') : path
+    // Read as ArrayBuffer: JSZip can only consume Blobs where FileReader exists (not in Node)
+    assetSubfolder.file(relativePath, file.arrayBuffer())
+  }
+}
+
+interface UsdPhysicsBlock {
+  metadata: string // Extra prim metadata lines (apiSchemas)
+  attributes: string
+  children: string // Child prims (the physics material)
+}
+
+// UsdPhysics schemas for an asset prim. Assets without physics properties get
+// nothing, so their prims stay exactly as before. Collision settings are authored
+// on the referencing prim; consumers apply them to the referenced meshes.
+function buildUsdPhysics(physics: PhysicsProperties | undefined, primPath: string): UsdPhysicsBlock {
+  if (!hasPhysicsProperties(physics)) {
+    return { metadata: '', attributes: '', children: '' }
+  }
+
+  const schemas = ['PhysicsRigidBodyAPI']
+  const attributes: string[] = []
+
+  if (physics.mass !== undefined || physics.density !== undefined) {
+    schemas.push('PhysicsMassAPI')
+    if (physics.mass !== undefined) attributes.push(`float physics:mass = ${physics.mass}`)
+    if (physics.density !== undefined) attributes.push(`float physics:density = ${physics.density}`)
+  }
+
+  if (physics.collisionApproximation) {
+    schemas.push('PhysicsCollisionAPI', 'PhysicsMeshCollisionAPI')
+    attributes.push('bool physics:collisionEnabled = true')
+    attributes.push(`uniform token physics:approximation = "${USD_APPROXIMATION_TOKENS[physics.collisionApproximation]}"`)
+  }
+
+  const materialAttributes: string[] = []
+  if (physics.staticFriction !== undefined) materialAttributes.push(`float physics:staticFriction = ${physics.staticFriction}`)
+  if (physics.dynamicFriction !== undefined) materialAttributes.push(`float physics:dynamicFriction = ${physics.dynamicFriction}`)
+  if (physics.restitution !== undefined) materialAttributes.push(`float physics:restitution = ${physics.restitution}`)
+
+  let children = ''
+  if (materialAttributes.length > 0) {
+    schemas.push('MaterialBindingAPI')
+    attributes.push(`rel material:binding:physics = <${primPath}/PhysicsMaterial> (
+            bindMaterialAs = "weakerThanDescendants"
+        )`)
+    children = `
+
+        def Material "PhysicsMaterial" (
+            prepend apiSchemas = ["PhysicsMaterialAPI"]
+        )
+        {
+${materialAttributes.map(line => `            ${line}`).join('\n')}
+        }`
+  }
+
+  return {
+    metadata: `\n        prepend apiSchemas = [${schemas.map(s => `"${s}"`).join(', ')}]`,
+    attributes: attributes.map(line => `\n        ${line}`).join(''),
+    children,
+  }
+}
+
+function serializeBounds(box: THREE.Box3) {
+  if (box.isEmpty()) return undefined
+  return {
+    min: { x: box.min.x, y: box.min.y, z: box.min.z },
+    max: { x: box.max.x, y: box.max.y, z: box.max.z },
+  }
 }
 
 function downloadBlob(blob: Blob, filename: string): void {
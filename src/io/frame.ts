@@ -0,0 +1,84 @@
+import * as THREE from 'three'
+
+// Conversion between the Three.js scene frame and the frame everything is
+// exported in (USD, MJCF, initial_conditions.json) and shown in the property
+// panel:
+// Three.js: X=right, Y=up, Z=forward
+// Z-up:     X=forward, Y=left, Z=up
+// Mapping: ZUP_X = Three_X, ZUP_Y = -Three_Z, ZUP_Z = Three_Y
+
+export function toZUpPosition(position: THREE.Vector3): THREE.Vector3 {
+  return new THREE.Vector3(position.x, -position.z, position.y)
+}
+
+export function fromZUpPosition(position: THREE.Vector3): THREE.Vector3 {
+  return new THREE.Vector3(position.x, position.z, -position.y)
+}
+
+// For quaternions the same axis swap applies to the imaginary part:
+// (w, x, y, z) in Three.js becomes (w, x, -z, y) in Z-up
+export function toZUpQuaternion(quaternion: THREE.Quaternion): THREE.Quaternion {
+  return new THREE.Quaternion(quaternion.x, -quaternion.z, quaternion.y, quaternion.w)
+}
+
+export function fromZUpQuaternion(quaternion: THREE.Quaternion): THREE.Quaternion {
+  return new THREE.Quaternion(quaternion.x, quaternion.z, -quaternion.y, quaternion.w)
+}
+
+// Scale is a per-axis magnitude, so only the axes swap
+export function toZUpScale(scale: THREE.Vector3): THREE.Vector3 {
+  return new THREE.Vector3(scale.x, scale.z, scale.y)
+}
+
+export function fromZUpScale(scale: THREE.Vector3): THREE.Vector3 {
+  return new THREE.Vector3(scale.x, scale.z, scale.y)
+}
+
+// How a Z-up rotation is written out: roll, pitch and yaw in degrees (about
+// the fixed X, Y and Z axes, applied in that order), or a quaternion
+export type RotationFormat = 'rpy' | 'wxyz' | 'xyzw'
+
+export const ROTATION_FORMATS: { value: RotationFormat; label: string; components: string[] }[] = [
+  { value: 'rpy', label: 'RPY (degrees)', components: ['R', 'P', 'Y'] },
+  { value: 'wxyz', label: 'Quaternion wxyz', components: ['W', 'X', 'Y', 'Z'] },
+  { value: 'xyzw', label: 'Quaternion xyzw', components: ['X', 'Y', 'Z', 'W'] },
+]
+
+// Fixed-axis X, Y, Z rotations are the Euler order ZYX in Three.js
+const RPY_ORDER = 'ZYX'
+
+// Z-up rotation values of a Three.js quaternion
+export function toRotationValues(quaternion: THREE.Quaternion, format: RotationFormat): number[] {
+  const q = toZUpQuaternion(quaternion)
+  switch (format) {
+    case 'rpy': {
+      const euler = new THREE.Euler().setFromQuaternion(q, RPY_ORDER)
+      return [euler.x, euler.y, euler.z].map(THREE.MathUtils.radToDeg)
+    }
+    case 'wxyz':
+      return [q.w, q.x, q.y, q.z]
+    case 'xyzw':
+      return [q.x, q.y, q.z, q.w]
+  }
+}
+
+// Three.js quaternion for Z-up rotation values. Quaternions are normalized;
+// an all-zero one is no rotation.
+export function fromRotationValues(values: number[], format: RotationFormat): THREE.Quaternion {
+  const q = new THREE.Quaternion()
+  switch (format) {
+    case 'rpy': {
+      const [roll, pitch, yaw] = values.map(THREE.MathUtils.degToRad)
+      q.setFromEuler(new THREE.Euler(roll, pitch, yaw, RPY_ORDER))
+      break
+    }
+    case 'wxyz':
+      q.set(values[1], values[2], values[3], values[0])
+      break
+    case 'xyzw':
+      q.set(values[0], values[1], values[2], values[3])
+      break
+  }
+  if (q.lengthSq() === 0) q.identity()
+  return fromZUpQuaternion(q.normalize())
+}
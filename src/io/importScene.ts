@@ -1,16 +1,43 @@
 import JSZip from 'jszip'
 import * as THREE from 'three'
-import { AssetLoader, LoadedAsset } from '../scene/AssetLoader'
-import { SavedCondition } from '../hooks/useScene'
+import { LoadedAsset } from '../scene/AssetLoader'
+import { SavedCondition, SavedPose } from '../hooks/useScene'
+import { attributeValue, getTopLevelPrims, listItems, UsdLayer, UsdPrim, UsdValue } from './usd/layer'
+import { parseUsda } from './usd/usdaParser'
+import { isUsdc, parseUsdc } from './usd/usdcReader'
+import { computeWorldTransform } from './usd/xform'
+import { fromZUpPosition, fromZUpQuaternion, fromZUpScale, toZUpPosition, toZUpQuaternion } from './frame'
+import { fromFramePose, manualFrame, ReferenceFrame } from './referenceFrame'
+import { decodePose, detectPoseEncoding, isPoseEncoding, PoseEncoding } from './poseEncoding'
+import { canAttach } from '../scene/hierarchy'
+import { PhysicsProperties, sanitizePhysics } from '../physics/properties'
+import { parseRandomizationSpec, RandomizationSettings } from '../randomization/spec'
+import { ConditionDetails, normalizeDetails, parseTags } from '../randomization/conditions'
+import { SAMPLING_STRATEGIES, SamplingBatch, SamplingStrategy } from '../randomization/strategies'
+
+// Turns the files of one asset folder into a LoadedAsset. The editor passes its
+// AssetLoader; headless tools pass a loader that skips geometry.
+export interface AssetSource {
+  loadFromFiles(files: Map<string, File>, folderName: string): Promise<LoadedAsset | null>
+}
+
+interface Vec3Config {
+  x: number
+  y: number
+  z: number
+}
 
 interface AssetConfig {
   id: string
   name: string
   mainFile: string
-  position: { x: number; y: number; z: number }
-  rotation: { x: number; y: number; z: number }
-  scale: { x: number; y: number; z: number }
+  position: Vec3Config
+  rotation: Vec3Config
+  scale: Vec3Config
   disableGravity?: boolean
+  physics?: PhysicsProperties
+  bounds?: { min: Vec3Config; max: Vec3Config }
+  parent?: string // Id (in this file) of the asset it is attached to
 }
 
 interface SceneConfig {
@@ -19,12 +46,17 @@ interface SceneConfig {
 }
 
 interface InitialConditionsPose {
-  [assetName: string]: number[] // [x, y, z, qx, qy, qz, qw]
+  [assetName: string]: unknown // Encoded as `encoding` says (or as its shape suggests)
 }
 
 interface InitialConditionsFile {
   instruction?: string
   poses: InitialConditionsPose[]
+  seeds?: (number | null)[]
+  batches?: unknown[] // Planned batch behind each seed; checked before use
+  metadata?: unknown[] // Entries are checked field by field
+  frame?: unknown // Frame the poses are relative to; checked before use
+  encoding?: unknown // How poses are written, [x, y, z, qx, qy, qz, qw] when absent
 }
 
 export interface ImportResult {
@@ -32,39 +64,63 @@ export interface ImportResult {
   assets: LoadedAsset[]
   savedConditions: SavedCondition[]
   instruction: string
+  randomization?: RandomizationSettings // From randomization.json, absent in older bundles
+  referenceFrame?: ReferenceFrame // From initial_conditions.json, absent when poses are in the world frame
+  poseEncoding?: PoseEncoding // How initial_conditions.json wrote its poses
   error?: string
 }
 
+// Receives the progress messages of an import (warnings and errors still go
+// to the console)
+export type ImportLog = (...data: unknown[]) => void
+
+export interface ImportOptions {
+  log?: ImportLog // Defaults to console.log
+}
+
 export async function importScene(
   zipFile: File,
-  assetLoader: AssetLoader
+  assetLoader: AssetSource,
+  options: ImportOptions = {}
 ): Promise<ImportResult> {
-  console.log('[Import] Starting import of:', zipFile.name)
+  const { log = console.log } = options
+
+  log('[Import] Starting import of:', zipFile.name)
 
   let zip: JSZip
   try {
     zip = await JSZip.loadAsync(zipFile)
-    console.log('[Import] ZIP loaded, files:', Object.keys(zip.files))
+    log('[Import] ZIP loaded, files:', Object.keys(zip.files))
   } catch (e) {
     const msg = `Failed to read ZIP file: ${e instanceof Error ? e.message : String(e)}`
     console.error('[Import]', msg)
     return { success: false, assets: [], savedConditions: [], instruction: '', error: msg }
   }
 
+  return importSceneFromZip(zip, assetLoader, options)
+}
+
+// Import from an already opened archive (used by headless tools that read the ZIP themselves)
+export async function importSceneFromZip(
+  zip: JSZip,
+  assetLoader: AssetSource,
+  options: ImportOptions = {}
+): Promise<ImportResult> {
+  const { log = console.log } = options
   // Try to read scene.json first (new format)
   const configFile = zip.file('scene.json')
   let assets: LoadedAsset[]
 
   try {
     if (configFile) {
-      console.log('[Import] Found scene.json, using new format')
-      assets = await importFromSceneJson(zip, configFile, assetLoader)
+      log('[Import] Found scene.json, using new format')
+      assets = await importFromSceneJson(zip, configFile, assetLoader, log)
     } else {
       // Fall back to discovering assets from folder structure (legacy format)
-      console.log('[Import] No scene.json, using folder structure')
-      assets = await importFromFolderStructure(zip, assetLoader)
+      log('[Import] No scene.json, using folder structure')
+      assets = await importFromFolderStructure(zip, assetLoader, log)
     }
-    console.log('[Import] Loaded assets:', assets.map(a => a.name))
+    log('[Import] Loaded assets:', assets.map(a => a.name))
   } catch (e) {
     const msg = `Failed to load assets: ${e instanceof Error ? e.message : String(e)}`
     console.error('[Import]', msg)
@@ -78,16 +134,30 @@ export async function importScene(
   }
 
   // Load initial conditions if present
-  const { savedConditions, instruction } = await loadInitialConditions(zip, assets)
-  console.log('[Import] Import complete:', assets.length, 'assets,', savedConditions.length, 'conditions')
+  const { savedConditions, instruction, referenceFrame, poseEncoding } = await loadInitialConditions(zip, assets)
+  const randomization = await loadRandomizationSettings(zip, assets)
+  log('[Import] Import complete:', assets.length, 'assets,', savedConditions.length, 'conditions')
 
-  return { success: true, assets, savedConditions, instruction }
+  return { success: true, assets, savedConditions, instruction, randomization, referenceFrame, poseEncoding }
+}
+
+async function loadRandomizationSettings(zip: JSZip, assets: LoadedAsset[]): Promise<RandomizationSettings | undefined> {
+  const randomizationFile = zip.file('randomization.json')
+  if (!randomizationFile) return undefined
+
+  try {
+    const content = await randomizationFile.async('text')
+    return parseRandomizationSpec(JSON.parse(content), assets) ?? undefined
+  } catch (e) {
+    console.warn('[Import] Failed to parse randomization.json:', e)
+    return undefined
+  }
 }
 
 async function loadInitialConditions(
   zip: JSZip,
   assets: LoadedAsset[]
-): Promise<{ savedConditions: SavedCondition[]; instruction: string }> {
+): Promise<{ savedConditions: SavedCondition[]; instruction: string; referenceFrame?: ReferenceFrame; poseEncoding?: PoseEncoding }> {
   const initialConditionsFile = zip.file('initial_conditions.json')
   if (!initialConditionsFile) {
     return { savedConditions: [], instruction: '' }
@@ -96,11 +166,13 @@ async function loadInitialConditions(
   try {
     const content = await initialConditionsFile.async('text')
     const data: InitialConditionsFile = JSON.parse(content)
+    const encoding = poseEncodingOf(data)
+    const frame = parseFrame(data.frame, encoding)
 
     const savedConditions: SavedCondition[] = []
 
     // Convert each pose to SavedCondition format
-    for (const poseData of data.poses) {
+    for (const [index, poseData] of data.poses.entries()) {
       const poses = new Map<string, { position: THREE.Vector3; quaternion: THREE.Quaternion }>()
 
       for (const [usdName, values] of Object.entries(poseData)) {
@@ -108,54 +180,105 @@ async function loadInitialConditions(
         const asset = assets.find(a => a.name.replace(/[^a-zA-Z0-9_]/g, '_') === usdName)
         if (!asset) continue
 
-        // values: [x, y, z, qx, qy, qz, qw] in USD coordinates (Z-up)
-        // Convert back to Three.js (Y-up)
-        const usdX = values[0]
-        const usdY = values[1]
-        const usdZ = values[2]
-        const usdQx = values[3]
-        const usdQy = values[4]
-        const usdQz = values[5]
-        const usdQw = values[6]
-
-        // Position: Three_X = USD_X, Three_Y = USD_Z, Three_Z = -USD_Y
-        const position = new THREE.Vector3(usdX, usdZ, -usdY)
-
-        // Quaternion: reverse the coordinate conversion
-        // USD (w, x, y, z) came from Three.js as (w, x, -z, y)
-        // So to reverse: Three.x = USD.x, Three.y = USD.z, Three.z = -USD.y
-        const quaternion = new THREE.Quaternion(usdQx, usdQz, -usdQy, usdQw)
-
-        poses.set(asset.id, { position, quaternion })
+        const pose = worldPose(values, encoding, frame)
+        if (pose) poses.set(asset.id, pose)
       }
 
       if (poses.size > 0) {
-        savedConditions.push({ poses })
+        const seed = data.seeds?.[index]
+        const batch = typeof seed === 'number' ? parseBatch(data.batches?.[index]) : null
+        const condition: SavedCondition = typeof seed === 'number' ? { poses, seed } : { poses }
+        if (batch) condition.batch = batch
+        savedConditions.push({ ...condition, ...parseConditionMetadata(data.metadata?.[index]) })
       }
     }
 
     return {
       savedConditions,
-      instruction: data.instruction || ''
+      instruction: data.instruction || '',
+      referenceFrame: frame ? referenceFrameFor(frame, assets) : undefined,
+      poseEncoding: encoding ?? undefined,
     }
   } catch {
     return { savedConditions: [], instruction: '' }
   }
 }
 
+interface ParsedFrame {
+  pose: SavedPose // In the composer's world
+  asset?: string // Name of the asset it sits on, as in the poses
+}
+
+// The encoding the file names, else the one its first pose looks like (files
+// written by hand or by other tools may leave `encoding` out)
+function poseEncodingOf(data: InitialConditionsFile): PoseEncoding | null {
+  if (isPoseEncoding(data.encoding)) return data.encoding
+  const first = data.poses?.find(pose => Object.keys(pose).length > 0)
+  return first ? detectPoseEncoding(Object.values(first)[0]) : null
+}
+
+// The frame recorded in initial_conditions.json, null when there is none (or
+// it isn't well-formed: the poses are then read as world poses)
+function parseFrame(entry: unknown, encoding: PoseEncoding | null): ParsedFrame | null {
+  if (typeof entry !== 'object' || entry === null) return null
+  const { pose, asset } = entry as Record<string, unknown>
+  const framePose = worldPose(pose, encoding, null)
+  return framePose ? { pose: framePose, asset: typeof asset === 'string' ? asset : undefined } : null
+}
+
+// An encoded pose in USD coordinates (Z-up), relative to `frame` when given,
+// as a pose in the composer's world; null when the values don't fit the encoding
+function worldPose(values: unknown, encoding: PoseEncoding | null, frame: ParsedFrame | null): SavedPose | null {
+  const resolved = encoding ?? detectPoseEncoding(values)
+  const pose = resolved ? decodePose(values, resolved) : null
+  if (!pose) return null
+  return frame ? fromFramePose(frame.pose, pose) : pose
+}
+
+// The frame follows its asset when that was exported too; otherwise (the robot
+// model isn't exported) it stays where it was as a manual frame
+function referenceFrameFor(frame: ParsedFrame, assets: LoadedAsset[]): ReferenceFrame {
+  const asset = frame.asset !== undefined ? assets.find(a => a.name.replace(/[^a-zA-Z0-9_]/g, '_') === frame.asset) : undefined
+  return asset ? { kind: 'asset', assetId: asset.id } : manualFrame(frame.pose)
+}
+
+// Keeps only well-formed fields, so a hand-edited entry can't break the import
+function parseConditionMetadata(entry: unknown): ConditionDetails {
+  if (typeof entry !== 'object' || entry === null) return {}
+  const { name, tags, notes } = entry as Record<string, unknown>
+  return normalizeDetails({
+    name: typeof name === 'string' ? name : undefined,
+    tags: Array.isArray(tags) ? parseTags(tags.filter(tag => typeof tag === 'string').join(',')) : undefined,
+    notes: typeof notes === 'string' ? notes : undefined,
+  })
+}
+
+// A planned batch entry, or null when it's missing or malformed
+function parseBatch(entry: unknown): SamplingBatch | null {
+  if (typeof entry !== 'object' || entry === null) return null
+  const { strategy, firstSeed, count } = entry as Record<string, unknown>
+  if (strategy === 'uniform' || !SAMPLING_STRATEGIES.some(s => s.value === strategy)) return null
+  if (!Number.isInteger(firstSeed) || !Number.isInteger(count) || (count as number) < 1) return null
+  return { strategy: strategy as SamplingStrategy, firstSeed: firstSeed as number, count: count as number }
+}
+
 async function importFromSceneJson(
   zip: JSZip,
   configFile: JSZip.JSZipObject,
-  assetLoader: AssetLoader
+  assetLoader: AssetSource,
+  log: ImportLog
 ): Promise<LoadedAsset[]> {
   const configText = await configFile.async('text')
   const config: SceneConfig = JSON.parse(configText)
 
   const loadedAssets: LoadedAsset[] = []
+  // Loaded assets get fresh ids; parents are named by the ids in the file
+  const loadedByConfigId = new Map<string, LoadedAsset>()
 
   for (const assetConfig of config.assets) {
-    const asset = await loadAssetFromZip(zip, assetConfig.name, assetLoader)
+    const asset = await loadAssetFromZip(zip, assetConfig.name, assetLoader, log)
     if (asset) {
+      loadedByConfigId.set(assetConfig.id, asset)
       // Apply saved transform
       asset.object.position.set(
         assetConfig.position.x,
@@ -174,34 +297,60 @@ async function importFromSceneJson(
       )
       // Restore physics properties
       asset.disableGravity = assetConfig.disableGravity || false
+      asset.physics = sanitizePhysics(assetConfig.physics)
+      if (assetConfig.bounds) {
+        const { min, max } = assetConfig.bounds
+        asset.localBounds = new THREE.Box3(
+          new THREE.Vector3(min.x, min.y, min.z),
+          new THREE.Vector3(max.x, max.y, max.z)
+        )
+      }
       loadedAssets.push(asset)
     }
   }
 
+  restoreParents(loadedAssets, config.assets.flatMap(assetConfig => {
+    const asset = loadedByConfigId.get(assetConfig.id)
+    const parent = assetConfig.parent !== undefined ? loadedByConfigId.get(assetConfig.parent) : undefined
+    return asset && parent ? [{ asset, parent }] : []
+  }))
+
   return loadedAssets
 }
 
+// Attach each asset to its parent, skipping links that would form a cycle
+// (hand-edited files)
+function restoreParents(assets: LoadedAsset[], links: { asset: LoadedAsset; parent: LoadedAsset }[]): void {
+  for (const { asset, parent } of links) {
+    if (canAttach(assets, asset.id, parent.id)) {
+      asset.parentId = parent.id
+    }
+  }
+}
+
+// Z-up, as written in the file
 interface UsdTransform {
-  translate: { x: number; y: number; z: number }
-  orient: { w: number; x: number; y: number; z: number } | null
-  rotate: { x: number; y: number; z: number } | null  // Legacy rotateXYZ support
-  scale: { x: number; y: number; z: number }
+  translate: THREE.Vector3
+  orient: THREE.Quaternion
+  scale: THREE.Vector3
   kinematic: boolean
+  parent?: string // Key of the asset prim this one is nested in (or attached to, from customData)
 }
 
 async function importFromFolderStructure(
   zip: JSZip,
-  assetLoader: AssetLoader
+  assetLoader: AssetSource,
+  log: ImportLog
 ): Promise<LoadedAsset[]> {
-  // Try to find a USD scene file at root level (scene.usda, scene.usd, or any .usd/.usda file)
-  let usdaFile = zip.file('scene.usda') || zip.file('scene.usd')
+  // Try to find a USD scene file at root level (scene.usda, scene.usd, scene.usdc, or any .usd/.usda/.usdc file)
+  let usdFile = zip.file('scene.usda') || zip.file('scene.usd') || zip.file('scene.usdc')
 
   // If not found, look for any USD file at root level
-  if (!usdaFile) {
+  if (!usdFile) {
     for (const [path, entry] of Object.entries(zip.files)) {
-      if (!path.includes('/') && (path.endsWith('.usd') || path.endsWith('.usda'))) {
-        usdaFile = entry
-        console.log('[Import] Found USD scene file:', path)
+      if (!path.includes('/') && /\.usd[ac]?$/.test(path)) {
+        usdFile = entry
+        log('[Import] Found USD scene file:', path)
         break
       }
     }
@@ -209,14 +358,15 @@ async function importFromFolderStructure(
 
   const transforms = new Map<string, UsdTransform>()
 
-  if (usdaFile) {
-    const usdaContent = await usdaFile.async('text')
-    // Check if it's binary USD (crate format) - starts with "PXR-USDC"
-    if (usdaContent.startsWith('PXR-USDC')) {
-      console.warn('[Import] Binary USD (crate) format detected - will try initial_conditions.json for transforms')
-    } else {
-      parseUsdaTransforms(usdaContent, transforms)
-      console.log('[Import] Parsed transforms for:', [...transforms.keys()])
+  if (usdFile) {
+    const content = await usdFile.async('uint8array')
+    try {
+      // Binary USD (crate) files start with "PXR-USDC"; anything else is text
+      const layer = isUsdc(content) ? parseUsdc(content) : parseUsda(new TextDecoder().decode(content))
+      collectUsdTransforms(layer, transforms)
+      log('[Import] Parsed transforms for:', [...transforms.keys()])
+    } catch (e) {
+      console.warn('[Import] Failed to parse USD scene file:', e instanceof Error ? e.message : e)
     }
   }
 
@@ -229,17 +379,19 @@ async function importFromFolderStructure(
         const data: InitialConditionsFile = JSON.parse(content)
         if (data.poses && data.poses.length > 0) {
           const firstPose = data.poses[0]
+          const encoding = poseEncodingOf(data)
+          const frame = parseFrame(data.frame, encoding)
           for (const [name, values] of Object.entries(firstPose)) {
-            // values: [x, y, z, qx, qy, qz, qw] in USD coordinates (Z-up)
+            const pose = worldPose(values, encoding, frame)
+            if (!pose) continue
             transforms.set(name, {
-              translate: { x: values[0], y: values[1], z: values[2] },
-              orient: { x: values[3], y: values[4], z: values[5], w: values[6] },
-              rotate: null,
-              scale: { x: 1, y: 1, z: 1 },
+              translate: toZUpPosition(pose.position),
+              orient: toZUpQuaternion(pose.quaternion),
+              scale: new THREE.Vector3(1, 1, 1),
               kinematic: false,
             })
           }
-          console.log('[Import] Using first pose from initial_conditions.json for transforms:', [...transforms.keys()])
+          log('[Import] Using first pose from initial_conditions.json for transforms:', [...transforms.keys()])
         }
       } catch (e) {
         console.warn('[Import] Failed to parse initial_conditions.json:', e)
@@ -260,52 +412,21 @@ async function importFromFolderStructure(
   })
 
   const loadedAssets: LoadedAsset[] = []
+  const loadedByUsdName = new Map<string, LoadedAsset>()
 
   for (const assetName of assetNames) {
-    const asset = await loadAssetFromZip(zip, assetName, assetLoader)
+    const asset = await loadAssetFromZip(zip, assetName, assetLoader, log)
     if (asset) {
       // Apply transform from USD if available
       // USD names have special chars replaced with underscores
       const usdName = assetName.replace(/[^a-zA-Z0-9_]/g, '_')
       const transform = transforms.get(usdName)
+      loadedByUsdName.set(usdName, asset)
 
       if (transform) {
-        // Convert from USD (Z-up) back to Three.js (Y-up)
-        // USD: X=forward, Y=left, Z=up -> Three.js: X=right, Y=up, Z=forward
-        // Mapping: Three_X = USD_X, Three_Y = USD_Z, Three_Z = -USD_Y
-        asset.object.position.set(
-          transform.translate.x,
-          transform.translate.z,
-          -transform.translate.y
-        )
-
-        // Handle orientation (quaternion) or legacy rotateXYZ
-        if (transform.orient) {
-          // Convert quaternion from USD (Z-up) to Three.js (Y-up)
-          // USD (w, x, y, z) came from Three.js as (w, x, -z, y)
-          // So to reverse: Three.x = USD.x, Three.y = USD.z, Three.z = -USD.y
-          const threeQuat = new THREE.Quaternion(
-            transform.orient.x,
-            transform.orient.z,
-            -transform.orient.y,
-            transform.orient.w
-          )
-          asset.object.quaternion.copy(threeQuat)
-        } else if (transform.rotate) {
-          // Legacy rotateXYZ: Convert rotation from degrees to radians
-          // Same coordinate swap for rotation
-          asset.object.rotation.set(
-            transform.rotate.x * (Math.PI / 180),
-            transform.rotate.z * (Math.PI / 180),
-            -transform.rotate.y * (Math.PI / 180)
-          )
-        }
-
-        asset.object.scale.set(
-          transform.scale.x,
-          transform.scale.z,
-          transform.scale.y
-        )
+        asset.object.position.copy(fromZUpPosition(transform.translate))
+        asset.object.quaternion.copy(fromZUpQuaternion(transform.orient))
+        asset.object.scale.copy(fromZUpScale(transform.scale))
         asset.disableGravity = transform.kinematic
       }
 
@@ -313,85 +434,95 @@ async function importFromFolderStructure(
     }
   }
 
+  // Nested asset prims become attached assets
+  restoreParents(loadedAssets, [...loadedByUsdName].flatMap(([usdName, asset]) => {
+    const parentName = transforms.get(usdName)?.parent
+    const parent = parentName !== undefined ? loadedByUsdName.get(parentName) : undefined
+    return parent ? [{ asset, parent }] : []
+  }))
+
   return loadedAssets
 }
 
-function parseUsdaTransforms(content: string, transforms: Map<string, UsdTransform>): void {
-  // Split by def Xform to get each block
-  const blocks = content.split(/def Xform "/)
-
-  for (let i = 1; i < blocks.length; i++) {
-    const block = blocks[i]
-
-    // Extract name (everything before the closing quote)
-    const nameEnd = block.indexOf('"')
-    if (nameEnd === -1) continue
-    const name = block.substring(0, nameEnd)
-
-    // Skip the World xform
-    if (name === 'World') continue
-
+// Read the world transform of every top-level prim (the children of the default
+// prim) and key it by prim name and by the asset folder the prim references.
+// Prims below them that reference an asset folder are assets too, attached to
+// the nearest such prim above them; top-level ones name their parent in
+// customData (attachedTo).
+function collectUsdTransforms(layer: UsdLayer, transforms: Map<string, UsdTransform>): void {
+  // Scenes authored Y-up are rotated into the Z-up frame the composer exports: (x, y, z) -> (x, -z, y)
+  const upAxisCorrection = layer.metadata.upAxis === 'Y'
+    ? new THREE.Matrix4().makeRotationX(Math.PI / 2)
+    : new THREE.Matrix4()
+
+  const collect = (prim: UsdPrim, parent: string | undefined) => {
+    const world = upAxisCorrection.clone().multiply(computeWorldTransform(layer, prim.path))
+    const translate = new THREE.Vector3()
+    const orient = new THREE.Quaternion()
+    const scale = new THREE.Vector3()
+    world.decompose(translate, orient, scale)
+
+    const kinematic = attributeValue(prim, 'physics:kinematicEnabled')
     const transform: UsdTransform = {
-      translate: { x: 0, y: 0, z: 0 },
-      orient: null,
-      rotate: null,
-      scale: { x: 1, y: 1, z: 1 },
-      kinematic: false,
+      translate,
+      orient,
+      scale,
+      kinematic: kinematic === true || kinematic === 1,
     }
-
-    // Parse translate: double3 xformOp:translate = (x, y, z)
-    const translateMatch = block.match(/xformOp:translate\s*=\s*\(\s*([^,]+),\s*([^,]+),\s*([^)]+)\)/)
-    if (translateMatch) {
-      transform.translate.x = parseFloat(translateMatch[1])
-      transform.translate.y = parseFloat(translateMatch[2])
-      transform.translate.z = parseFloat(translateMatch[3])
+    // Attached assets that aren't nested (dynamic ones) name their parent
+    const customData = prim.metadata.customData
+    const attachedTo = customData && typeof customData === 'object' && !Array.isArray(customData) && customData.kind === 'dict'
+      ? customData.entries.attachedTo
+      : undefined
+    if (parent !== undefined) {
+      transform.parent = parent
+    } else if (typeof attachedTo === 'string') {
+      transform.parent = attachedTo
     }
 
-    // Parse orient: quatd xformOp:orient = (w, x, y, z)
-    const orientMatch = block.match(/xformOp:orient\s*=\s*\(\s*([^,]+),\s*([^,]+),\s*([^,]+),\s*([^)]+)\)/)
-    if (orientMatch) {
-      transform.orient = {
-        w: parseFloat(orientMatch[1]),
-        x: parseFloat(orientMatch[2]),
-        y: parseFloat(orientMatch[3]),
-        z: parseFloat(orientMatch[4]),
+    transforms.set(prim.name, transform)
+    let key = prim.name
+    for (const reference of listItems(prim.metadata.references)) {
+      const folder = referencedAssetFolder(reference)
+      if (folder) {
+        key = folder.replace(/[^a-zA-Z0-9_]/g, '_')
+        transforms.set(key, transform)
       }
     }
+    collectNested(prim, key)
+  }
 
-    // Parse rotate (legacy): float3 xformOp:rotateXYZ = (x, y, z)
-    const rotateMatch = block.match(/xformOp:rotateXYZ\s*=\s*\(\s*([^,]+),\s*([^,]+),\s*([^)]+)\)/)
-    if (rotateMatch) {
-      transform.rotate = {
-        x: parseFloat(rotateMatch[1]),
-        y: parseFloat(rotateMatch[2]),
-        z: parseFloat(rotateMatch[3]),
+  const collectNested = (prim: UsdPrim, parent: string) => {
+    for (const child of prim.children) {
+      if (listItems(child.metadata.references).some(reference => referencedAssetFolder(reference))) {
+        collect(child, parent)
+      } else {
+        collectNested(child, parent)
       }
     }
+  }
 
-    // Parse scale: float3 xformOp:scale = (x, y, z)
-    const scaleMatch = block.match(/xformOp:scale\s*=\s*\(\s*([^,]+),\s*([^,]+),\s*([^)]+)\)/)
-    if (scaleMatch) {
-      transform.scale.x = parseFloat(scaleMatch[1])
-      transform.scale.y = parseFloat(scaleMatch[2])
-      transform.scale.z = parseFloat(scaleMatch[3])
-    }
-
-    // Parse kinematic: bool physics:kinematicEnabled = true/false
-    const kinematicMatch = block.match(/physics:kinematicEnabled\s*=\s*(true|false)/)
-    if (kinematicMatch) {
-      transform.kinematic = kinematicMatch[1] === 'true'
-    }
+  for (const prim of getTopLevelPrims(layer)) {
+    collect(prim, undefined)
+  }
+}
 
-    transforms.set(name, transform)
+// Asset folder name from a reference like @./assets/tomato/tomato.usd@
+function referencedAssetFolder(reference: UsdValue): string | null {
+  if (!reference || typeof reference !== 'object' || Array.isArray(reference) || reference.kind !== 'asset') {
+    return null
   }
+  const match = /(?:^|\/)assets\/([^/]+)\//.exec(reference.path)
+  return match ? match[1] : null
 }
 
 async function loadAssetFromZip(
   zip: JSZip,
   assetName: string,
-  assetLoader: AssetLoader
+  assetLoader: AssetSource,
+  log: ImportLog
 ): Promise<LoadedAsset | null> {
-  console.log('[Import] Loading asset:', assetName)
+  log('[Import] Loading asset:', assetName)
   const files = new Map<string, File>()
   const assetPath = `assets/${assetName}/`
 
@@ -419,7 +550,7 @@ async function loadAssetFromZip(
     return null
   }
 
-  console.log('[Import] Found', files.size, 'files for', assetName, ':', [...files.keys()])
+  log('[Import] Found', files.size, 'files for', assetName, ':', [...files.keys()])
   const asset = await assetLoader.loadFromFiles(files, assetName)
   if (!asset) {
     console.warn('[Import] AssetLoader returned null for:', assetName)
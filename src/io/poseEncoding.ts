@@ -0,0 +1,107 @@
+import * as THREE from 'three'
+import { SavedPose } from '../hooks/useScene'
+import { fromRotationValues, fromZUpPosition, fromZUpQuaternion, toRotationValues, toZUpPosition, toZUpQuaternion } from './frame'
+
+// How a pose is written in initial_conditions.json and the condition tables,
+// always in the Z-up export frame:
+//   xyzw   [x, y, z, qx, qy, qz, qw] (the default)
+//   wxyz   [x, y, z, qw, qx, qy, qz]
+//   matrix 4x4 homogeneous transform, as rows
+//   rpy    [x, y, z, roll, pitch, yaw], angles in degrees about the fixed X, Y and Z axes
+
+export type PoseEncoding = 'xyzw' | 'wxyz' | 'matrix' | 'rpy'
+
+export const DEFAULT_POSE_ENCODING: PoseEncoding = 'xyzw'
+
+export const POSE_ENCODINGS: { value: PoseEncoding; label: string; components: string[] }[] = [
+  { value: 'xyzw', label: 'Position + quaternion xyzw', components: ['x', 'y', 'z', 'qx', 'qy', 'qz', 'qw'] },
+  { value: 'wxyz', label: 'Position + quaternion wxyz', components: ['x', 'y', 'z', 'qw', 'qx', 'qy', 'qz'] },
+  {
+    value: 'matrix',
+    label: '4x4 matrix',
+    components: [0, 1, 2, 3].flatMap(row => [0, 1, 2, 3].map(col => `m${row}${col}`)),
+  },
+  { value: 'rpy', label: 'Position + RPY (degrees)', components: ['x', 'y', 'z', 'roll', 'pitch', 'yaw'] },
+]
+
+export type EncodedPose = number[] | number[][]
+
+export function isPoseEncoding(value: unknown): value is PoseEncoding {
+  return POSE_ENCODINGS.some(e => e.value === value)
+}
+
+// Encode a pose in the composer's world (Three.js)
+export function encodePose(pose: SavedPose, encoding: PoseEncoding): EncodedPose {
+  const position = toZUpPosition(pose.position).toArray()
+  switch (encoding) {
+    case 'xyzw':
+    case 'wxyz':
+    case 'rpy':
+      return [...position, ...toRotationValues(pose.quaternion, encoding)]
+    case 'matrix': {
+      // Matrix4 stores columns; read it back out as rows
+      const columns = new THREE.Matrix4()
+        .compose(toZUpPosition(pose.position), toZUpQuaternion(pose.quaternion), new THREE.Vector3(1, 1, 1))
+        .toArray()
+      return [0, 1, 2, 3].map(row => [0, 1, 2, 3].map(col => columns[col * 4 + row]))
+    }
+  }
+}
+
+// The encoding a pose is written in, judged by its shape. Seven numbers are
+// read as xyzw; a file whose quaternions lead with w says so in `encoding`.
+export function detectPoseEncoding(values: unknown): PoseEncoding | null {
+  if (isMatrix(values)) return 'matrix'
+  if (!isNumbers(values)) return null
+  if (values.length === 7) return 'xyzw'
+  if (values.length === 6) return 'rpy'
+  if (values.length === 16) return 'matrix'
+  return null
+}
+
+// Pose in the composer's world, or null when `values` doesn't fit the encoding.
+// Quaternions are taken as written; the other encodings always give unit ones.
+export function decodePose(values: unknown, encoding: PoseEncoding): SavedPose | null {
+  if (encoding === 'matrix') {
+    const rows = isMatrix(values) ? values.flat() : isNumbers(values) && values.length === 16 ? values : null
+    if (!rows) return null
+    const position = new THREE.Vector3()
+    const quaternion = new THREE.Quaternion()
+    // set() takes the elements row by row
+    new THREE.Matrix4().set(...(rows as Matrix4Elements)).decompose(position, quaternion, new THREE.Vector3())
+    return { position: fromZUpPosition(position), quaternion: fromZUpQuaternion(quaternion) }
+  }
+
+  const length = encoding === 'rpy' ? 6 : 7
+  if (!isNumbers(values) || values.length !== length) return null
+  const position = fromZUpPosition(new THREE.Vector3(values[0], values[1], values[2]))
+  const rotation = values.slice(3)
+  switch (encoding) {
+    case 'xyzw':
+      return { position, quaternion: fromZUpQuaternion(new THREE.Quaternion(rotation[0], rotation[1], rotation[2], rotation[3])) }
+    case 'wxyz':
+      return { position, quaternion: fromZUpQuaternion(new THREE.Quaternion(rotation[1], rotation[2], rotation[3], rotation[0])) }
+    case 'rpy':
+      return { position, quaternion: fromRotationValues(rotation, 'rpy') }
+  }
+}
+
+// One row of numbers (tables), matrices row by row
+export function flattenPose(pose: EncodedPose): number[] {
+  return pose.flat()
+}
+
+type Matrix4Elements = [
+  number, number, number, number,
+  number, number, number, number,
+  number, number, number, number,
+  number, number, number, number,
+]
+
+function isNumbers(values: unknown): values is number[] {
+  return Array.isArray(values) && values.every(v => typeof v === 'number' && Number.isFinite(v))
+}
+
+function isMatrix(values: unknown): values is number[][] {
+  return Array.isArray(values) && values.length === 4 && values.every(row => isNumbers(row) && row.length === 4)
+}
@@ -0,0 +1,92 @@
+import * as THREE from 'three'
+import { LoadedAsset } from '../scene/AssetLoader'
+import { SavedPose } from '../hooks/useScene'
+import { isCarried } from '../scene/hierarchy'
+import { fromRotationValues, fromZUpPosition, toRotationValues, toZUpPosition } from './frame'
+
+// The frame exported poses are expressed in. By default that's the composer's
+// world; the robot (e.g. the DROID model), another asset or a hand-entered
+// transform can stand in for it, so consumers get poses relative to the robot
+// base. Only an asset's position and rotation count, not its scale.
+
+export type ReferenceFrame =
+  | { kind: 'world' }
+  | { kind: 'asset'; assetId: string }
+  // Z-up: position in m, roll, pitch and yaw in degrees
+  | { kind: 'manual'; position: number[]; rpy: number[] }
+
+export const WORLD_FRAME: ReferenceFrame = { kind: 'world' }
+
+// A frame can sit on assets whose pose is the same in every condition
+export function canBeReference(assets: LoadedAsset[], asset: LoadedAsset): boolean {
+  const fixed = !!asset.excludeFromExport || !!asset.disableGravity || !!asset.locked
+  return fixed && !isCarried(assets, asset)
+}
+
+// Why the frame can't be used with these assets, or null when it can
+export function referenceFrameProblem(frame: ReferenceFrame, assets: LoadedAsset[]): string | null {
+  if (frame.kind !== 'asset') return null
+  const asset = assets.find(a => a.id === frame.assetId)
+  if (!asset) return 'The export frame\'s asset is no longer in the scene.'
+  if (!canBeReference(assets, asset)) {
+    return `The export frame can't follow ${asset.name}: it moves between conditions. Pick a kinematic, locked or non-exported asset.`
+  }
+  return null
+}
+
+// The frame's pose in the composer's world (Three.js), null when its asset is gone
+export function resolveReferenceFrame(frame: ReferenceFrame, assets: LoadedAsset[]): SavedPose | null {
+  switch (frame.kind) {
+    case 'world':
+      return { position: new THREE.Vector3(), quaternion: new THREE.Quaternion() }
+    case 'asset': {
+      const asset = assets.find(a => a.id === frame.assetId)
+      return asset ? { position: asset.object.position.clone(), quaternion: asset.object.quaternion.clone() } : null
+    }
+    case 'manual':
+      return {
+        position: fromZUpPosition(new THREE.Vector3().fromArray(frame.position)),
+        quaternion: fromRotationValues(frame.rpy, 'rpy'),
+      }
+  }
+}
+
+// "table", "world origin" or "x 0.5, y 0, z 0, rpy 0, 0, 90 deg"
+export function describeReferenceFrame(frame: ReferenceFrame, assets: LoadedAsset[]): string {
+  switch (frame.kind) {
+    case 'world':
+      return 'world origin'
+    case 'asset':
+      return assets.find(a => a.id === frame.assetId)?.name ?? 'missing asset'
+    case 'manual': {
+      const [x, y, z] = frame.position.map(round)
+      return `x ${x}, y ${y}, z ${z}, rpy ${frame.rpy.map(round).join(', ')} deg`
+    }
+  }
+}
+
+// A manual frame at a pose in the composer's world
+export function manualFrame(pose: SavedPose): ReferenceFrame {
+  return { kind: 'manual', position: toZUpPosition(pose.position).toArray(), rpy: toRotationValues(pose.quaternion, 'rpy') }
+}
+
+// World pose -> pose relative to the frame at `reference`
+export function toFramePose(reference: SavedPose, pose: SavedPose): SavedPose {
+  const inverse = reference.quaternion.clone().invert()
+  return {
+    position: pose.position.clone().sub(reference.position).applyQuaternion(inverse),
+    quaternion: inverse.multiply(pose.quaternion),
+  }
+}
+
+// Pose relative to the frame at `reference` -> world pose
+export function fromFramePose(reference: SavedPose, pose: SavedPose): SavedPose {
+  return {
+    position: pose.position.clone().applyQuaternion(reference.quaternion).add(reference.position),
+    quaternion: reference.quaternion.clone().multiply(pose.quaternion),
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
@@ -0,0 +1,135 @@
+// Decompression used by USD crate files: LZ4 blocks wrapped in TfFastCompression
+// chunks, and the delta/variable-width integer encoding of Usd_IntegerCompression.
+
+// Growable byte buffer for decompressed output
+class ByteSink {
+  bytes: Uint8Array
+  length = 0
+
+  constructor(capacity: number) {
+    this.bytes = new Uint8Array(Math.max(capacity, 64))
+  }
+
+  reserve(extra: number): void {
+    if (this.length + extra <= this.bytes.length) return
+    let capacity = this.bytes.length * 2
+    while (capacity < this.length + extra) capacity *= 2
+    const grown = new Uint8Array(capacity)
+    grown.set(this.bytes.subarray(0, this.length))
+    this.bytes = grown
+  }
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length)
+  }
+}
+
+// Decode one raw LZ4 block (no frame header) from src[start, end) into the sink
+function decompressLz4Block(src: Uint8Array, start: number, end: number, sink: ByteSink): void {
+  let ip = start
+  const blockStart = sink.length
+
+  while (ip < end) {
+    const token = src[ip++]
+
+    let literalLength = token >> 4
+    if (literalLength === 15) {
+      let b: number
+      do {
+        b = src[ip++]
+        literalLength += b
+      } while (b === 255 && ip < end)
+    }
+    if (ip + literalLength > end) throw new Error('LZ4: literal run past end of input')
+    sink.reserve(literalLength)
+    sink.bytes.set(src.subarray(ip, ip + literalLength), sink.length)
+    sink.length += literalLength
+    ip += literalLength
+
+    // The last sequence has literals only
+    if (ip >= end) break
+
+    const offset = src[ip] | (src[ip + 1] << 8)
+    ip += 2
+    if (offset === 0 || offset > sink.length - blockStart) throw new Error('LZ4: invalid match offset')
+
+    let matchLength = token & 15
+    if (matchLength === 15) {
+      let b: number
+      do {
+        b = src[ip++]
+        matchLength += b
+      } while (b === 255 && ip < end)
+    }
+    matchLength += 4
+
+    // Byte by byte: matches may overlap the bytes they produce
+    sink.reserve(matchLength)
+    const out = sink.bytes
+    let from = sink.length - offset
+    for (let i = 0; i < matchLength; i++) {
+      out[sink.length++] = out[from++]
+    }
+  }
+}
+
+// TfFastCompression::DecompressFromBuffer: a chunk count byte, then either one
+// LZ4 block (count 0) or `count` blocks each prefixed with its int32 size.
+export function decompressFromBuffer(src: Uint8Array, expectedSize = 0): Uint8Array {
+  if (src.length === 0) return new Uint8Array(0)
+
+  const sink = new ByteSink(expectedSize)
+  const chunks = src[0]
+  if (chunks === 0) {
+    decompressLz4Block(src, 1, src.length, sink)
+  } else {
+    const view = new DataView(src.buffer, src.byteOffset, src.byteLength)
+    let pos = 1
+    for (let i = 0; i < chunks; i++) {
+      const chunkSize = view.getInt32(pos, true)
+      pos += 4
+      decompressLz4Block(src, pos, pos + chunkSize, sink)
+      pos += chunkSize
+    }
+  }
+  return sink.result()
+}
+
+// Usd_IntegerCompression for 32-bit ints: after LZ4, the buffer holds the most
+// common delta, 2-bit codes per value (common / int8 / int16 / int32 delta) and
+// the non-common deltas. Values are the running sum of the deltas.
+export function decompressIntegers(src: Uint8Array, count: number): Int32Array {
+  const result = new Int32Array(count)
+  if (count === 0) return result
+
+  const data = decompressFromBuffer(src)
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const common = view.getInt32(0, true)
+  const codesStart = 4
+  let pos = codesStart + ((count * 2 + 7) >> 3)
+
+  let previous = 0
+  for (let i = 0; i < count; i++) {
+    const code = (data[codesStart + (i >> 2)] >> ((i & 3) * 2)) & 3
+    let delta: number
+    switch (code) {
+      case 0:
+        delta = common
+        break
+      case 1:
+        delta = view.getInt8(pos)
+        pos += 1
+        break
+      case 2:
+        delta = view.getInt16(pos, true)
+        pos += 2
+        break
+      default:
+        delta = view.getInt32(pos, true)
+        pos += 4
+    }
+    previous = (previous + delta) | 0
+    result[i] = previous
+  }
+  return result
+}
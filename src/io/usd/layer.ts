@@ -0,0 +1,142 @@
+// In-memory representation of a single USD layer (no composition across files).
+// Produced by the USDA parser and the USDC (crate) reader alike.
+
+export type UsdValue =
+  | null
+  | boolean
+  | number
+  | string
+  | UsdValue[]
+  | UsdAssetPath
+  | UsdPathRef
+  | UsdDictionary
+  | UsdListOp
+  | UsdTimeSamples
+
+export interface UsdAssetPath {
+  kind: 'asset'
+  path: string
+  primPath?: string // Target prim of a reference/payload (@file.usd@</Prim>)
+}
+
+export interface UsdPathRef {
+  kind: 'path'
+  path: string
+}
+
+export interface UsdDictionary {
+  kind: 'dict'
+  entries: Record<string, UsdValue>
+}
+
+export interface UsdTimeSamples {
+  kind: 'timeSamples'
+  samples: [number, UsdValue][]
+}
+
+export type ListOpKind = 'explicit' | 'prepend' | 'append' | 'add' | 'delete' | 'reorder'
+
+// List-edited metadata such as `prepend references = [...]` or `prepend apiSchemas = [...]`
+export interface UsdListOp {
+  kind: 'listOp'
+  ops: Partial<Record<ListOpKind, UsdValue[]>>
+}
+
+export type Specifier = 'def' | 'over' | 'class'
+
+export interface UsdAttribute {
+  name: string
+  typeName: string
+  custom: boolean
+  variability?: 'uniform' | 'varying' | 'config'
+  value?: UsdValue
+  timeSamples?: [number, UsdValue][]
+  connections?: string[]
+  metadata: Record<string, UsdValue>
+}
+
+export interface UsdRelationship {
+  name: string
+  targets: string[]
+  metadata: Record<string, UsdValue>
+}
+
+export interface UsdPrim {
+  path: string
+  name: string
+  specifier: Specifier
+  typeName: string
+  metadata: Record<string, UsdValue>
+  attributes: Map<string, UsdAttribute>
+  relationships: Map<string, UsdRelationship>
+  children: UsdPrim[]
+}
+
+export interface UsdLayer {
+  metadata: Record<string, UsdValue>
+  prims: UsdPrim[]
+}
+
+export function createPrim(parentPath: string, name: string, specifier: Specifier, typeName: string): UsdPrim {
+  return {
+    path: parentPath === '/' ? `/${name}` : `${parentPath}/${name}`,
+    name,
+    specifier,
+    typeName,
+    metadata: {},
+    attributes: new Map(),
+    relationships: new Map(),
+    children: [],
+  }
+}
+
+// Resolve a metadata value to its item list: explicit items, or the union of
+// prepended/added/appended items minus deleted ones.
+export function listItems(value: UsdValue | undefined): UsdValue[] {
+  if (value === undefined || value === null) return []
+  if (Array.isArray(value)) return value
+  if (typeof value === 'object' && value.kind === 'listOp') {
+    const { explicit, prepend = [], add = [], append = [], delete: deleted = [] } = value.ops
+    const items = explicit ?? [...prepend, ...add, ...append]
+    return items.filter(item => !deleted.some(d => JSON.stringify(d) === JSON.stringify(item)))
+  }
+  return [value]
+}
+
+// Value of an attribute: its default, or the earliest time sample
+export function attributeValue(prim: UsdPrim, name: string): UsdValue | undefined {
+  const attr = prim.attributes.get(name)
+  if (!attr) return undefined
+  if (attr.value !== undefined) return attr.value
+  if (attr.timeSamples && attr.timeSamples.length > 0) {
+    return [...attr.timeSamples].sort((a, b) => a[0] - b[0])[0][1]
+  }
+  return undefined
+}
+
+export function findPrim(layer: UsdLayer, name: string): UsdPrim | undefined {
+  return layer.prims.find(p => p.name === name)
+}
+
+// The prims that represent scene assets: children of the default prim (or of
+// the only root prim), otherwise the root prims themselves.
+export function getTopLevelPrims(layer: UsdLayer): UsdPrim[] {
+  const defaultPrimName = layer.metadata.defaultPrim
+  const root = typeof defaultPrimName === 'string'
+    ? findPrim(layer, defaultPrimName)
+    : layer.prims.length === 1 ? layer.prims[0] : undefined
+  return root ? root.children : layer.prims
+}
+
+// Walk up from a prim path: [root, ..., prim]
+export function getPrimChain(layer: UsdLayer, path: string): UsdPrim[] {
+  const chain: UsdPrim[] = []
+  let siblings = layer.prims
+  for (const name of path.split('/').filter(Boolean)) {
+    const prim = siblings.find(p => p.name === name)
+    if (!prim) return []
+    chain.push(prim)
+    siblings = prim.children
+  }
+  return chain
+}
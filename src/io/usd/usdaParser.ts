@@ -0,0 +1,489 @@
+import {
+  createPrim,
+  ListOpKind,
+  Specifier,
+  UsdAttribute,
+  UsdDictionary,
+  UsdLayer,
+  UsdPrim,
+  UsdTimeSamples,
+  UsdValue,
+} from './layer'
+
+type TokenType = 'ident' | 'number' | 'string' | 'asset' | 'path' | 'punct' | 'eof'
+
+interface Token {
+  type: TokenType
+  value: string
+  line: number
+  col: number
+}
+
+export class UsdaParseError extends Error {
+  constructor(message: string, public line: number, public col: number) {
+    super(`${message} (line ${line}, column ${col})`)
+    this.name = 'UsdaParseError'
+  }
+}
+
+const PUNCTUATION = '()[]{}=,;:'
+const SPECIFIERS = new Set(['def', 'over', 'class'])
+const LIST_OPS = new Set(['prepend', 'append', 'add', 'delete', 'reorder'])
+const VARIABILITY = new Set(['uniform', 'varying', 'config'])
+const PROPERTY_SUFFIXES = new Set(['timeSamples', 'connect', 'spline', 'default'])
+
+// Parse the text (.usda) form of a USD layer into a prim tree with attributes,
+// relationships and metadata. Variant selections authored on a prim are applied
+// to it; everything else about composition (references, sublayers) is left as
+// metadata for the caller.
+export function parseUsda(text: string): UsdLayer {
+  return new UsdaParser(tokenize(text)).parseLayer()
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  let line = 1
+  let lineStart = 0
+
+  const error = (message: string): never => {
+    throw new UsdaParseError(message, line, i - lineStart + 1)
+  }
+  const push = (type: TokenType, value: string, start: number, startLine: number, startLineStart: number) => {
+    tokens.push({ type, value, line: startLine, col: start - startLineStart + 1 })
+  }
+  // Advance to `end`, keeping line numbers correct for multi-line tokens
+  const advanceTo = (end: number) => {
+    for (; i < end; i++) {
+      if (text[i] === '\n') {
+        line++
+        lineStart = i + 1
+      }
+    }
+  }
+
+  while (i < text.length) {
+    const c = text[i]
+    const start = i
+    const startLine = line
+    const startLineStart = lineStart
+
+    if (c === '\n' || c === ' ' || c === '\t' || c === '\r') {
+      advanceTo(i + 1)
+    } else if (c === '#' || (c === '/' && text[i + 1] === '/')) {
+      // Line comment (also covers the "#usda 1.0" header)
+      while (i < text.length && text[i] !== '\n') i++
+    } else if (c === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2)
+      if (end === -1) error('Unterminated block comment')
+      advanceTo(end + 2)
+    } else if (c === '"' || c === "'") {
+      const triple = text.startsWith(c.repeat(3), i)
+      const quote = triple ? c.repeat(3) : c
+      let value = ''
+      i += quote.length
+      for (;;) {
+        if (i >= text.length) error('Unterminated string')
+        if (text.startsWith(quote, i)) break
+        const ch = text[i]
+        if (ch === '\\' && i + 1 < text.length) {
+          const escaped = text[i + 1]
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped
+          i += 2
+          continue
+        }
+        if (ch === '\n') {
+          if (!triple) error('Newline in string')
+          line++
+          lineStart = i + 1
+        }
+        value += ch
+        i++
+      }
+      i += quote.length
+      push('string', value, start, startLine, startLineStart)
+    } else if (c === '@') {
+      const delimiter = text.startsWith('@@@', i) ? '@@@' : '@'
+      const end = text.indexOf(delimiter, i + delimiter.length)
+      if (end === -1) error('Unterminated asset path')
+      const value = text.slice(i + delimiter.length, end)
+      advanceTo(end + delimiter.length)
+      push('asset', value, start, startLine, startLineStart)
+    } else if (c === '<') {
+      const end = text.indexOf('>', i + 1)
+      if (end === -1) error('Unterminated path')
+      push('path', text.slice(i + 1, end), start, startLine, startLineStart)
+      advanceTo(end + 1)
+    } else if (/[0-9.+-]/.test(c)) {
+      const match = /[-+]?(inf|nan|(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?)/y
+      match.lastIndex = i
+      const m = match.exec(text)
+      if (!m) error(`Unexpected character '${c}'`)
+      i += m![0].length
+      push('number', m![0], start, startLine, startLineStart)
+    } else if (/[A-Za-z_]/.test(c)) {
+      const match = /[A-Za-z_][A-Za-z0-9_:.]*/y
+      match.lastIndex = i
+      const value = match.exec(text)![0]
+      i += value.length
+      push('ident', value, start, startLine, startLineStart)
+    } else if (PUNCTUATION.includes(c)) {
+      i++
+      push('punct', c, start, startLine, startLineStart)
+    } else {
+      error(`Unexpected character '${c}'`)
+    }
+  }
+
+  tokens.push({ type: 'eof', value: '', line, col: i - lineStart + 1 })
+  return tokens
+}
+
+class UsdaParser {
+  private pos = 0
+
+  constructor(private tokens: Token[]) {}
+
+  parseLayer(): UsdLayer {
+    const layer: UsdLayer = { metadata: {}, prims: [] }
+
+    if (this.isPunct('(')) {
+      layer.metadata = this.parseMetadata()
+    }
+
+    while (this.peek().type !== 'eof') {
+      if (this.acceptPunct(';')) continue
+      const t = this.peek()
+      if (t.type === 'ident' && SPECIFIERS.has(t.value)) {
+        layer.prims.push(this.parsePrim('/'))
+      } else {
+        this.fail(`Expected a prim definition, got '${t.value}'`)
+      }
+    }
+
+    return layer
+  }
+
+  private parsePrim(parentPath: string): UsdPrim {
+    const specifier = this.next().value as Specifier
+    const typeName = this.peek().type === 'ident' ? this.next().value : ''
+    const name = this.expect('string').value
+    const prim = createPrim(parentPath, name, specifier, typeName)
+
+    if (this.isPunct('(')) {
+      prim.metadata = this.parseMetadata()
+    }
+
+    this.expectPunct('{')
+    const variantSets = this.parsePrimContents(prim)
+    this.expectPunct('}')
+
+    this.applyVariantSelections(prim, variantSets)
+    return prim
+  }
+
+  // Prim body: child prims, properties, variant sets and reorder statements
+  private parsePrimContents(prim: UsdPrim): Map<string, Map<string, UsdPrim>> {
+    const variantSets = new Map<string, Map<string, UsdPrim>>()
+
+    while (!this.isPunct('}')) {
+      if (this.acceptPunct(';')) continue
+      const t = this.peek()
+      if (t.type !== 'ident') this.fail(`Unexpected '${t.value}' in prim body`)
+
+      if (SPECIFIERS.has(t.value)) {
+        prim.children.push(this.parsePrim(prim.path))
+      } else if (t.value === 'variantSet') {
+        this.next()
+        const setName = this.expect('string').value
+        variantSets.set(setName, this.parseVariantSet(prim))
+      } else if (t.value === 'reorder' && this.peek(1).type === 'ident' &&
+                 (this.peek(1).value === 'nameChildren' || this.peek(1).value === 'properties')) {
+        this.next()
+        this.next()
+        this.expectPunct('=')
+        this.parseValue()
+      } else {
+        this.parseProperty(prim)
+      }
+    }
+
+    return variantSets
+  }
+
+  private parseVariantSet(prim: UsdPrim): Map<string, UsdPrim> {
+    const variants = new Map<string, UsdPrim>()
+    this.expectPunct('=')
+    this.expectPunct('{')
+    while (!this.acceptPunct('}')) {
+      const variantName = this.expect('string').value
+      // A variant is a container for prim contents at the owning prim's path
+      const container = createPrim('/', variantName, 'over', '')
+      container.path = prim.path
+      if (this.isPunct('(')) {
+        container.metadata = this.parseMetadata()
+      }
+      this.expectPunct('{')
+      this.parsePrimContents(container)
+      this.expectPunct('}')
+      variants.set(variantName, container)
+    }
+    return variants
+  }
+
+  private applyVariantSelections(prim: UsdPrim, variantSets: Map<string, Map<string, UsdPrim>>): void {
+    const selections = prim.metadata.variants
+    if (!isObject(selections) || selections.kind !== 'dict') return
+
+    for (const [setName, selection] of Object.entries(selections.entries)) {
+      const variant = typeof selection === 'string' ? variantSets.get(setName)?.get(selection) : undefined
+      if (!variant) continue
+      // Prim opinions are stronger than variant opinions
+      for (const [name, attr] of variant.attributes) {
+        if (!prim.attributes.has(name)) prim.attributes.set(name, attr)
+      }
+      for (const [name, rel] of variant.relationships) {
+        if (!prim.relationships.has(name)) prim.relationships.set(name, rel)
+      }
+      for (const child of variant.children) {
+        if (!prim.children.some(c => c.name === child.name)) prim.children.push(child)
+      }
+      prim.metadata = { ...variant.metadata, ...prim.metadata }
+    }
+  }
+
+  private parseProperty(prim: UsdPrim): void {
+    const custom = this.acceptIdent('custom')
+    const listOp = LIST_OPS.has(this.peek().value) && this.peek(1).type === 'ident' ? this.next().value : undefined
+    const variability = VARIABILITY.has(this.peek().value) && this.peek(1).type === 'ident'
+      ? this.next().value as UsdAttribute['variability']
+      : undefined
+
+    if (this.acceptIdent('rel')) {
+      const { name } = this.parsePropertyName()
+      const rel = prim.relationships.get(name) ?? { name, targets: [], metadata: {} }
+      if (this.acceptPunct('=')) {
+        const value = this.parseValue()
+        const targets = (Array.isArray(value) ? value : [value])
+          .flatMap(v => isObject(v) && v.kind === 'path' ? [v.path] : [])
+        rel.targets = listOp === 'delete' ? rel.targets.filter(t => !targets.includes(t)) : [...rel.targets, ...targets]
+      }
+      if (this.isPunct('(')) {
+        rel.metadata = this.parseMetadata()
+      }
+      prim.relationships.set(name, rel)
+      return
+    }
+
+    let typeName = this.expect('ident').value
+    if (this.acceptPunct('[')) {
+      this.expectPunct(']')
+      typeName += '[]'
+    }
+
+    const { name, suffix } = this.parsePropertyName()
+    const attr: UsdAttribute = prim.attributes.get(name) ?? {
+      name,
+      typeName,
+      custom,
+      variability,
+      metadata: {},
+    }
+
+    if (this.acceptPunct('=')) {
+      const value = this.parseValue()
+      if (suffix === 'timeSamples') {
+        attr.timeSamples = isObject(value) && value.kind === 'timeSamples' ? value.samples : []
+      } else if (suffix === 'connect') {
+        attr.connections = (Array.isArray(value) ? value : [value])
+          .flatMap(v => isObject(v) && v.kind === 'path' ? [v.path] : [])
+      } else if (suffix !== 'spline') {
+        attr.value = value
+      }
+    }
+
+    if (this.isPunct('(')) {
+      attr.metadata = { ...attr.metadata, ...this.parseMetadata() }
+    }
+
+    prim.attributes.set(name, attr)
+  }
+
+  // Property names may carry a suffix: xformOp:translate.timeSamples, inputs:a.connect
+  private parsePropertyName(): { name: string; suffix?: string } {
+    const raw = this.expect('ident').value
+    const dot = raw.lastIndexOf('.')
+    if (dot > 0 && PROPERTY_SUFFIXES.has(raw.slice(dot + 1))) {
+      return { name: raw.slice(0, dot), suffix: raw.slice(dot + 1) }
+    }
+    return { name: raw }
+  }
+
+  // `( key = value ... )` blocks on layers, prims and properties
+  private parseMetadata(): Record<string, UsdValue> {
+    const metadata: Record<string, UsdValue> = {}
+    this.expectPunct('(')
+
+    while (!this.acceptPunct(')')) {
+      if (this.acceptPunct(';')) continue
+
+      // A bare string is the documentation entry
+      if (this.peek().type === 'string') {
+        metadata.doc = this.next().value
+        continue
+      }
+
+      const op = LIST_OPS.has(this.peek().value) && this.peek(1).type === 'ident'
+        ? this.next().value as ListOpKind
+        : undefined
+      const key = this.expect('ident').value
+      this.expectPunct('=')
+      const value = this.parseValue()
+
+      if (op) {
+        const existing = metadata[key]
+        const listOp = isObject(existing) && existing.kind === 'listOp'
+          ? existing
+          : { kind: 'listOp' as const, ops: {} }
+        listOp.ops[op] = Array.isArray(value) ? value : [value]
+        metadata[key] = listOp
+      } else {
+        metadata[key] = value
+      }
+    }
+
+    return metadata
+  }
+
+  private parseValue(): UsdValue {
+    const t = this.next()
+
+    switch (t.type) {
+      case 'number':
+        return parseNumber(t.value)
+      case 'string':
+        return t.value
+      case 'path':
+        return { kind: 'path', path: t.value }
+      case 'asset': {
+        const asset: UsdValue = { kind: 'asset', path: t.value }
+        if (this.peek().type === 'path') {
+          asset.primPath = this.next().value
+        }
+        // Optional layer offset on references: @a.usd@ (offset = 10; scale = 2)
+        if (this.isPunct('(') && this.peek(1).type === 'ident' &&
+            (this.peek(1).value === 'offset' || this.peek(1).value === 'scale') && this.peek(2).value === '=') {
+          this.parseMetadata()
+        }
+        return asset
+      }
+      case 'ident':
+        if (t.value === 'true') return true
+        if (t.value === 'false') return false
+        if (t.value === 'None') return null
+        if (t.value === 'inf' || t.value === 'nan') return parseNumber(t.value)
+        return t.value
+      case 'punct':
+        if (t.value === '(' || t.value === '[') {
+          const close = t.value === '(' ? ')' : ']'
+          const items: UsdValue[] = []
+          while (!this.acceptPunct(close)) {
+            items.push(this.parseValue())
+            if (!this.acceptPunct(',') && !this.isPunct(close)) {
+              this.fail(`Expected ',' or '${close}'`)
+            }
+          }
+          return items
+        }
+        if (t.value === '{') {
+          return this.parseDictionary()
+        }
+        break
+    }
+
+    return this.fail(`Unexpected '${t.value}' in value`, t)
+  }
+
+  // Dictionary (`{ string key = "value" }`) or time samples (`{ 0: (1, 2, 3) }`)
+  private parseDictionary(): UsdDictionary | UsdTimeSamples {
+    const entries: Record<string, UsdValue> = {}
+
+    if (this.peek().type === 'number' && this.peek(1).value === ':') {
+      const samples: [number, UsdValue][] = []
+      while (!this.acceptPunct('}')) {
+        const time = parseNumber(this.expect('number').value)
+        this.expectPunct(':')
+        samples.push([time, this.parseValue()])
+        this.acceptPunct(',')
+      }
+      return { kind: 'timeSamples', samples }
+    }
+
+    while (!this.acceptPunct('}')) {
+      if (this.acceptPunct(';') || this.acceptPunct(',')) continue
+      this.expect('ident') // Value type (string, double, dictionary, ...)
+      if (this.acceptPunct('[')) this.expectPunct(']')
+      const keyToken = this.next()
+      if (keyToken.type !== 'ident' && keyToken.type !== 'string') {
+        this.fail(`Expected dictionary key, got '${keyToken.value}'`, keyToken)
+      }
+      this.expectPunct('=')
+      entries[keyToken.value] = this.parseValue()
+    }
+
+    return { kind: 'dict', entries }
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)]
+  }
+
+  private next(): Token {
+    const t = this.peek()
+    if (t.type !== 'eof') this.pos++
+    return t
+  }
+
+  private isPunct(value: string): boolean {
+    const t = this.peek()
+    return t.type === 'punct' && t.value === value
+  }
+
+  private acceptPunct(value: string): boolean {
+    if (!this.isPunct(value)) return false
+    this.pos++
+    return true
+  }
+
+  private acceptIdent(value: string): boolean {
+    const t = this.peek()
+    if (t.type !== 'ident' || t.value !== value) return false
+    this.pos++
+    return true
+  }
+
+  private expectPunct(value: string): void {
+    if (!this.acceptPunct(value)) this.fail(`Expected '${value}', got '${this.peek().value || 'end of file'}'`)
+  }
+
+  private expect(type: TokenType): Token {
+    const t = this.peek()
+    if (t.type !== type) this.fail(`Expected ${type}, got '${t.value || 'end of file'}'`)
+    return this.next()
+  }
+
+  private fail(message: string, token: Token = this.peek()): never {
+    throw new UsdaParseError(message, token.line, token.col)
+  }
+}
+
+function parseNumber(text: string): number {
+  const lower = text.toLowerCase()
+  if (lower.endsWith('inf')) return lower.startsWith('-') ? -Infinity : Infinity
+  if (lower.endsWith('nan')) return NaN
+  return parseFloat(text)
+}
+
+function isObject(value: UsdValue): value is Exclude<UsdValue, null | boolean | number | string | UsdValue[]> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
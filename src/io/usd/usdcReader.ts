@@ -0,0 +1,823 @@
+import { decompressFromBuffer, decompressIntegers } from './compression'
+import { ListOpKind, listItems, Specifier, UsdAttribute, UsdLayer, UsdListOp, UsdPrim, UsdRelationship, UsdValue } from './layer'
+
+// Reader for USD's binary "crate" format (.usdc, and .usd files starting with
+// PXR-USDC). Builds the same UsdLayer the USDA parser produces. Supports crate
+// version 0.4.0 and later, which is what every USD release since 19.x writes.
+//
+// Layout: an 88-byte bootstrap (magic, version, TOC offset); a table of
+// contents of named sections; and the sections themselves:
+//   TOKENS    all tokens, nul-separated, LZ4 compressed
+//   STRINGS   string table as token indexes
+//   FIELDS    (token index, ValueRep) pairs
+//   FIELDSETS runs of field indexes, each terminated by -1
+//   PATHS     the path tree, encoded as parallel compressed int arrays
+//   SPECS     (path index, fieldset index, spec type) per spec
+// Values are ValueReps: small values inline, everything else at a file offset.
+
+const MAGIC = 'PXR-USDC'
+const BOOTSTRAP_SIZE = 88
+const MIN_COMPRESSED_ARRAY_SIZE = 16
+
+export class UsdcParseError extends Error {
+  constructor(message: string) {
+    super(`USDC: ${message}`)
+    this.name = 'UsdcParseError'
+  }
+}
+
+export function isUsdc(bytes: Uint8Array): boolean {
+  if (bytes.length < MAGIC.length) return false
+  for (let i = 0; i < MAGIC.length; i++) {
+    if (bytes[i] !== MAGIC.charCodeAt(i)) return false
+  }
+  return true
+}
+
+export function parseUsdc(bytes: Uint8Array): UsdLayer {
+  try {
+    return new CrateReader(bytes).read()
+  } catch (e) {
+    if (e instanceof RangeError) throw new UsdcParseError('unexpected end of file')
+    throw e
+  }
+}
+
+// Crate value type ids (crateDataTypes.h)
+const enum ValueType {
+  Bool = 1,
+  UChar = 2,
+  Int = 3,
+  UInt = 4,
+  Int64 = 5,
+  UInt64 = 6,
+  Half = 7,
+  Float = 8,
+  Double = 9,
+  String = 10,
+  Token = 11,
+  AssetPath = 12,
+  Matrix2d = 13,
+  Matrix3d = 14,
+  Matrix4d = 15,
+  Quatd = 16,
+  Quatf = 17,
+  Quath = 18,
+  Vec2d = 19,
+  Vec2f = 20,
+  Vec2h = 21,
+  Vec2i = 22,
+  Vec3d = 23,
+  Vec3f = 24,
+  Vec3h = 25,
+  Vec3i = 26,
+  Vec4d = 27,
+  Vec4f = 28,
+  Vec4h = 29,
+  Vec4i = 30,
+  Dictionary = 31,
+  TokenListOp = 32,
+  StringListOp = 33,
+  PathListOp = 34,
+  ReferenceListOp = 35,
+  IntListOp = 36,
+  Int64ListOp = 37,
+  UIntListOp = 38,
+  UInt64ListOp = 39,
+  PathVector = 40,
+  TokenVector = 41,
+  Specifier = 42,
+  Permission = 43,
+  Variability = 44,
+  VariantSelectionMap = 45,
+  TimeSamples = 46,
+  Payload = 47,
+  DoubleVector = 48,
+  StringVector = 50,
+  ValueBlock = 51,
+  PayloadListOp = 55,
+  TimeCode = 56,
+}
+
+const enum SpecType {
+  Attribute = 1,
+  Prim = 6,
+  PseudoRoot = 7,
+  Relationship = 8,
+}
+
+// Element type and component count of the vector/quaternion/matrix types
+const TUPLE_TYPES: Partial<Record<ValueType, [ValueType, number]>> = {
+  [ValueType.Vec2d]: [ValueType.Double, 2],
+  [ValueType.Vec2f]: [ValueType.Float, 2],
+  [ValueType.Vec2h]: [ValueType.Half, 2],
+  [ValueType.Vec2i]: [ValueType.Int, 2],
+  [ValueType.Vec3d]: [ValueType.Double, 3],
+  [ValueType.Vec3f]: [ValueType.Float, 3],
+  [ValueType.Vec3h]: [ValueType.Half, 3],
+  [ValueType.Vec3i]: [ValueType.Int, 3],
+  [ValueType.Vec4d]: [ValueType.Double, 4],
+  [ValueType.Vec4f]: [ValueType.Float, 4],
+  [ValueType.Vec4h]: [ValueType.Half, 4],
+  [ValueType.Vec4i]: [ValueType.Int, 4],
+  [ValueType.Quatd]: [ValueType.Double, 4],
+  [ValueType.Quatf]: [ValueType.Float, 4],
+  [ValueType.Quath]: [ValueType.Half, 4],
+}
+
+const MATRIX_SIZES: Partial<Record<ValueType, number>> = {
+  [ValueType.Matrix2d]: 2,
+  [ValueType.Matrix3d]: 3,
+  [ValueType.Matrix4d]: 4,
+}
+
+const SPECIFIERS: Specifier[] = ['def', 'over', 'class']
+const VARIABILITIES: NonNullable<UsdAttribute['variability']>[] = ['varying', 'uniform', 'config']
+
+// Fields that make up the spec structure rather than its metadata
+const STRUCTURAL_FIELDS = new Set([
+  'specifier', 'typeName', 'primChildren', 'properties', 'default', 'timeSamples',
+  'variability', 'custom', 'targetPaths', 'targetChildren', 'connectionPaths', 'connectionChildren',
+  'variantSetChildren', 'variantChildren',
+])
+
+// A ValueRep is a uint64, kept as two uint32 halves
+interface ValueRep {
+  lo: number
+  hi: number
+}
+
+interface Field {
+  name: string
+  rep: ValueRep
+}
+
+interface Section {
+  start: number
+  size: number
+}
+
+class CrateReader {
+  private view: DataView
+  private pos = 0
+  private version: [number, number, number] = [0, 0, 0]
+  private sections = new Map<string, Section>()
+  private tokens: string[] = []
+  private strings: string[] = []
+  private fields: Field[] = []
+  private fieldSets: Int32Array = new Int32Array(0)
+  private paths: string[] = []
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  read(): UsdLayer {
+    this.readBootstrap()
+    this.readTokens()
+    this.readStrings()
+    this.readFields()
+    this.readFieldSets()
+    this.readPaths()
+    return this.readSpecs()
+  }
+
+  // --- Structure ---
+
+  private readBootstrap(): void {
+    if (!isUsdc(this.bytes) || this.bytes.length < BOOTSTRAP_SIZE) {
+      throw new UsdcParseError('not a crate file')
+    }
+    this.version = [this.bytes[8], this.bytes[9], this.bytes[10]]
+    if (!this.versionAtLeast(0, 4, 0)) {
+      throw new UsdcParseError(`unsupported crate version ${this.version.join('.')} (0.4.0 or later required)`)
+    }
+
+    this.pos = this.readUint64At(16)
+    const count = this.uint64()
+    for (let i = 0; i < count; i++) {
+      const nameBytes = this.bytes.subarray(this.pos, this.pos + 16)
+      const end = nameBytes.indexOf(0)
+      const name = String.fromCharCode(...nameBytes.subarray(0, end === -1 ? 16 : end))
+      this.pos += 16
+      const start = this.uint64()
+      const size = this.uint64()
+      this.sections.set(name, { start, size })
+    }
+  }
+
+  private seekSection(name: string): boolean {
+    const section = this.sections.get(name)
+    if (!section) return false
+    this.pos = section.start
+    return true
+  }
+
+  private readTokens(): void {
+    if (!this.seekSection('TOKENS')) throw new UsdcParseError('missing TOKENS section')
+    const count = this.uint64()
+    const uncompressedSize = this.uint64()
+    const compressedSize = this.uint64()
+    const chars = decompressFromBuffer(this.take(compressedSize), uncompressedSize)
+
+    const decoder = new TextDecoder()
+    let start = 0
+    for (let i = 0; i < count; i++) {
+      let end = chars.indexOf(0, start)
+      if (end === -1) end = chars.length
+      this.tokens.push(decoder.decode(chars.subarray(start, end)))
+      start = end + 1
+    }
+  }
+
+  private readStrings(): void {
+    if (!this.seekSection('STRINGS')) return
+    const count = this.uint64()
+    for (let i = 0; i < count; i++) {
+      this.strings.push(this.token(this.uint32()))
+    }
+  }
+
+  private readFields(): void {
+    if (!this.seekSection('FIELDS')) throw new UsdcParseError('missing FIELDS section')
+    const count = this.uint64()
+    const tokenIndexes = this.compressedInts(count)
+    const repsSize = this.uint64()
+    const reps = decompressFromBuffer(this.take(repsSize), count * 8)
+    const repsView = new DataView(reps.buffer, reps.byteOffset, reps.byteLength)
+
+    for (let i = 0; i < count; i++) {
+      this.fields.push({
+        name: this.token(tokenIndexes[i]),
+        rep: { lo: repsView.getUint32(i * 8, true), hi: repsView.getUint32(i * 8 + 4, true) },
+      })
+    }
+  }
+
+  private readFieldSets(): void {
+    if (!this.seekSection('FIELDSETS')) throw new UsdcParseError('missing FIELDSETS section')
+    this.fieldSets = this.compressedInts(this.uint64())
+  }
+
+  private readPaths(): void {
+    if (!this.seekSection('PATHS')) throw new UsdcParseError('missing PATHS section')
+    this.paths = new Array(this.uint64()).fill('')
+    const count = this.uint64()
+    const pathIndexes = this.compressedInts(count)
+    const elementTokens = this.compressedInts(count)
+    const jumps = this.compressedInts(count)
+    if (count > 0) this.buildPaths(pathIndexes, elementTokens, jumps, 0, '')
+  }
+
+  // Paths are stored depth-first. Each entry's jump says whether it has a child
+  // (the next entry), a sibling (at +jump), both, or neither (leaf, last sibling).
+  private buildPaths(pathIndexes: Int32Array, elementTokens: Int32Array, jumps: Int32Array, index: number, parentPath: string): void {
+    let hasChild: boolean
+    let hasSibling: boolean
+    do {
+      const current = index++
+      let path: string
+      if (!parentPath) {
+        path = '/'
+        parentPath = path
+      } else {
+        const tokenIndex = elementTokens[current]
+        path = appendPathElement(parentPath, this.token(Math.abs(tokenIndex)), tokenIndex < 0)
+      }
+      this.paths[pathIndexes[current]] = path
+
+      const jump = jumps[current]
+      hasChild = jump > 0 || jump === -1
+      hasSibling = jump >= 0
+      if (hasChild) {
+        if (hasSibling) {
+          this.buildPaths(pathIndexes, elementTokens, jumps, current + jump, parentPath)
+        }
+        parentPath = path
+      }
+    } while (hasChild || hasSibling)
+  }
+
+  private readSpecs(): UsdLayer {
+    if (!this.seekSection('SPECS')) throw new UsdcParseError('missing SPECS section')
+    const count = this.uint64()
+    const pathIndexes = this.compressedInts(count)
+    const fieldSetIndexes = this.compressedInts(count)
+    const specTypes = this.compressedInts(count)
+
+    const layer: UsdLayer = { metadata: {}, prims: [] }
+    const prims = new Map<string, UsdPrim>()
+    const childOrder = new Map<string, string[]>()
+    const properties: { path: string; type: SpecType; fields: Map<string, UsdValue> }[] = []
+
+    for (let i = 0; i < count; i++) {
+      const path = this.paths[pathIndexes[i]]
+      // Variant contents and relationship/connection targets are not needed here
+      if (!path || path.includes('{') || path.includes('[')) continue
+
+      const fields = this.readFieldSet(fieldSetIndexes[i])
+      switch (specTypes[i]) {
+        case SpecType.PseudoRoot:
+          layer.metadata = metadataOf(fields)
+          childOrder.set('/', tokenList(fields.get('primChildren')))
+          break
+        case SpecType.Prim: {
+          const slash = path.lastIndexOf('/')
+          const specifier = fields.get('specifier')
+          prims.set(path, {
+            path,
+            name: path.slice(slash + 1),
+            specifier: typeof specifier === 'string' && SPECIFIERS.includes(specifier as Specifier) ? specifier as Specifier : 'def',
+            typeName: stringField(fields.get('typeName')),
+            metadata: metadataOf(fields),
+            attributes: new Map(),
+            relationships: new Map(),
+            children: [],
+          })
+          childOrder.set(path, tokenList(fields.get('primChildren')))
+          break
+        }
+        case SpecType.Attribute:
+        case SpecType.Relationship:
+          properties.push({ path, type: specTypes[i], fields })
+          break
+      }
+    }
+
+    for (const { path, type, fields } of properties) {
+      const dot = path.indexOf('.', path.lastIndexOf('/'))
+      const prim = prims.get(path.slice(0, dot))
+      if (!prim) continue
+      const name = path.slice(dot + 1)
+
+      if (type === SpecType.Relationship) {
+        const relationship: UsdRelationship = {
+          name,
+          targets: pathList(fields.get('targetPaths')),
+          metadata: metadataOf(fields),
+        }
+        prim.relationships.set(name, relationship)
+        continue
+      }
+
+      const variability = fields.get('variability')
+      const timeSamples = fields.get('timeSamples')
+      const connections = pathList(fields.get('connectionPaths'))
+      const attribute: UsdAttribute = {
+        name,
+        typeName: stringField(fields.get('typeName')),
+        custom: fields.get('custom') === true,
+        metadata: metadataOf(fields),
+      }
+      if (typeof variability === 'string' && variability !== 'varying') {
+        attribute.variability = variability as UsdAttribute['variability']
+      }
+      if (fields.has('default')) attribute.value = fields.get('default')
+      if (timeSamples && typeof timeSamples === 'object' && !Array.isArray(timeSamples) && timeSamples.kind === 'timeSamples') {
+        attribute.timeSamples = timeSamples.samples
+      }
+      if (connections.length > 0) attribute.connections = connections
+      prim.attributes.set(name, attribute)
+    }
+
+    // Link prims to their parents, in primChildren order when recorded
+    const roots: UsdPrim[] = []
+    for (const prim of prims.values()) {
+      const slash = prim.path.lastIndexOf('/')
+      const parent = slash === 0 ? undefined : prims.get(prim.path.slice(0, slash))
+      if (parent) {
+        parent.children.push(prim)
+      } else if (slash === 0) {
+        roots.push(prim)
+      }
+    }
+    layer.prims = orderByNames(roots, childOrder.get('/'))
+    for (const prim of prims.values()) {
+      prim.children = orderByNames(prim.children, childOrder.get(prim.path))
+    }
+
+    return layer
+  }
+
+  private readFieldSet(index: number): Map<string, UsdValue> {
+    const result = new Map<string, UsdValue>()
+    for (let i = index; i < this.fieldSets.length && this.fieldSets[i] !== -1; i++) {
+      const field = this.fields[this.fieldSets[i]]
+      if (!field) continue
+      try {
+        const value = this.unpack(field.rep)
+        if (value !== undefined) result.set(field.name, value)
+      } catch (e) {
+        if (e instanceof RangeError) throw e
+        console.warn(`[USDC] Skipping field "${field.name}":`, e instanceof Error ? e.message : e)
+      }
+    }
+    return result
+  }
+
+  // --- Values ---
+
+  private unpack(rep: ValueRep): UsdValue | undefined {
+    const type = (rep.hi >>> 16) & 0xff
+    const isArray = (rep.hi & 0x80000000) !== 0
+    const isInlined = (rep.hi & 0x40000000) !== 0
+    const isCompressed = (rep.hi & 0x20000000) !== 0
+    const payload = rep.lo + (rep.hi & 0xffff) * 2 ** 32
+
+    if (isInlined) return this.unpackInlined(type, rep.lo)
+
+    const saved = this.pos
+    try {
+      this.pos = payload
+      if (isArray) return payload === 0 ? [] : this.readArray(type, isCompressed)
+      return this.readValue(type)
+    } finally {
+      this.pos = saved
+    }
+  }
+
+  private unpackInlined(type: ValueType, bits: number): UsdValue | undefined {
+    const tuple = TUPLE_TYPES[type]
+    if (tuple) {
+      // Tuples of small integers: one int8 per component
+      const values = Array.from({ length: tuple[1] }, (_, i) => (bits << (24 - 8 * i)) >> 24)
+      return isQuaternion(type) ? toWxyz(values) : values
+    }
+
+    const matrixSize = MATRIX_SIZES[type]
+    if (matrixSize) {
+      // Diagonal matrices: the diagonal as int8s
+      return Array.from({ length: matrixSize }, (_, row) =>
+        Array.from({ length: matrixSize }, (_, col) => (row === col ? (bits << (24 - 8 * row)) >> 24 : 0)))
+    }
+
+    switch (type) {
+      case ValueType.Bool: return bits !== 0
+      case ValueType.UChar: return bits & 0xff
+      case ValueType.Int:
+      case ValueType.Int64: return bits | 0
+      case ValueType.UInt:
+      case ValueType.UInt64: return bits >>> 0
+      case ValueType.Half: return halfToFloat(bits & 0xffff)
+      // Doubles exactly representable as floats are inlined as float bits
+      case ValueType.Float:
+      case ValueType.Double:
+      case ValueType.TimeCode: return floatFromBits(bits)
+      case ValueType.String: return this.string(bits)
+      case ValueType.Token: return this.token(bits)
+      case ValueType.AssetPath: return { kind: 'asset', path: this.token(bits) }
+      case ValueType.Specifier: return SPECIFIERS[bits]
+      case ValueType.Variability: return VARIABILITIES[bits]
+      case ValueType.Permission: return bits === 0 ? 'public' : 'private'
+      case ValueType.Dictionary: return { kind: 'dict', entries: {} }
+      case ValueType.ValueBlock: return null
+      case ValueType.TokenVector:
+      case ValueType.StringVector:
+      case ValueType.PathVector:
+      case ValueType.DoubleVector: return []
+    }
+    return undefined
+  }
+
+  // Read one value of `type` at the cursor
+  private readValue(type: ValueType): UsdValue | undefined {
+    const tuple = TUPLE_TYPES[type]
+    if (tuple) {
+      const values = Array.from({ length: tuple[1] }, () => this.readNumber(tuple[0]))
+      // Stored imaginary part first; USD's text form (and UsdValue) is (w, x, y, z)
+      return isQuaternion(type) ? toWxyz(values) : values
+    }
+
+    const matrixSize = MATRIX_SIZES[type]
+    if (matrixSize) {
+      return Array.from({ length: matrixSize }, () =>
+        Array.from({ length: matrixSize }, () => this.float64()))
+    }
+
+    switch (type) {
+      case ValueType.Bool: return this.uint8() !== 0
+      case ValueType.UChar:
+      case ValueType.Int:
+      case ValueType.UInt:
+      case ValueType.Int64:
+      case ValueType.UInt64:
+      case ValueType.Half:
+      case ValueType.Float:
+      case ValueType.Double:
+      case ValueType.TimeCode:
+        return this.readNumber(type)
+      case ValueType.String: return this.string(this.uint32())
+      case ValueType.Token: return this.token(this.uint32())
+      case ValueType.AssetPath: return { kind: 'asset', path: this.token(this.uint32()) }
+      case ValueType.Specifier: return SPECIFIERS[this.uint32()]
+      case ValueType.Variability: return VARIABILITIES[this.uint32()]
+      case ValueType.Permission: return this.uint32() === 0 ? 'public' : 'private'
+      case ValueType.ValueBlock: return null
+      case ValueType.Dictionary: return this.readDictionary()
+      case ValueType.VariantSelectionMap: {
+        const entries: Record<string, UsdValue> = {}
+        const count = this.uint64()
+        for (let i = 0; i < count; i++) {
+          const key = this.string(this.uint32())
+          entries[key] = this.string(this.uint32())
+        }
+        return { kind: 'dict', entries }
+      }
+      case ValueType.TokenVector: return this.readVector(() => this.token(this.uint32()))
+      case ValueType.StringVector: return this.readVector(() => this.string(this.uint32()))
+      case ValueType.PathVector: return this.readVector(() => ({ kind: 'path', path: this.path(this.uint32()) }))
+      case ValueType.DoubleVector: return this.readVector(() => this.float64())
+      case ValueType.TokenListOp: return this.readListOp(() => this.token(this.uint32()))
+      case ValueType.StringListOp: return this.readListOp(() => this.string(this.uint32()))
+      case ValueType.PathListOp: return this.readListOp(() => ({ kind: 'path', path: this.path(this.uint32()) }))
+      case ValueType.ReferenceListOp: return this.readListOp(() => this.readReference())
+      case ValueType.PayloadListOp: return this.readListOp(() => this.readPayload())
+      case ValueType.Payload: return this.readPayload()
+      case ValueType.IntListOp: return this.readListOp(() => this.int32())
+      case ValueType.UIntListOp: return this.readListOp(() => this.uint32())
+      case ValueType.Int64ListOp: return this.readListOp(() => this.int64())
+      case ValueType.UInt64ListOp: return this.readListOp(() => this.uint64())
+      case ValueType.TimeSamples: return this.readTimeSamples()
+    }
+    throw new Error(`unsupported value type ${type}`)
+  }
+
+  private readNumber(type: ValueType): number {
+    switch (type) {
+      case ValueType.UChar: return this.uint8()
+      case ValueType.Int: return this.int32()
+      case ValueType.UInt: return this.uint32()
+      case ValueType.Int64: return this.int64()
+      case ValueType.UInt64: return this.uint64()
+      case ValueType.Half: return halfToFloat(this.uint16())
+      case ValueType.Float: return this.float32()
+      case ValueType.Double:
+      case ValueType.TimeCode: return this.float64()
+    }
+    throw new Error(`value type ${type} is not numeric`)
+  }
+
+  private readArray(type: ValueType, isCompressed: boolean): UsdValue[] {
+    const size = this.versionAtLeast(0, 7, 0) ? this.uint64() : this.uint32()
+
+    if (isCompressed && size >= MIN_COMPRESSED_ARRAY_SIZE) {
+      switch (type) {
+        case ValueType.Int:
+          return Array.from(this.compressedInts(size))
+        case ValueType.UInt:
+          return Array.from(this.compressedInts(size), v => v >>> 0)
+        case ValueType.Half:
+        case ValueType.Float:
+        case ValueType.Double: {
+          // 'i': values that are all integers; 't': a lookup table plus indexes
+          const code = String.fromCharCode(this.uint8())
+          if (code === 'i') return Array.from(this.compressedInts(size))
+          if (code === 't') {
+            const lutSize = this.uint32()
+            const lut = Array.from({ length: lutSize }, () => this.readNumber(type))
+            return Array.from(this.compressedInts(size), i => lut[i >>> 0])
+          }
+          throw new Error(`unknown float array encoding "${code}"`)
+        }
+      }
+      throw new Error(`unsupported compressed array of type ${type}`)
+    }
+
+    const values: UsdValue[] = []
+    for (let i = 0; i < size; i++) {
+      const value = this.readValue(type)
+      if (value === undefined) throw new Error(`unsupported array of type ${type}`)
+      values.push(value)
+    }
+    return values
+  }
+
+  private readVector(readItem: () => UsdValue): UsdValue[] {
+    const count = this.uint64()
+    return Array.from({ length: count }, readItem)
+  }
+
+  private readListOp(readItem: () => UsdValue): UsdListOp {
+    const header = this.uint8()
+    const ops: UsdListOp['ops'] = {}
+    // Header bits: 1 explicit, 2 explicit items, 4 added, 8 deleted, 16 ordered,
+    // 32 prepended, 64 appended. Lists follow in this fixed order:
+    const order: [number, ListOpKind][] = [[2, 'explicit'], [4, 'add'], [32, 'prepend'], [64, 'append'], [8, 'delete'], [16, 'reorder']]
+    if (header & 1) ops.explicit = []
+    for (const [bit, kind] of order) {
+      if (header & bit) ops[kind] = this.readVector(readItem)
+    }
+    return { kind: 'listOp', ops }
+  }
+
+  private readReference(): UsdValue {
+    const assetPath = this.string(this.uint32())
+    const primPath = this.path(this.uint32())
+    this.pos += 16 // Layer offset (offset, scale)
+    this.readDictionary() // customData
+    return primPath ? { kind: 'asset', path: assetPath, primPath } : { kind: 'asset', path: assetPath }
+  }
+
+  private readPayload(): UsdValue {
+    const assetPath = this.string(this.uint32())
+    const primPath = this.path(this.uint32())
+    if (this.versionAtLeast(0, 8, 0)) this.pos += 16 // Layer offset
+    return primPath ? { kind: 'asset', path: assetPath, primPath } : { kind: 'asset', path: assetPath }
+  }
+
+  private readDictionary(): UsdValue {
+    const entries: Record<string, UsdValue> = {}
+    const count = this.uint64()
+    for (let i = 0; i < count; i++) {
+      const key = this.string(this.uint32())
+      const value = this.readNested()
+      if (value !== undefined) entries[key] = value
+    }
+    return { kind: 'dict', entries }
+  }
+
+  // Nested values are written as an int64 offset (relative to itself) to their
+  // ValueRep; reading continues after that rep.
+  private readNested(): UsdValue | undefined {
+    this.seekRelative()
+    const rep = this.valueRep()
+    return this.unpack(rep)
+  }
+
+  private readTimeSamples(): UsdValue {
+    this.seekRelative()
+    const times = this.unpack(this.valueRep())
+
+    this.seekRelative()
+    const count = this.uint64()
+    const values: (UsdValue | undefined)[] = []
+    for (let i = 0; i < count; i++) {
+      values.push(this.unpack(this.valueRep()))
+    }
+
+    const samples: [number, UsdValue][] = []
+    if (Array.isArray(times)) {
+      times.forEach((time, i) => {
+        const value = values[i]
+        if (typeof time === 'number' && value !== undefined) samples.push([time, value])
+      })
+    }
+    return { kind: 'timeSamples', samples }
+  }
+
+  // --- Primitives ---
+
+  private versionAtLeast(major: number, minor: number, patch: number): boolean {
+    const [a, b, c] = this.version
+    return a !== major ? a > major : b !== minor ? b > minor : c >= patch
+  }
+
+  private token(index: number): string {
+    const token = this.tokens[index]
+    if (token === undefined) throw new UsdcParseError(`token index ${index} out of range`)
+    return token
+  }
+
+  private string(index: number): string {
+    const value = this.strings[index]
+    if (value === undefined) throw new UsdcParseError(`string index ${index} out of range`)
+    return value
+  }
+
+  private path(index: number): string {
+    // Empty paths (e.g. a reference without a prim path) use an out-of-range index
+    return this.paths[index] ?? ''
+  }
+
+  private take(size: number): Uint8Array {
+    if (this.pos + size > this.bytes.length) throw new RangeError('read past end')
+    const slice = this.bytes.subarray(this.pos, this.pos + size)
+    this.pos += size
+    return slice
+  }
+
+  private compressedInts(count: number): Int32Array {
+    const compressedSize = this.uint64()
+    return decompressIntegers(this.take(compressedSize), count)
+  }
+
+  private seekRelative(): void {
+    const start = this.pos
+    this.pos = start + this.int64()
+  }
+
+  private valueRep(): ValueRep {
+    const lo = this.uint32()
+    const hi = this.uint32()
+    return { lo, hi }
+  }
+
+  private readUint64At(offset: number): number {
+    return this.view.getUint32(offset + 4, true) * 2 ** 32 + this.view.getUint32(offset, true)
+  }
+
+  private uint8(): number {
+    return this.view.getUint8(this.pos++)
+  }
+
+  private uint16(): number {
+    const value = this.view.getUint16(this.pos, true)
+    this.pos += 2
+    return value
+  }
+
+  private int32(): number {
+    const value = this.view.getInt32(this.pos, true)
+    this.pos += 4
+    return value
+  }
+
+  private uint32(): number {
+    const value = this.view.getUint32(this.pos, true)
+    this.pos += 4
+    return value
+  }
+
+  private int64(): number {
+    const value = this.view.getInt32(this.pos + 4, true) * 2 ** 32 + this.view.getUint32(this.pos, true)
+    this.pos += 8
+    return value
+  }
+
+  private uint64(): number {
+    const value = this.readUint64At(this.pos)
+    this.pos += 8
+    return value
+  }
+
+  private float32(): number {
+    const value = this.view.getFloat32(this.pos, true)
+    this.pos += 4
+    return value
+  }
+
+  private float64(): number {
+    const value = this.view.getFloat64(this.pos, true)
+    this.pos += 8
+    return value
+  }
+}
+
+function appendPathElement(parent: string, element: string, isProperty: boolean): string {
+  if (isProperty) return `${parent}.${element}`
+  // Variant selections ({set=variant}) attach without a separator
+  if (element.startsWith('{')) return `${parent}${element}`
+  return parent === '/' ? `/${element}` : `${parent}/${element}`
+}
+
+function metadataOf(fields: Map<string, UsdValue>): Record<string, UsdValue> {
+  const metadata: Record<string, UsdValue> = {}
+  for (const [name, value] of fields) {
+    if (!STRUCTURAL_FIELDS.has(name)) metadata[name] = value
+  }
+  return metadata
+}
+
+function stringField(value: UsdValue | undefined): string {
+  return typeof value === 'string' ? value : ''
+}
+
+function tokenList(value: UsdValue | undefined): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : []
+}
+
+function pathList(value: UsdValue | undefined): string[] {
+  return listItems(value).flatMap(item =>
+    item && typeof item === 'object' && !Array.isArray(item) && item.kind === 'path' ? [item.path] : [])
+}
+
+// Sort prims by a recorded name order; unlisted prims keep their spec order at the end
+function orderByNames(prims: UsdPrim[], names: string[] | undefined): UsdPrim[] {
+  if (!names || names.length === 0) return prims
+  const rank = new Map(names.map((name, i) => [name, i]))
+  return [...prims].sort((a, b) => (rank.get(a.name) ?? names.length) - (rank.get(b.name) ?? names.length))
+}
+
+function isQuaternion(type: ValueType): boolean {
+  return type === ValueType.Quatd || type === ValueType.Quatf || type === ValueType.Quath
+}
+
+function toWxyz([x, y, z, w]: number[]): number[] {
+  return [w, x, y, z]
+}
+
+const floatScratch = new DataView(new ArrayBuffer(4))
+
+function floatFromBits(bits: number): number {
+  floatScratch.setUint32(0, bits >>> 0, true)
+  return floatScratch.getFloat32(0, true)
+}
+
+function halfToFloat(bits: number): number {
+  const sign = bits & 0x8000 ? -1 : 1
+  const exponent = (bits >> 10) & 0x1f
+  const fraction = bits & 0x3ff
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024)
+  if (exponent === 31) return fraction ? NaN : sign * Infinity
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024)
+}
@@ -0,0 +1,127 @@
+import * as THREE from 'three'
+import { attributeValue, getPrimChain, UsdLayer, UsdPrim, UsdValue } from './layer'
+
+// Matrices here use Three.js conventions (column vectors), in the layer's own
+// up-axis frame. USD stores matrices row-major for row vectors, which is the
+// same memory layout as Three.js' column-major storage, so no transpose is needed.
+
+const DEG = Math.PI / 180
+const AXES: Record<string, THREE.Vector3> = {
+  X: new THREE.Vector3(1, 0, 0),
+  Y: new THREE.Vector3(0, 1, 0),
+  Z: new THREE.Vector3(0, 0, 1),
+}
+
+export interface LocalTransform {
+  matrix: THREE.Matrix4
+  resetXformStack: boolean // Prim ignores its ancestors' transforms
+}
+
+// Local transform of a prim from its xform ops, applied in xformOpOrder.
+// Prims without xformOpOrder fall back to their xformOp attributes in
+// declaration order (hand-written files often omit it).
+export function computeLocalTransform(prim: UsdPrim): LocalTransform {
+  const matrix = new THREE.Matrix4()
+  let resetXformStack = false
+
+  const orderValue = attributeValue(prim, 'xformOpOrder')
+  const order = Array.isArray(orderValue)
+    ? orderValue.filter((v): v is string => typeof v === 'string')
+    : [...prim.attributes.keys()].filter(name => name.startsWith('xformOp:'))
+
+  for (const entry of order) {
+    if (entry === '!resetXformStack!') {
+      resetXformStack = true
+      matrix.identity()
+      continue
+    }
+
+    const inverse = entry.startsWith('!invert!')
+    const attrName = inverse ? entry.slice('!invert!'.length) : entry
+    const opType = attrName.split(':')[1]
+    const value = attributeValue(prim, attrName)
+    if (!opType || value === undefined) continue
+
+    const opMatrix = xformOpMatrix(opType, value)
+    if (!opMatrix) {
+      console.warn(`[USD] Unsupported xform op "${attrName}" on ${prim.path}`)
+      continue
+    }
+    if (inverse) opMatrix.invert()
+
+    // Ops listed first are outermost: M = op0 * op1 * ... * opN
+    matrix.multiply(opMatrix)
+  }
+
+  return { matrix, resetXformStack }
+}
+
+// World transform of the prim at `path`, honoring !resetXformStack!
+export function computeWorldTransform(layer: UsdLayer, path: string): THREE.Matrix4 {
+  const world = new THREE.Matrix4()
+  for (const prim of getPrimChain(layer, path)) {
+    const local = computeLocalTransform(prim)
+    if (local.resetXformStack) {
+      world.copy(local.matrix)
+    } else {
+      world.multiply(local.matrix)
+    }
+  }
+  return world
+}
+
+function xformOpMatrix(opType: string, value: UsdValue): THREE.Matrix4 | null {
+  switch (opType) {
+    case 'translate': {
+      const v = toNumbers(value, 3)
+      return v && new THREE.Matrix4().makeTranslation(v[0], v[1], v[2])
+    }
+    case 'scale': {
+      if (typeof value === 'number') return new THREE.Matrix4().makeScale(value, value, value)
+      const v = toNumbers(value, 3)
+      return v && new THREE.Matrix4().makeScale(v[0], v[1], v[2])
+    }
+    case 'orient': {
+      // USD quaternions are written (w, x, y, z)
+      const q = toNumbers(value, 4)
+      return q && new THREE.Matrix4().makeRotationFromQuaternion(new THREE.Quaternion(q[1], q[2], q[3], q[0]).normalize())
+    }
+    case 'transform': {
+      const m = toNumbers(value, 16)
+      return m && new THREE.Matrix4().fromArray(m)
+    }
+    case 'rotateX':
+    case 'rotateY':
+    case 'rotateZ': {
+      if (typeof value !== 'number') return null
+      return new THREE.Matrix4().makeRotationAxis(AXES[opType[6]], value * DEG)
+    }
+  }
+
+  // rotateXYZ, rotateZYX, ...: angles are always given as (x, y, z) in degrees;
+  // the op name is the order they are applied in (first letter applied first)
+  const match = /^rotate([XYZ]{3})$/.exec(opType)
+  if (match) {
+    const angles = toNumbers(value, 3)
+    if (!angles) return null
+    const matrix = new THREE.Matrix4()
+    for (const axis of match[1]) {
+      const angle = angles['XYZ'.indexOf(axis)] * DEG
+      matrix.premultiply(new THREE.Matrix4().makeRotationAxis(AXES[axis], angle))
+    }
+    return matrix
+  }
+
+  return null
+}
+
+// Flatten tuples/matrices into `count` numbers, or null when the shape is wrong
+function toNumbers(value: UsdValue, count: number): number[] | null {
+  const flat: number[] = []
+  const visit = (v: UsdValue) => {
+    if (typeof v === 'number') flat.push(v)
+    else if (Array.isArray(v)) v.forEach(visit)
+  }
+  visit(value)
+  return flat.length === count ? flat : null
+}
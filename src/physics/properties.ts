@@ -0,0 +1,58 @@
+// Per-asset UsdPhysics properties. Every field is optional: unset values are
+// not exported, so the simulator's defaults apply.
+
+export type CollisionApproximation = 'convexHull' | 'convexDecomposition' | 'mesh' | 'boundingBox'
+
+export interface PhysicsProperties {
+  mass?: number // kg; takes precedence over density (UsdPhysics semantics)
+  density?: number // kg/m^3
+  staticFriction?: number
+  dynamicFriction?: number
+  restitution?: number // 0 (no bounce) to 1 (elastic)
+  collisionApproximation?: CollisionApproximation
+}
+
+export const COLLISION_APPROXIMATIONS: { value: CollisionApproximation; label: string }[] = [
+  { value: 'convexHull', label: 'Convex Hull' },
+  { value: 'convexDecomposition', label: 'Convex Decomposition' },
+  { value: 'mesh', label: 'Triangle Mesh' },
+  { value: 'boundingBox', label: 'Bounding Box' },
+]
+
+// physics:approximation tokens of UsdPhysicsMeshCollisionAPI
+export const USD_APPROXIMATION_TOKENS: Record<CollisionApproximation, string> = {
+  convexHull: 'convexHull',
+  convexDecomposition: 'convexDecomposition',
+  mesh: 'none',
+  boundingBox: 'boundingCube',
+}
+
+const NUMERIC_KEYS = ['mass', 'density', 'staticFriction', 'dynamicFriction', 'restitution'] as const
+
+export function hasPhysicsProperties(physics: PhysicsProperties | undefined): physics is PhysicsProperties {
+  return !!physics && Object.values(physics).some(v => v !== undefined)
+}
+
+// Keep only known, valid fields (scene.json is user-editable)
+export function sanitizePhysics(raw: unknown): PhysicsProperties | undefined {
+  if (!raw || typeof raw !== 'object') return undefined
+  const source = raw as Record<string, unknown>
+  const physics: PhysicsProperties = {}
+
+  for (const key of NUMERIC_KEYS) {
+    const value = source[key]
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      physics[key] = value
+    }
+  }
+  if (physics.restitution !== undefined) {
+    physics.restitution = Math.min(physics.restitution, 1)
+  }
+
+  const approximation = source.collisionApproximation
+  if (COLLISION_APPROXIMATIONS.some(a => a.value === approximation)) {
+    physics.collisionApproximation = approximation as CollisionApproximation
+  }
+
+  return hasPhysicsProperties(physics) ? physics : undefined
+}
@@ -0,0 +1,221 @@
+import * as THREE from 'three'
+import type RAPIER from '@dimforge/rapier3d-compat'
+import { LoadedAsset } from '../scene/AssetLoader'
+import { SavedPose } from '../hooks/useScene'
+import { createSampleTarget } from '../randomization/sampler'
+import { CollisionApproximation } from './properties'
+
+// Rigid-body simulation with Rapier (WebAssembly, loaded on first use) to
+// settle a scene and to check whether a condition is stable. Exportable assets
+// with gravity disabled, and locked ones, are fixed at their current pose; the
+// others are dynamic. Colliders follow each asset's collisionApproximation:
+// convex hulls of its meshes (the default for dynamic assets, also used for
+// convexDecomposition), the triangle meshes themselves (the default for fixed
+// assets; dynamic ones get hulls instead, as in PhysX) or the bounding box.
+// Assets without geometry (headless loads) always use their bounds box.
+
+export interface SimulationOptions {
+  duration?: number // Simulated seconds; stops earlier once every dynamic asset sleeps
+  distanceTolerance?: number // Largest movement of a stable asset (m)
+  angleTolerance?: number // Largest rotation of a stable asset (degrees)
+}
+
+export interface AssetMotion {
+  assetId: string
+  distance: number // m
+  angle: number // degrees
+  stable: boolean // Within both tolerances
+}
+
+export interface SimulationResult {
+  poses: Map<string, SavedPose> // Final poses of the dynamic assets
+  motions: AssetMotion[] // Dynamic assets, in order
+  stable: boolean // No asset moved more than the tolerances
+}
+
+export const DEFAULT_SIMULATION_SECONDS = 3
+export const DEFAULT_DISTANCE_TOLERANCE = 0.02
+export const DEFAULT_ANGLE_TOLERANCE = 10
+
+const TIMESTEP = 1 / 60
+const GRAVITY = { x: 0, y: -9.81, z: 0 }
+// Used when neither mass nor density is set (water, like PhysX)
+const DEFAULT_DENSITY = 1000
+const DEFAULT_FRICTION = 0.5
+
+type Rapier = typeof RAPIER
+
+type CollisionShape =
+  | { kind: 'hull'; points: Float32Array }
+  | { kind: 'mesh'; vertices: Float32Array; indices: Uint32Array }
+  | { kind: 'box'; center: THREE.Vector3; halfExtents: THREE.Vector3 }
+
+let enginePromise: Promise<Rapier> | null = null
+
+function loadEngine(): Promise<Rapier> {
+  if (!enginePromise) {
+    enginePromise = import('@dimforge/rapier3d-compat').then(async module => {
+      await module.default.init()
+      return module.default
+    })
+    // Let a failed load be retried
+    enginePromise.catch(() => { enginePromise = null })
+  }
+  return enginePromise
+}
+
+// A simulator for one scene: colliders are built once from the assets' current
+// geometry, then each run starts the dynamic assets from the given poses
+export interface SceneSimulator {
+  run(poses: Map<string, SavedPose>, options?: SimulationOptions): SimulationResult
+}
+
+export async function createSceneSimulator(assets: LoadedAsset[]): Promise<SceneSimulator> {
+  const rapier = await loadEngine()
+  const exportable = assets.filter(a => !a.excludeFromExport)
+  const bodies = exportable.map(asset => {
+    const fixed = !!asset.disableGravity || !!asset.locked
+    return {
+      asset,
+      fixed,
+      shapes: collisionShapes(asset, fixed),
+      pose: { position: asset.object.position.clone(), quaternion: asset.object.quaternion.clone() },
+    }
+  })
+
+  return {
+    run(poses, options = {}) {
+      const {
+        duration = DEFAULT_SIMULATION_SECONDS,
+        distanceTolerance = DEFAULT_DISTANCE_TOLERANCE,
+        angleTolerance = DEFAULT_ANGLE_TOLERANCE,
+      } = options
+
+      const world = new rapier.World(GRAVITY)
+      world.timestep = TIMESTEP
+      try {
+        const dynamic = bodies.filter(b => !b.fixed).map(b => {
+          const start = poses.get(b.asset.id) ?? b.pose
+          return { id: b.asset.id, start, body: addBody(rapier, world, b.asset, b.shapes, start, false) }
+        })
+        for (const b of bodies.filter(b => b.fixed)) {
+          addBody(rapier, world, b.asset, b.shapes, b.pose, true)
+        }
+
+        const steps = Math.ceil(duration / TIMESTEP)
+        for (let step = 0; step < steps; step++) {
+          world.step()
+          if (dynamic.every(d => d.body.isSleeping())) break
+        }
+
+        const result = new Map<string, SavedPose>()
+        const motions = dynamic.map(({ id, start, body }) => {
+          const t = body.translation()
+          const r = body.rotation()
+          const pose = { position: new THREE.Vector3(t.x, t.y, t.z), quaternion: new THREE.Quaternion(r.x, r.y, r.z, r.w) }
+          result.set(id, pose)
+          const distance = pose.position.distanceTo(start.position)
+          const angle = THREE.MathUtils.radToDeg(pose.quaternion.angleTo(start.quaternion))
+          return { assetId: id, distance, angle, stable: distance <= distanceTolerance && angle <= angleTolerance }
+        })
+        return { poses: result, motions, stable: motions.every(m => m.stable) }
+      } finally {
+        world.free()
+      }
+    },
+  }
+}
+
+// "bowl moved 0.12 m, turned 35°"
+export function describeMotion(motion: AssetMotion, name: string): string {
+  return `${name} moved ${motion.distance.toFixed(3)} m, turned ${Math.round(motion.angle)}°`
+}
+
+function addBody(
+  rapier: Rapier,
+  world: RAPIER.World,
+  asset: LoadedAsset,
+  shapes: CollisionShape[],
+  pose: SavedPose,
+  fixed: boolean
+): RAPIER.RigidBody {
+  const { position: p, quaternion: q } = pose
+  const body = world.createRigidBody(
+    (fixed ? rapier.RigidBodyDesc.fixed() : rapier.RigidBodyDesc.dynamic())
+      .setTranslation(p.x, p.y, p.z)
+      .setRotation({ x: q.x, y: q.y, z: q.z, w: q.w })
+  )
+
+  const physics = asset.physics ?? {}
+  for (const shape of shapes) {
+    const desc = colliderDesc(rapier, shape)
+    if (!desc) continue
+    // Mass is spread evenly over the colliders; it takes precedence over density
+    if (physics.mass !== undefined) {
+      desc.setMass(physics.mass / shapes.length)
+    } else {
+      desc.setDensity(physics.density ?? DEFAULT_DENSITY)
+    }
+    desc.setFriction(physics.dynamicFriction ?? physics.staticFriction ?? DEFAULT_FRICTION)
+    desc.setRestitution(physics.restitution ?? 0)
+    world.createCollider(desc, body)
+  }
+  return body
+}
+
+function colliderDesc(rapier: Rapier, shape: CollisionShape): RAPIER.ColliderDesc | null {
+  switch (shape.kind) {
+    case 'hull':
+      return rapier.ColliderDesc.convexHull(shape.points)
+    case 'mesh':
+      return rapier.ColliderDesc.trimesh(shape.vertices, shape.indices)
+    case 'box':
+      return rapier.ColliderDesc.cuboid(shape.halfExtents.x, shape.halfExtents.y, shape.halfExtents.z)
+        .setTranslation(shape.center.x, shape.center.y, shape.center.z)
+  }
+}
+
+// Collision geometry in the asset's frame (position and rotation removed,
+// scale applied)
+function collisionShapes(asset: LoadedAsset, fixed: boolean): CollisionShape[] {
+  const { localBounds } = createSampleTarget(asset, { position: asset.object.position, quaternion: asset.object.quaternion })
+  const boxShape = (): CollisionShape[] => localBounds.isEmpty() ? [] : [{
+    kind: 'box',
+    center: localBounds.getCenter(new THREE.Vector3()),
+    halfExtents: localBounds.getSize(new THREE.Vector3()).multiplyScalar(0.5),
+  }]
+
+  const approximation: CollisionApproximation = asset.physics?.collisionApproximation ?? (fixed ? 'mesh' : 'convexHull')
+  if (approximation === 'boundingBox') return boxShape()
+
+  // Measuring the bounds moved the object to the origin and back
+  asset.object.updateMatrixWorld(true)
+  const toAssetFrame = new THREE.Matrix4()
+    .compose(asset.object.position, asset.object.quaternion, new THREE.Vector3(1, 1, 1))
+    .invert()
+
+  const shapes: CollisionShape[] = []
+  asset.object.traverse(child => {
+    const mesh = child as THREE.Mesh
+    const position = mesh.isMesh ? mesh.geometry.getAttribute('position') : undefined
+    if (!position || position.count < 4) return
+
+    const matrix = toAssetFrame.clone().multiply(mesh.matrixWorld)
+    const vertices = new Float32Array(position.count * 3)
+    const vertex = new THREE.Vector3()
+    for (let i = 0; i < position.count; i++) {
+      vertex.fromBufferAttribute(position, i).applyMatrix4(matrix).toArray(vertices, i * 3)
+    }
+
+    if (approximation === 'mesh' && fixed) {
+      const index = mesh.geometry.getIndex()
+      const indices = index
+        ? Uint32Array.from(index.array)
+        : Uint32Array.from({ length: position.count }, (_, i) => i)
+      shapes.push({ kind: 'mesh', vertices, indices })
+    } else {
+      shapes.push({ kind: 'hull', points: vertices })
+    }
+  })
+  return shapes.length > 0 ? shapes : boxShape()
+}
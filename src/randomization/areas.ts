@@ -0,0 +1,454 @@
+import * as THREE from 'three'
+import { CircleSpawnBounds, PolygonSpawnBounds, RectangleSpawnBounds, SpawnBounds } from '../hooks/useScene'
+
+// Geometry of spawn areas on the table plane: rotated rectangles, circles and
+// annuli, and simple polygons. All coordinates are Z-up table coordinates.
+
+export type SpawnShape = 'rectangle' | 'circle' | 'polygon'
+
+export interface AreaPoint {
+  x: number
+  y: number
+}
+
+// Axis-aligned box around an area
+export interface AreaExtent {
+  minX: number
+  maxX: number
+  minY: number
+  maxY: number
+}
+
+// Tolerance when comparing areas, e.g. one read back from a mesh with the state
+const AREA_EPSILON = 1e-9
+// Vertices of the polygon made from a circle
+const CIRCLE_POLYGON_VERTICES = 12
+
+interface Triangulation {
+  triangles: [AreaPoint, AreaPoint, AreaPoint][]
+  cumulativeAreas: number[]
+}
+
+// Sampling triangulates polygons once per bounds object
+const triangulations = new WeakMap<PolygonSpawnBounds, Triangulation>()
+
+export function areaShape(bounds: SpawnBounds): SpawnShape {
+  return bounds.shape ?? 'rectangle'
+}
+
+// Corners of a rectangle after rotation, counter-clockwise from (minX, minY)
+export function rectangleCorners(bounds: RectangleSpawnBounds): AreaPoint[] {
+  const center = { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 }
+  return [
+    { x: bounds.minX, y: bounds.minY },
+    { x: bounds.maxX, y: bounds.minY },
+    { x: bounds.maxX, y: bounds.maxY },
+    { x: bounds.minX, y: bounds.maxY },
+  ].map(corner => rotateAbout(corner, center, bounds.rotation ?? 0))
+}
+
+// Center of rotation for rectangles, center for circles, centroid for polygons
+export function areaCenter(bounds: SpawnBounds): AreaPoint {
+  switch (bounds.shape) {
+    case 'circle':
+      return { x: bounds.centerX, y: bounds.centerY }
+    case 'polygon':
+      return polygonCentroid(toPoints(bounds.points))
+    default:
+      return { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 }
+  }
+}
+
+export function areaExtent(bounds: SpawnBounds): AreaExtent {
+  switch (bounds.shape) {
+    case 'circle':
+      return {
+        minX: bounds.centerX - bounds.radius,
+        maxX: bounds.centerX + bounds.radius,
+        minY: bounds.centerY - bounds.radius,
+        maxY: bounds.centerY + bounds.radius,
+      }
+    case 'polygon':
+      return extentOf(toPoints(bounds.points))
+    default:
+      return bounds.rotation ? extentOf(rectangleCorners(bounds)) : bounds
+  }
+}
+
+// Whether an asset whose footprint reaches `extent` from its center can be
+// placed inside the area at all. Polygons are only checked against their
+// extent; the containment check rejects placements that poke out.
+export function canFitInArea(bounds: SpawnBounds, extent: number): boolean {
+  switch (bounds.shape) {
+    case 'circle': {
+      const { outer, inner } = sampledRadii(bounds, extent)
+      return inner < outer
+    }
+    case 'polygon': {
+      const box = extentOf(toPoints(bounds.points))
+      return box.minX + extent < box.maxX - extent && box.minY + extent < box.maxY - extent &&
+        Math.abs(polygonArea(toPoints(bounds.points))) > 0
+    }
+    default:
+      return bounds.minX + extent < bounds.maxX - extent && bounds.minY + extent < bounds.maxY - extent
+  }
+}
+
+// Random center for an asset of the given extent, uniform over the area shrunk
+// by that extent (polygons aren't shrunk). Rectangles draw x then y, circles
+// radius then angle, polygons triangle then two barycentric coordinates.
+export function sampleInArea(bounds: SpawnBounds, extent: number, random: () => number): AreaPoint {
+  if (bounds.shape === 'polygon') {
+    return samplePolygon(bounds, random)
+  }
+  const u = random()
+  return mapUnitToArea(bounds, extent, u, random())
+}
+
+// Point of the (shrunk) area for a point (u, v) of the unit square. Equal
+// areas of the square map to equal areas of the region, so strata of the
+// square stay strata of the region. Rectangles map u to x and v to y, circles
+// u to the radius (uniform in r²) and v to the angle; polygons pick a
+// triangle by u (weighted by area) and reuse the rest of u inside it.
+export function mapUnitToArea(bounds: SpawnBounds, extent: number, u: number, v: number): AreaPoint {
+  switch (bounds.shape) {
+    case 'circle': {
+      const { outer, inner } = sampledRadii(bounds, extent)
+      // Uniform over the ring's area, not its radius
+      const r = Math.sqrt(inner * inner + u * (outer * outer - inner * inner))
+      const angle = v * 2 * Math.PI
+      return { x: bounds.centerX + r * Math.cos(angle), y: bounds.centerY + r * Math.sin(angle) }
+    }
+    case 'polygon': {
+      const { triangles, cumulativeAreas } = polygonTriangulation(bounds)
+      const total = cumulativeAreas[cumulativeAreas.length - 1] ?? 0
+      const pick = u * total
+      const index = Math.max(0, cumulativeAreas.findIndex(area => pick < area))
+      const start = index > 0 ? cumulativeAreas[index - 1] : 0
+      const size = cumulativeAreas[index] - start
+      const rest = size > 0 ? Math.min(1, Math.max(0, (pick - start) / size)) : 0
+      const triangle = triangles[index]
+      return triangle ? pointInTriangle(triangle, Math.sqrt(rest), v) : areaCenter(bounds)
+    }
+    default: {
+      const validMinX = bounds.minX + extent
+      const validMaxX = bounds.maxX - extent
+      const validMinY = bounds.minY + extent
+      const validMaxY = bounds.maxY - extent
+      const point = {
+        x: validMinX + u * (validMaxX - validMinX),
+        y: validMinY + v * (validMaxY - validMinY),
+      }
+      return rotateAbout(point, areaCenter(bounds), bounds.rotation ?? 0)
+    }
+  }
+}
+
+export function isPointInArea(point: AreaPoint, bounds: SpawnBounds): boolean {
+  return isFootprintWithinArea(point, point, bounds)
+}
+
+// Whether an axis-aligned footprint (min/max corners) lies inside the area.
+// For annuli it must also stay clear of the hole.
+export function isFootprintWithinArea(min: AreaPoint, max: AreaPoint, bounds: SpawnBounds): boolean {
+  const corners = [
+    { x: min.x, y: min.y },
+    { x: max.x, y: min.y },
+    { x: max.x, y: max.y },
+    { x: min.x, y: max.y },
+  ]
+
+  switch (bounds.shape) {
+    case 'circle': {
+      const center = { x: bounds.centerX, y: bounds.centerY }
+      if (!corners.every(c => Math.hypot(c.x - center.x, c.y - center.y) <= bounds.radius)) return false
+      const inner = bounds.innerRadius ?? 0
+      if (inner <= 0) return true
+      // Nearest footprint point to the center must be outside the hole
+      const nearestX = Math.min(Math.max(center.x, min.x), max.x)
+      const nearestY = Math.min(Math.max(center.y, min.y), max.y)
+      return Math.hypot(nearestX - center.x, nearestY - center.y) >= inner
+    }
+    case 'polygon': {
+      const points = toPoints(bounds.points)
+      if (!corners.every(c => isPointInPolygon(c, points))) return false
+      // Concave polygons can still cut into the footprint between its corners
+      if (points.some(p => p.x > min.x && p.x < max.x && p.y > min.y && p.y < max.y)) return false
+      return !polygonEdges(corners).some(([a, b]) =>
+        polygonEdges(points).some(([c, d]) => segmentsCross(a, b, c, d))
+      )
+    }
+    default: {
+      const rotation = bounds.rotation ?? 0
+      if (!rotation) {
+        return min.x >= bounds.minX && max.x <= bounds.maxX && min.y >= bounds.minY && max.y <= bounds.maxY
+      }
+      // Undo the rotation and compare with the unrotated extent
+      const center = areaCenter(bounds)
+      return corners.every(corner => {
+        const local = rotateAbout(corner, center, -rotation)
+        return local.x >= bounds.minX && local.x <= bounds.maxX && local.y >= bounds.minY && local.y <= bounds.maxY
+      })
+    }
+  }
+}
+
+// Whether an axis-aligned footprint (min/max corners) touches the area at all.
+// A footprint entirely inside an annulus' hole doesn't.
+export function doesFootprintOverlapArea(min: AreaPoint, max: AreaPoint, bounds: SpawnBounds): boolean {
+  const corners = [
+    { x: min.x, y: min.y },
+    { x: max.x, y: min.y },
+    { x: max.x, y: max.y },
+    { x: min.x, y: max.y },
+  ]
+
+  if (bounds.shape === 'circle') {
+    const center = { x: bounds.centerX, y: bounds.centerY }
+    const nearestX = Math.min(Math.max(center.x, min.x), max.x)
+    const nearestY = Math.min(Math.max(center.y, min.y), max.y)
+    if (Math.hypot(nearestX - center.x, nearestY - center.y) >= bounds.radius) return false
+    const inner = bounds.innerRadius ?? 0
+    return !(inner > 0 && corners.every(c => Math.hypot(c.x - center.x, c.y - center.y) <= inner))
+  }
+
+  const outline = bounds.shape === 'polygon' ? toPoints(bounds.points) : rectangleCorners(bounds)
+  const middle = { x: (min.x + max.x) / 2, y: (min.y + max.y) / 2 }
+  return (
+    [middle, ...corners].some(c => isPointInPolygon(c, outline)) ||
+    outline.some(p => p.x > min.x && p.x < max.x && p.y > min.y && p.y < max.y) ||
+    polygonEdges(corners).some(([a, b]) => polygonEdges(outline).some(([c, d]) => segmentsCross(a, b, c, d)))
+  )
+}
+
+// What makes an area unusable, or null when it's fine
+export function areaProblem(bounds: SpawnBounds): string | null {
+  switch (bounds.shape) {
+    case 'circle': {
+      const inner = bounds.innerRadius ?? 0
+      if (!(bounds.radius > 0)) return 'radius must be positive'
+      if (inner < 0 || inner >= bounds.radius) return 'inner radius must be between 0 and the radius'
+      return null
+    }
+    case 'polygon': {
+      const points = toPoints(bounds.points)
+      if (points.length < 3) return 'polygon needs at least 3 vertices'
+      if (Math.abs(polygonArea(points)) < AREA_EPSILON) return 'polygon has no area'
+      if (isSelfIntersecting(points)) return 'polygon edges must not cross'
+      return null
+    }
+    default:
+      if (bounds.minX >= bounds.maxX || bounds.minY >= bounds.maxY) return 'minimum must be smaller than maximum'
+      return null
+  }
+}
+
+// The closest area of another shape: the extent as a rectangle, the largest
+// centered circle, or the outline as a polygon
+export function convertArea(bounds: SpawnBounds, shape: SpawnShape): SpawnBounds {
+  if (areaShape(bounds) === shape) return bounds
+  const center = areaCenter(bounds)
+
+  switch (shape) {
+    case 'circle': {
+      const box = bounds.shape === 'circle' || bounds.shape === 'polygon' ? areaExtent(bounds) : bounds
+      return {
+        shape: 'circle',
+        centerX: center.x,
+        centerY: center.y,
+        radius: Math.min(box.maxX - box.minX, box.maxY - box.minY) / 2,
+      }
+    }
+    case 'polygon': {
+      if (bounds.shape === 'polygon') return bounds
+      const outline = bounds.shape === 'circle'
+        ? Array.from({ length: CIRCLE_POLYGON_VERTICES }, (_, i) => {
+            const angle = (2 * Math.PI * i) / CIRCLE_POLYGON_VERTICES
+            return { x: center.x + bounds.radius * Math.cos(angle), y: center.y + bounds.radius * Math.sin(angle) }
+          })
+        : rectangleCorners(bounds)
+      return { shape: 'polygon', points: outline.map(p => [p.x, p.y]) }
+    }
+    default: {
+      const { minX, maxX, minY, maxY } = areaExtent(bounds)
+      return { minX, maxX, minY, maxY }
+    }
+  }
+}
+
+export function areasMatch(a: SpawnBounds, b: SpawnBounds): boolean {
+  const near = (x: number, y: number) => Math.abs(x - y) < AREA_EPSILON
+
+  if (a.shape === 'circle' || b.shape === 'circle') {
+    return a.shape === 'circle' && b.shape === 'circle' &&
+      near(a.centerX, b.centerX) && near(a.centerY, b.centerY) &&
+      near(a.radius, b.radius) && near(a.innerRadius ?? 0, b.innerRadius ?? 0)
+  }
+  if (a.shape === 'polygon' || b.shape === 'polygon') {
+    return a.shape === 'polygon' && b.shape === 'polygon' && a.points.length === b.points.length &&
+      a.points.every(([x, y], i) => near(x, b.points[i][0]) && near(y, b.points[i][1]))
+  }
+  return (
+    near(a.minX, b.minX) && near(a.maxX, b.maxX) && near(a.minY, b.minY) && near(a.maxY, b.maxY) &&
+    near(normalizeDegrees((a.rotation ?? 0) - (b.rotation ?? 0)), 0)
+  )
+}
+
+// One-line summary for reports
+export function describeArea(bounds: SpawnBounds): string {
+  switch (bounds.shape) {
+    case 'circle': {
+      const ring = bounds.innerRadius ? `, inner radius ${bounds.innerRadius}` : ''
+      return `circle at (${bounds.centerX}, ${bounds.centerY}), radius ${bounds.radius}${ring}`
+    }
+    case 'polygon':
+      return `polygon with ${bounds.points.length} vertices`
+    default: {
+      const rotated = bounds.rotation ? `, rotated ${bounds.rotation}°` : ''
+      return `x ${bounds.minX} to ${bounds.maxX}, y ${bounds.minY} to ${bounds.maxY}${rotated}`
+    }
+  }
+}
+
+// Angle in degrees wrapped to (-180, 180]
+export function normalizeDegrees(degrees: number): number {
+  const wrapped = ((degrees % 360) + 360) % 360
+  return wrapped > 180 ? wrapped - 360 : wrapped
+}
+
+export function isPointInPolygon(point: AreaPoint, polygon: AreaPoint[]): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+// Signed area, positive for counter-clockwise vertices
+export function polygonArea(points: AreaPoint[]): number {
+  let sum = 0
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i]
+    const b = points[(i + 1) % points.length]
+    sum += a.x * b.y - b.x * a.y
+  }
+  return sum / 2
+}
+
+function rotateAbout(point: AreaPoint, center: AreaPoint, degrees: number): AreaPoint {
+  if (!degrees) return point
+  const angle = degrees * (Math.PI / 180)
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  const dx = point.x - center.x
+  const dy = point.y - center.y
+  return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos }
+}
+
+// Radii between which circle sampling draws centers
+function sampledRadii(bounds: CircleSpawnBounds, extent: number): { outer: number; inner: number } {
+  const innerRadius = bounds.innerRadius ?? 0
+  return {
+    outer: bounds.radius - extent,
+    inner: innerRadius > 0 ? innerRadius + extent : 0,
+  }
+}
+
+function samplePolygon(bounds: PolygonSpawnBounds, random: () => number): AreaPoint {
+  const { triangles, cumulativeAreas } = polygonTriangulation(bounds)
+
+  // Pick a triangle weighted by area, then a uniform point inside it
+  const total = cumulativeAreas[cumulativeAreas.length - 1] ?? 0
+  const pick = random() * total
+  const index = Math.max(0, cumulativeAreas.findIndex(area => pick < area))
+  const center = areaCenter(bounds)
+  const triangle = triangles[index] ?? [center, center, center]
+  const s = Math.sqrt(random())
+  return pointInTriangle(triangle, s, random())
+}
+
+function polygonTriangulation(bounds: PolygonSpawnBounds): Triangulation {
+  let triangulation = triangulations.get(bounds)
+  if (!triangulation) {
+    triangulation = triangulate(toPoints(bounds.points))
+    triangulations.set(bounds, triangulation)
+  }
+  return triangulation
+}
+
+// Barycentric point: s from a towards the b-c edge, t along it
+function pointInTriangle([a, b, c]: [AreaPoint, AreaPoint, AreaPoint], s: number, t: number): AreaPoint {
+  return {
+    x: a.x * (1 - s) + b.x * s * (1 - t) + c.x * s * t,
+    y: a.y * (1 - s) + b.y * s * (1 - t) + c.y * s * t,
+  }
+}
+
+function triangulate(points: AreaPoint[]): Triangulation {
+  const contour = points.map(p => new THREE.Vector2(p.x, p.y))
+  const triangles = THREE.ShapeUtils.triangulateShape(contour, []).map(
+    ([i, j, k]) => [points[i], points[j], points[k]] as [AreaPoint, AreaPoint, AreaPoint]
+  )
+  let sum = 0
+  const cumulativeAreas = triangles.map(triangle => (sum += Math.abs(polygonArea(triangle))))
+  return { triangles, cumulativeAreas }
+}
+
+function polygonCentroid(points: AreaPoint[]): AreaPoint {
+  const area = polygonArea(points)
+  if (Math.abs(area) < AREA_EPSILON) {
+    const count = Math.max(points.length, 1)
+    return {
+      x: points.reduce((sum, p) => sum + p.x, 0) / count,
+      y: points.reduce((sum, p) => sum + p.y, 0) / count,
+    }
+  }
+  let x = 0
+  let y = 0
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i]
+    const b = points[(i + 1) % points.length]
+    const cross = a.x * b.y - b.x * a.y
+    x += (a.x + b.x) * cross
+    y += (a.y + b.y) * cross
+  }
+  return { x: x / (6 * area), y: y / (6 * area) }
+}
+
+function extentOf(points: AreaPoint[]): AreaExtent {
+  return {
+    minX: Math.min(...points.map(p => p.x)),
+    maxX: Math.max(...points.map(p => p.x)),
+    minY: Math.min(...points.map(p => p.y)),
+    maxY: Math.max(...points.map(p => p.y)),
+  }
+}
+
+function toPoints(points: [number, number][]): AreaPoint[] {
+  return points.map(([x, y]) => ({ x, y }))
+}
+
+function polygonEdges(points: AreaPoint[]): [AreaPoint, AreaPoint][] {
+  return points.map((p, i) => [p, points[(i + 1) % points.length]])
+}
+
+// Proper crossing: each segment's endpoints lie strictly on opposite sides of the other
+function segmentsCross(a: AreaPoint, b: AreaPoint, c: AreaPoint, d: AreaPoint): boolean {
+  const side = (p: AreaPoint, q: AreaPoint, r: AreaPoint) => Math.sign((q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x))
+  return side(a, b, c) * side(a, b, d) < 0 && side(c, d, a) * side(c, d, b) < 0
+}
+
+function isSelfIntersecting(points: AreaPoint[]): boolean {
+  const edges = polygonEdges(points)
+  for (let i = 0; i < edges.length; i++) {
+    for (let j = i + 2; j < edges.length; j++) {
+      if (i === 0 && j === edges.length - 1) continue // Adjacent through the closing edge
+      if (segmentsCross(edges[i][0], edges[i][1], edges[j][0], edges[j][1])) return true
+    }
+  }
+  return false
+}
@@ -0,0 +1,120 @@
+import { SavedCondition } from '../hooks/useScene'
+import { createRng, nextSeed } from './rng'
+import { RejectionReason, SampleOptions, SampleTarget, trySampleCondition } from './sampler'
+import { createPositionPlan, SamplingBatch, SamplingStrategy } from './strategies'
+import { AssetCoverage, computeCoverage } from './coverage'
+
+// Batch generation: draw conditions with consecutive seeds until `count` of them
+// place every target cleanly. Rejected draws are counted by reason. Runs in
+// slices so the editor stays responsive and can cancel. With a strategy other
+// than uniform, positions are planned over the batch; a condition's seed then
+// reproduces it only together with the batch's first seed, count and strategy,
+// so each condition keeps those as its `batch`.
+
+export type RejectionCounts = Record<RejectionReason, number>
+
+export interface BatchProgress {
+  generated: number
+  total: number
+  draws: number
+  rejections: RejectionCounts
+}
+
+export interface BatchOptions extends Omit<SampleOptions, 'random' | 'pointSource'> {
+  count: number
+  strategy?: SamplingStrategy // How positions spread over the batch, defaults to uniform
+  firstSeed: number
+  maxDraws?: number // Give up after this many draws, defaults to 20 per condition
+  signal?: AbortSignal
+  onProgress?: (progress: BatchProgress) => void
+}
+
+// Why the batch ended: all conditions generated, cancelled, an asset can never
+// fit the bounds, or the draw budget ran out
+export type BatchStopReason = 'done' | 'cancelled' | 'cannotFit' | 'maxDraws'
+
+export interface BatchResult extends BatchProgress {
+  conditions: SavedCondition[]
+  constraintFailures: Record<string, number> // Constraint id -> draws it rejected
+  coverage: AssetCoverage[] // Of the spawn regions by the generated conditions, per target
+  nextSeed: number // First seed not drawn
+  stopReason: BatchStopReason
+}
+
+export const DEFAULT_DRAWS_PER_CONDITION = 20
+// Longest stretch of sampling between yields to the event loop
+const SLICE_MS = 16
+
+export function emptyRejectionCounts(): RejectionCounts {
+  return { collision: 0, outOfBounds: 0, excluded: 0, constraint: 0, cannotFit: 0 }
+}
+
+export function totalRejections(rejections: RejectionCounts): number {
+  return rejections.collision + rejections.outOfBounds + rejections.excluded + rejections.constraint + rejections.cannotFit
+}
+
+export async function generateConditions(targets: SampleTarget[], options: BatchOptions): Promise<BatchResult> {
+  const {
+    count,
+    firstSeed,
+    maxDraws = count * DEFAULT_DRAWS_PER_CONDITION,
+    signal,
+    onProgress,
+    strategy = 'uniform',
+    ...sampleOptions
+  } = options
+  const plan = createPositionPlan(strategy, count, targets.map(t => t.id), firstSeed)
+  const pointSource = plan ? plan.draw : undefined
+  const batch: SamplingBatch | undefined = plan ? { strategy, firstSeed, count } : undefined
+
+  const conditions: SavedCondition[] = []
+  const rejections = emptyRejectionCounts()
+  const constraintFailures: Record<string, number> = {}
+  let seed = firstSeed
+  let draws = 0
+  let stopReason: BatchStopReason = 'done'
+  let sliceStart = performance.now()
+
+  const progress = (): BatchProgress => ({ generated: conditions.length, total: count, draws, rejections: { ...rejections } })
+
+  while (conditions.length < count) {
+    if (signal?.aborted) {
+      stopReason = 'cancelled'
+      break
+    }
+    if (draws >= maxDraws) {
+      stopReason = 'maxDraws'
+      break
+    }
+
+    const { poses, rejection, failedConstraints } = trySampleCondition(targets, { ...sampleOptions, random: createRng(seed), pointSource })
+    draws++
+    if (rejection) {
+      rejections[rejection]++
+      for (const id of failedConstraints) {
+        constraintFailures[id] = (constraintFailures[id] ?? 0) + 1
+      }
+      plan?.reject()
+    } else {
+      conditions.push(batch ? { poses, seed, batch } : { poses, seed })
+      plan?.accept(poses)
+    }
+    seed = nextSeed(seed)
+
+    // Fitting doesn't depend on the draw: every further draw would fail too
+    if (rejection === 'cannotFit') {
+      stopReason = 'cannotFit'
+      break
+    }
+
+    if (performance.now() - sliceStart > SLICE_MS) {
+      onProgress?.(progress())
+      await new Promise(resolve => setTimeout(resolve, 0))
+      sliceStart = performance.now()
+    }
+  }
+
+  onProgress?.(progress())
+  const coverage = computeCoverage(conditions, targets.map(t => ({ assetId: t.id, bounds: t.bounds ?? sampleOptions.bounds })))
+  return { ...progress(), conditions, constraintFailures, coverage, nextSeed: seed, stopReason }
+}
@@ -0,0 +1,82 @@
+import * as THREE from 'three'
+
+// Oriented bounding boxes for the sampler's collision checks. Unlike the
+// world-space AABB, an oriented box doesn't grow when an asset is yawed, so
+// long or diagonal objects keep a tight fit. Three.js (Y-up) coordinates.
+
+export interface OrientedBox {
+  center: THREE.Vector3
+  axes: [THREE.Vector3, THREE.Vector3, THREE.Vector3] // Unit axes in world space
+  halfSize: THREE.Vector3
+}
+
+// Absorbs rounding when box edges are nearly parallel
+const PARALLEL_EPSILON = 1e-9
+
+// Oriented box of local bounds (scale applied) placed at a pose, grown on every side by `padding`
+export function getOrientedBox(
+  localBounds: THREE.Box3,
+  position: THREE.Vector3,
+  quaternion: THREE.Quaternion,
+  padding = 0
+): OrientedBox {
+  const center = localBounds.getCenter(new THREE.Vector3()).applyQuaternion(quaternion).add(position)
+  const halfSize = localBounds.getSize(new THREE.Vector3()).multiplyScalar(0.5).addScalar(padding)
+  return {
+    center,
+    axes: [
+      new THREE.Vector3(1, 0, 0).applyQuaternion(quaternion),
+      new THREE.Vector3(0, 1, 0).applyQuaternion(quaternion),
+      new THREE.Vector3(0, 0, 1).applyQuaternion(quaternion),
+    ],
+    halfSize,
+  }
+}
+
+// Separating axis test over the 15 candidate axes. Boxes that only touch don't overlap.
+export function orientedBoxesOverlap(a: OrientedBox, b: OrientedBox): boolean {
+  const ea = a.halfSize.toArray()
+  const eb = b.halfSize.toArray()
+
+  // b's axes expressed in a's frame
+  const r: number[][] = []
+  const absR: number[][] = []
+  for (let i = 0; i < 3; i++) {
+    r[i] = []
+    absR[i] = []
+    for (let j = 0; j < 3; j++) {
+      r[i][j] = a.axes[i].dot(b.axes[j])
+      absR[i][j] = Math.abs(r[i][j]) + PARALLEL_EPSILON
+    }
+  }
+
+  const offset = b.center.clone().sub(a.center)
+  const t = [offset.dot(a.axes[0]), offset.dot(a.axes[1]), offset.dot(a.axes[2])]
+
+  // a's face normals
+  for (let i = 0; i < 3; i++) {
+    const rb = eb[0] * absR[i][0] + eb[1] * absR[i][1] + eb[2] * absR[i][2]
+    if (Math.abs(t[i]) >= ea[i] + rb) return false
+  }
+
+  // b's face normals
+  for (let j = 0; j < 3; j++) {
+    const ra = ea[0] * absR[0][j] + ea[1] * absR[1][j] + ea[2] * absR[2][j]
+    if (Math.abs(t[0] * r[0][j] + t[1] * r[1][j] + t[2] * r[2][j]) >= ra + eb[j]) return false
+  }
+
+  // Cross products of edge directions
+  for (let i = 0; i < 3; i++) {
+    const i1 = (i + 1) % 3
+    const i2 = (i + 2) % 3
+    for (let j = 0; j < 3; j++) {
+      const j1 = (j + 1) % 3
+      const j2 = (j + 2) % 3
+      const ra = ea[i1] * absR[i2][j] + ea[i2] * absR[i1][j]
+      const rb = eb[j1] * absR[i][j2] + eb[j2] * absR[i][j1]
+      if (Math.abs(t[i2] * r[i1][j] - t[i1] * r[i2][j]) >= ra + rb) return false
+    }
+  }
+
+  return true
+}
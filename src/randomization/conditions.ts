@@ -0,0 +1,41 @@
+import { SavedCondition } from '../hooks/useScene'
+
+// Names, tags and notes on saved conditions. All are optional; unnamed
+// conditions are shown by their position in the list.
+
+export type ConditionDetails = Pick<SavedCondition, 'name' | 'tags' | 'notes'>
+
+// "hard" or "Condition 3"
+export function conditionLabel(condition: SavedCondition, index: number): string {
+  return condition.name || `Condition ${index + 1}`
+}
+
+// "hard, occluded,,hard" -> ["hard", "occluded"]
+export function parseTags(text: string): string[] {
+  const tags = text.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0)
+  return [...new Set(tags)]
+}
+
+// Details with empty fields dropped, so unset and cleared look the same
+export function normalizeDetails(details: ConditionDetails): ConditionDetails {
+  const normalized: ConditionDetails = {}
+  const name = details.name?.trim()
+  const notes = details.notes?.trim()
+  if (name) normalized.name = name
+  if (details.tags && details.tags.length > 0) normalized.tags = details.tags
+  if (notes) normalized.notes = notes
+  return normalized
+}
+
+// Copy placed right after the original in the list
+export function duplicateCondition(condition: SavedCondition): SavedCondition {
+  return {
+    ...condition,
+    poses: new Map([...condition.poses].map(([id, pose]) => [id, {
+      position: pose.position.clone(),
+      quaternion: pose.quaternion.clone(),
+    }])),
+    name: condition.name ? `${condition.name} copy` : undefined,
+    tags: condition.tags && [...condition.tags],
+  }
+}
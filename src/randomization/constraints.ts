@@ -0,0 +1,118 @@
+import * as THREE from 'three'
+
+// Relations between pairs of assets that sampled conditions must satisfy, e.g.
+// "tomato not inside bowl" or "cube at least 0.15 m from tray". Directions
+// are from the robot's view: it stands at the origin looking along +X (Z-up),
+// so left is +Y and "in front of" means closer to the robot (smaller X).
+// Distances are between box centers on the table plane.
+
+export type ConstraintKind =
+  | 'minDistance'
+  | 'maxDistance'
+  | 'leftOf'
+  | 'rightOf'
+  | 'inFrontOf'
+  | 'behind'
+  | 'onTopOf'
+  | 'inside'
+  | 'notInside'
+
+export interface PlacementConstraint {
+  id: string
+  kind: ConstraintKind
+  subjectId: string // Asset the relation is about ("tomato" in "tomato inside bowl")
+  objectId: string
+  distance?: number // Meters, for minDistance and maxDistance
+}
+
+export const CONSTRAINT_KINDS: ConstraintKind[] = [
+  'minDistance',
+  'maxDistance',
+  'leftOf',
+  'rightOf',
+  'inFrontOf',
+  'behind',
+  'onTopOf',
+  'inside',
+  'notInside',
+]
+
+export const CONSTRAINT_LABELS: Record<ConstraintKind, string> = {
+  minDistance: 'at least',
+  maxDistance: 'at most',
+  leftOf: 'left of',
+  rightOf: 'right of',
+  inFrontOf: 'in front of',
+  behind: 'behind',
+  onTopOf: 'on top of',
+  inside: 'inside',
+  notInside: 'not inside',
+}
+
+// How far the bottom of an asset may be from the top of the one it sits on (m)
+const ON_TOP_TOLERANCE = 0.01
+
+export function createConstraintId(): string {
+  return `constraint_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
+}
+
+export function isDistanceConstraint(kind: ConstraintKind): boolean {
+  return kind === 'minDistance' || kind === 'maxDistance'
+}
+
+// Relations where the subject's box is meant to overlap the object's, so the
+// sampler doesn't treat the pair as colliding
+export function allowsContact(kind: ConstraintKind): boolean {
+  return kind === 'inside' || kind === 'onTopOf'
+}
+
+// Whether the relation holds between two world-space boxes (Three.js Y-up)
+export function isConstraintSatisfied(constraint: PlacementConstraint, subject: THREE.Box3, object: THREE.Box3): boolean {
+  const a = subject.getCenter(new THREE.Vector3())
+  const b = object.getCenter(new THREE.Vector3())
+  // Center of the subject over the object's footprint (Y-up X and Z)
+  const over = a.x >= object.min.x && a.x <= object.max.x && a.z >= object.min.z && a.z <= object.max.z
+  const inside = over && subject.min.y < object.max.y && subject.max.y > object.min.y
+
+  switch (constraint.kind) {
+    case 'minDistance':
+      return Math.hypot(a.x - b.x, a.z - b.z) >= (constraint.distance ?? 0)
+    case 'maxDistance':
+      return Math.hypot(a.x - b.x, a.z - b.z) <= (constraint.distance ?? 0)
+    // Z-up Y is Three.js -Z
+    case 'leftOf':
+      return a.z < b.z
+    case 'rightOf':
+      return a.z > b.z
+    case 'inFrontOf':
+      return a.x < b.x
+    case 'behind':
+      return a.x > b.x
+    case 'onTopOf':
+      return over && Math.abs(subject.min.y - object.max.y) <= ON_TOP_TOLERANCE
+    case 'inside':
+      return inside
+    case 'notInside':
+      return !inside
+  }
+}
+
+// "tomato inside bowl", "cube at least 0.15 m from tray"
+export function describeConstraint(constraint: PlacementConstraint, nameOf: (assetId: string) => string): string {
+  const subject = nameOf(constraint.subjectId)
+  const object = nameOf(constraint.objectId)
+  if (isDistanceConstraint(constraint.kind)) {
+    return `${subject} ${CONSTRAINT_LABELS[constraint.kind]} ${constraint.distance ?? 0} m from ${object}`
+  }
+  return `${subject} ${CONSTRAINT_LABELS[constraint.kind]} ${object}`
+}
+
+// What makes a constraint impossible to satisfy regardless of sampling, or null
+export function constraintProblem(constraint: PlacementConstraint, assetIds: Set<string>): string | null {
+  if (!assetIds.has(constraint.subjectId) || !assetIds.has(constraint.objectId)) return 'refers to a missing asset'
+  if (constraint.subjectId === constraint.objectId) return 'relates an asset to itself'
+  if (isDistanceConstraint(constraint.kind) && !(constraint.distance !== undefined && constraint.distance >= 0)) {
+    return 'needs a distance of at least 0'
+  }
+  return null
+}
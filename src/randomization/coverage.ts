@@ -0,0 +1,78 @@
+import { SavedCondition, SavedPose, SpawnBounds } from '../hooks/useScene'
+import { areaExtent, AreaPoint, isPointInArea } from './areas'
+
+// How evenly a set of conditions covers each asset's spawn region. The region
+// is split into a grid of about N cells (N = number of conditions); cells
+// whose center lies inside the region count, and coverage is the share of
+// them holding at least one position. Spacing is the mean distance from each
+// position to its nearest neighbour; evenly spread positions raise both.
+
+export interface AssetCoverage {
+  assetId: string
+  cellsCovered: number
+  cells: number
+  meanSpacing: number // Meters; 0 with fewer than two positions
+}
+
+export function computeCoverage(
+  conditions: SavedCondition[],
+  regions: { assetId: string; bounds: SpawnBounds }[]
+): AssetCoverage[] {
+  return regions.map(({ assetId, bounds }) => {
+    const points: AreaPoint[] = conditions
+      .map(condition => condition.poses.get(assetId))
+      .filter((pose): pose is SavedPose => pose !== undefined)
+      // Three.js (Y-up) X, -Z -> Z-up X, Y
+      .map(pose => ({ x: pose.position.x, y: -pose.position.z }))
+
+    return { assetId, ...gridCoverage(points, bounds), meanSpacing: meanNearestDistance(points) }
+  })
+}
+
+export function describeCoverage(coverage: AssetCoverage): string {
+  const percent = coverage.cells > 0 ? Math.round((100 * coverage.cellsCovered) / coverage.cells) : 0
+  return `${percent}% of ${coverage.cells} cells, spacing ${coverage.meanSpacing.toFixed(3)} m`
+}
+
+function gridCoverage(points: AreaPoint[], bounds: SpawnBounds): { cellsCovered: number; cells: number } {
+  const side = Math.max(1, Math.round(Math.sqrt(points.length)))
+  const extent = areaExtent(bounds)
+  const width = (extent.maxX - extent.minX) / side
+  const height = (extent.maxY - extent.minY) / side
+  if (!(width > 0 && height > 0)) return { cellsCovered: 0, cells: 0 }
+
+  const cellOf = (point: AreaPoint) => {
+    const i = Math.min(side - 1, Math.max(0, Math.floor((point.x - extent.minX) / width)))
+    const j = Math.min(side - 1, Math.max(0, Math.floor((point.y - extent.minY) / height)))
+    return j * side + i
+  }
+  const occupied = new Set(points.map(cellOf))
+
+  let cells = 0
+  let cellsCovered = 0
+  for (let j = 0; j < side; j++) {
+    for (let i = 0; i < side; i++) {
+      const center = { x: extent.minX + (i + 0.5) * width, y: extent.minY + (j + 0.5) * height }
+      const isCovered = occupied.has(j * side + i)
+      // Cells mostly outside the region only count once something lands in them
+      if (isCovered || isPointInArea(center, bounds)) {
+        cells++
+        if (isCovered) cellsCovered++
+      }
+    }
+  }
+  return { cellsCovered, cells }
+}
+
+function meanNearestDistance(points: AreaPoint[]): number {
+  if (points.length < 2) return 0
+  let sum = 0
+  for (const a of points) {
+    let nearest = Infinity
+    for (const b of points) {
+      if (a !== b) nearest = Math.min(nearest, Math.hypot(a.x - b.x, a.y - b.y))
+    }
+    sum += nearest
+  }
+  return sum / points.length
+}
@@ -0,0 +1,105 @@
+import * as THREE from 'three'
+import { SavedPose } from '../hooks/useScene'
+import { YawRange } from './sampler'
+
+// Per-asset orientation policies. Assets without one get a yaw from the shared
+// yaw range on top of their base orientation. Angles are degrees about the up
+// axis, relative to the base orientation (or the chosen resting face).
+
+export type OrientationPolicy =
+  | { kind: 'fixed' } // Keep the base orientation
+  | { kind: 'yawRange'; min: number; max: number }
+  | { kind: 'yawSet'; angles: number[] } // One of the listed yaws, equally likely
+  | { kind: 'restingFace'; faces: THREE.Quaternion[] } // A stable pose, then a yaw from the shared range
+
+export type OrientationKind = OrientationPolicy['kind']
+
+export const ORIENTATION_LABELS: Record<OrientationKind, string> = {
+  fixed: 'Fixed',
+  yawRange: 'Yaw range',
+  yawSet: 'Yaw set',
+  restingFace: 'Resting face',
+}
+
+const UP = new THREE.Vector3(0, 1, 0)
+
+// Orientations the yaw is applied to: the resting faces, else the base orientation
+export function baseOrientations(policy: OrientationPolicy | undefined, basePose: SavedPose): THREE.Quaternion[] {
+  return policy?.kind === 'restingFace' && policy.faces.length > 0 ? policy.faces : [basePose.quaternion]
+}
+
+// Draw an orientation and the height that keeps the asset's lowest point where
+// it is at its base pose (only changes for resting faces). Draws one number
+// for the yaw (none when fixed), preceded by one for the face when a
+// resting-face policy lists several.
+export function sampleOrientation(
+  policy: OrientationPolicy | undefined,
+  localBounds: THREE.Box3,
+  basePose: SavedPose,
+  yawRange: YawRange,
+  random: () => number
+): SavedPose {
+  const faces = baseOrientations(policy, basePose)
+  const face = faces.length > 1 ? faces[Math.min(faces.length - 1, Math.floor(random() * faces.length))] : faces[0]
+
+  let yawDeg = 0
+  switch (policy?.kind) {
+    case 'fixed':
+      break
+    case 'yawRange':
+      yawDeg = policy.min + random() * (policy.max - policy.min)
+      break
+    case 'yawSet':
+      if (policy.angles.length > 0) {
+        yawDeg = policy.angles[Math.min(policy.angles.length - 1, Math.floor(random() * policy.angles.length))]
+      }
+      break
+    default:
+      yawDeg = yawRange.min + random() * (yawRange.max - yawRange.min)
+  }
+
+  const yaw = new THREE.Quaternion().setFromAxisAngle(UP, yawDeg * (Math.PI / 180))
+  const quaternion = face.clone().premultiply(yaw)
+
+  let height = basePose.position.y
+  if (face !== basePose.quaternion) {
+    height += lowestPoint(localBounds, basePose.quaternion) - lowestPoint(localBounds, face)
+  }
+  return { position: new THREE.Vector3(basePose.position.x, height, basePose.position.z), quaternion }
+}
+
+// Why a policy can't be sampled, or null
+export function orientationProblem(policy: OrientationPolicy): string | null {
+  if (policy.kind === 'yawSet' && policy.angles.length === 0) return 'needs at least one yaw'
+  if (policy.kind === 'restingFace' && policy.faces.length === 0) return 'needs at least one resting face'
+  return null
+}
+
+// "0, 90, 180" -> [0, 90, 180]; entries that aren't numbers are dropped
+export function parseAngleList(text: string): number[] {
+  return text
+    .split(/[\s,]+/)
+    .map(part => parseFloat(part))
+    .filter(Number.isFinite)
+}
+
+// "yaw 0 to 90 deg", "resting face (3)"
+export function describeOrientation(policy: OrientationPolicy): string {
+  switch (policy.kind) {
+    case 'fixed':
+      return 'fixed'
+    case 'yawRange':
+      return `yaw ${policy.min} to ${policy.max} deg`
+    case 'yawSet':
+      return `yaw one of ${policy.angles.join(', ')} deg`
+    case 'restingFace':
+      return `resting face (${policy.faces.length})`
+  }
+}
+
+// Height of the bottom of the bounds, rotated, relative to the origin
+function lowestPoint(localBounds: THREE.Box3, quaternion: THREE.Quaternion): number {
+  if (localBounds.isEmpty()) return 0
+  const rotation = new THREE.Matrix4().makeRotationFromQuaternion(quaternion)
+  return localBounds.clone().applyMatrix4(rotation).min.y
+}
@@ -0,0 +1,37 @@
+import { SpawnBounds, SpawnRegion } from '../hooks/useScene'
+
+// Per-asset spawn regions. Dynamic assets listed in a region spawn inside it;
+// all others use the global spawn bounds (the default region).
+
+// Id the editor uses for the default region
+export const DEFAULT_REGION_ID = 'default'
+
+export function createRegionId(): string {
+  return `region_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
+}
+
+export function findRegionForAsset(regions: SpawnRegion[], assetId: string): SpawnRegion | undefined {
+  return regions.find(region => region.assetIds.includes(assetId))
+}
+
+export function regionBoundsFor(regions: SpawnRegion[], assetId: string, defaultBounds: SpawnBounds): SpawnBounds {
+  return findRegionForAsset(regions, assetId)?.bounds ?? defaultBounds
+}
+
+// First unused "Region N" name (or "<prefix> N", e.g. for exclusion zones)
+export function nextRegionName(regions: { name: string }[], prefix = 'Region'): string {
+  const names = new Set(regions.map(r => r.name))
+  let index = regions.length + 1
+  while (names.has(`${prefix} ${index}`)) index++
+  return `${prefix} ${index}`
+}
+
+// Move an asset into a region (or back to the default region with null).
+// An asset belongs to at most one region.
+export function assignAssetToRegion(regions: SpawnRegion[], assetId: string, regionId: string | null): SpawnRegion[] {
+  return regions.map(region => {
+    const assetIds = region.assetIds.filter(id => id !== assetId)
+    if (region.id === regionId) assetIds.push(assetId)
+    return { ...region, assetIds }
+  })
+}
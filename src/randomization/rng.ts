@@ -0,0 +1,33 @@
+// Seedable random numbers for the sampler. Seeds are unsigned 32-bit integers;
+// the same seed always yields the same sequence, in the browser and in Node.
+
+export const MAX_SEED = 0xffffffff
+
+// mulberry32: small, fast and good enough for sampling poses. Returns floats in [0, 1).
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Fresh seed for a new sampling session
+export function randomSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1))
+}
+
+// Seed following `seed`, wrapping at 2^32
+export function nextSeed(seed: number): number {
+  return (seed + 1) >>> 0
+}
+
+// Parse user input as a seed; null when it isn't an integer in [0, 2^32)
+export function parseSeed(value: string): number | null {
+  const seed = Number(value.trim())
+  if (!value.trim() || !Number.isInteger(seed) || seed < 0 || seed > MAX_SEED) return null
+  return seed
+}
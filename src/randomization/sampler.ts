@@ -0,0 +1,324 @@
+import * as THREE from 'three'
+import { LoadedAsset } from '../scene/AssetLoader'
+import { SavedPose, SpawnBounds } from '../hooks/useScene'
+import { allowsContact, isConstraintSatisfied, PlacementConstraint } from './constraints'
+import { baseOrientations, OrientationPolicy, sampleOrientation } from './orientation'
+import { getOrientedBox, OrientedBox, orientedBoxesOverlap } from './collision'
+import { SurfaceProbe } from './surfaces'
+import { getDescendants } from '../scene/hierarchy'
+import { areaCenter, AreaPoint, canFitInArea, doesFootprintOverlapArea, isFootprintWithinArea, sampleInArea } from './areas'
+
+// Everything the sampler needs to know about an asset. Kept free of meshes so
+// the same code runs in the editor and headless (CLI, batch jobs).
+export interface SampleTarget {
+  id: string
+  // Bounds at the origin with identity rotation, scale applied (Three.js Y-up)
+  localBounds: THREE.Box3
+  // Pose the randomization starts from: its height (unless dropped onto a
+  // surface) and orientation are preserved
+  basePose: SavedPose
+  // Spawn region for this target, defaults to SampleOptions.bounds
+  bounds?: SpawnBounds
+  // How its orientation is drawn, defaults to a yaw in SampleOptions.yawRange
+  orientation?: OrientationPolicy
+}
+
+// Yaw added to each asset's base orientation, in degrees about the up axis
+export interface YawRange {
+  min: number
+  max: number
+}
+
+export interface SampleOptions {
+  bounds: SpawnBounds
+  exclusionZones?: SpawnBounds[] // Areas no target's footprint may touch
+  yawRange?: YawRange
+  collisionMargin?: number // Minimum clearance between the boxes of placed and static assets (m)
+  obstacles?: SampleTarget[] // Static assets, fixed at their base pose
+  constraints?: PlacementConstraint[] // Relations between targets and/or obstacles
+  maxAttempts?: number
+  random?: () => number
+  // Position of a target for an attempt, instead of a uniform draw (see strategies.ts)
+  pointSource?: (targetId: string, bounds: SpawnBounds, extent: number, random: () => number) => AreaPoint
+  // Rest each target on the static surface below it instead of keeping its height (see dropToSurface)
+  surfaceProbe?: SurfaceProbe
+}
+
+// Why a target couldn't be placed cleanly: every attempt overlapped an already
+// placed asset, left the spawn bounds, touched an exclusion zone or broke a
+// placement constraint, or the asset is larger than the bounds
+export type RejectionReason = 'collision' | 'outOfBounds' | 'excluded' | 'constraint' | 'cannotFit'
+
+export interface ConditionSample {
+  poses: Map<string, SavedPose>
+  // Reason for the first target that couldn't be placed cleanly, null when all were
+  rejection: RejectionReason | null
+  // Constraints that target's last attempt broke, when rejection is 'constraint'
+  failedConstraints: string[]
+}
+
+// An asset with a pose in the condition: a placed target or a static obstacle
+interface PlacedBox {
+  oriented: OrientedBox
+  box: THREE.Box3 // World-space AABB, for constraints
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 100
+export const DEFAULT_YAW_RANGE: YawRange = { min: 0, max: 360 }
+
+// Padding (m) of the base-pose box when finding the static assets an asset
+// rests on: enough for touching faces, far below any useful collision margin
+const CONTACT_EPSILON = 1e-3
+
+// Bounds of the asset's geometry in its own frame (no position, rotation or scale).
+// Falls back to asset.localBounds when the object carries no geometry (headless loads).
+export function getUnscaledLocalBounds(asset: LoadedAsset): THREE.Box3 {
+  const obj = asset.object
+  const savedPos = obj.position.clone()
+  const savedQuat = obj.quaternion.clone()
+  const savedScale = obj.scale.clone()
+
+  obj.position.set(0, 0, 0)
+  obj.quaternion.set(0, 0, 0, 1)
+  obj.scale.set(1, 1, 1)
+  const box = new THREE.Box3().setFromObject(obj)
+
+  obj.position.copy(savedPos)
+  obj.quaternion.copy(savedQuat)
+  obj.scale.copy(savedScale)
+
+  if (box.isEmpty() && asset.localBounds) {
+    return asset.localBounds.clone()
+  }
+  return box
+}
+
+export function createSampleTarget(
+  asset: LoadedAsset,
+  basePose: SavedPose,
+  bounds?: SpawnBounds,
+  orientation?: OrientationPolicy
+): SampleTarget {
+  const unscaled = getUnscaledLocalBounds(asset)
+  const localBounds = unscaled.isEmpty()
+    ? new THREE.Box3(new THREE.Vector3(), new THREE.Vector3()) // No extent known, treat as a point
+    : new THREE.Box3().setFromPoints([
+        unscaled.min.clone().multiply(asset.object.scale),
+        unscaled.max.clone().multiply(asset.object.scale),
+      ])
+
+  return { id: asset.id, localBounds, basePose, bounds, orientation }
+}
+
+// Grow a target's box by the assets it carries (attached below it), at their
+// offsets from it, so the containment and collision checks cover them too.
+// Offsets come from `basePoses` where it has both poses (as withCarriedPoses
+// uses them), else from the objects' current poses.
+export function withCarriedBounds(target: SampleTarget, assets: LoadedAsset[], basePoses: Map<string, SavedPose>): SampleTarget {
+  const asset = assets.find(a => a.id === target.id)
+  const descendants = asset ? getDescendants(assets, asset.id) : []
+  if (!asset || descendants.length === 0) return target
+
+  const localBounds = target.localBounds.clone()
+  for (const descendant of descendants) {
+    const base = basePoses.get(descendant.id)
+    const [anchor, pose] = base && basePoses.has(asset.id)
+      ? [basePoses.get(asset.id)!, base]
+      : [asset.object, descendant.object]
+    const offset = poseMatrix(anchor).invert().multiply(poseMatrix(pose))
+    localBounds.union(createSampleTarget(descendant, pose).localBounds.clone().applyMatrix4(offset))
+  }
+  return { ...target, localBounds }
+}
+
+function poseMatrix(pose: SavedPose): THREE.Matrix4 {
+  return new THREE.Matrix4().compose(pose.position, pose.quaternion, new THREE.Vector3(1, 1, 1))
+}
+
+// Static (kinematic or locked) exportable assets as obstacles at their current pose
+export function createObstacles(assets: LoadedAsset[]): SampleTarget[] {
+  return assets
+    .filter(a => !a.excludeFromExport && (a.disableGravity || a.locked))
+    .map(a => createSampleTarget(a, { position: a.object.position.clone(), quaternion: a.object.quaternion.clone() }))
+}
+
+// World-space AABB of a target placed at the given pose
+export function getWorldBounds(localBounds: THREE.Box3, position: THREE.Vector3, quaternion: THREE.Quaternion): THREE.Box3 {
+  const matrix = new THREE.Matrix4().compose(position, quaternion, new THREE.Vector3(1, 1, 1))
+  return localBounds.clone().applyMatrix4(matrix)
+}
+
+// Footprint points probed for a support: corners, edge midpoints and center
+const SURFACE_PROBE_STEPS = [0, 0.5, 1]
+
+// Move the pose up or down so the bottom of its box rests on the highest
+// surface under the footprint, probed from the top of the box so shelves and
+// overhangs above it don't count. Returns the ids of the assets under it, or
+// null (pose unchanged) when there is nothing below.
+export function dropToSurface(localBounds: THREE.Box3, pose: SavedPose, probe: SurfaceProbe): string[] | null {
+  const box = getWorldBounds(localBounds, pose.position, pose.quaternion)
+  const hits = SURFACE_PROBE_STEPS.flatMap(u => SURFACE_PROBE_STEPS.map(v => probe(
+    box.min.x + u * (box.max.x - box.min.x),
+    box.min.z + v * (box.max.z - box.min.z),
+    box.max.y
+  ))).filter(hit => hit !== null)
+  if (hits.length === 0) return null
+
+  pose.position.y += Math.max(...hits.map(hit => hit.height)) - box.min.y
+  return [...new Set(hits.map(hit => hit.assetId))]
+}
+
+export function isBoxWithinSpawnBounds(box: THREE.Box3, bounds: SpawnBounds): boolean {
+  // Only check the footprint on the X-Y plane (Z-up), ignore height
+  // Three.js (Y-up): X, -Z -> Z-up: X, Y
+  return isFootprintWithinArea(
+    { x: box.min.x, y: -box.max.z },
+    { x: box.max.x, y: -box.min.z },
+    bounds
+  )
+}
+
+export function isBoxInExclusionZone(box: THREE.Box3, zones: SpawnBounds[]): boolean {
+  const min = { x: box.min.x, y: -box.max.z }
+  const max = { x: box.max.x, y: -box.min.z }
+  return zones.some(zone => doesFootprintOverlapArea(min, max, zone))
+}
+
+// Sample one collision-free condition: each target gets a random position inside
+// its spawn region (or the shared bounds) and a random yaw (within yawRange) on
+// top of its base orientation. Targets are placed in order; later ones keep
+// collisionMargin away from the oriented boxes of those already placed and of
+// the static obstacles. Obstacles a target already touches at its base pose
+// (the table it stands on) are ignored for it. No target may touch an
+// exclusion zone. Constraints are checked once both of their assets have a
+// pose; pairs meant to touch (inside, on top of) skip the collision check.
+// With a surface probe, each target is dropped onto the static assets under
+// it, and those supports don't count as collisions.
+export function sampleCondition(targets: SampleTarget[], options: SampleOptions): Map<string, SavedPose> {
+  return trySampleCondition(targets, options).poses
+}
+
+// Like sampleCondition, but also reports whether every target was placed
+// cleanly. Targets that weren't still get a pose (the last attempt, or the
+// center of the bounds when they can't fit), so the draw sequence doesn't
+// depend on failures.
+export function trySampleCondition(targets: SampleTarget[], options: SampleOptions): ConditionSample {
+  const {
+    bounds: defaultBounds,
+    exclusionZones = [],
+    yawRange = DEFAULT_YAW_RANGE,
+    collisionMargin = 0,
+    obstacles = [],
+    constraints = [],
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    random = Math.random,
+    pointSource,
+    surfaceProbe,
+  } = options
+  const poses = new Map<string, SavedPose>()
+  const placedBoxes = new Map<string, PlacedBox>()
+  const obstacleBoxes = new Map(obstacles.map(o => [o.id, {
+    oriented: getOrientedBox(o.localBounds, o.basePose.position, o.basePose.quaternion),
+    box: getWorldBounds(o.localBounds, o.basePose.position, o.basePose.quaternion),
+  }]))
+  let rejection: RejectionReason | null = null
+  let failedConstraints: string[] = []
+
+  for (const target of targets) {
+    const bounds = target.bounds ?? defaultBounds
+    const baseQuat = target.basePose.quaternion
+
+    // Get asset size with the base rotation (or each resting face) applied, so
+    // bounds calculation accounts for orientation
+    const maxHorizontalExtent = Math.max(...baseOrientations(target.orientation, target.basePose).map(quaternion => {
+      const rotation = new THREE.Matrix4().makeRotationFromQuaternion(quaternion)
+      const assetSize = target.localBounds.clone().applyMatrix4(rotation).getSize(new THREE.Vector3())
+      // Use max of X/Z for horizontal extent since we rotate around Y
+      return Math.max(assetSize.x, assetSize.z) / 2
+    }))
+
+    // Check if asset can fit at all (only X and Y)
+    const canFit = canFitInArea(bounds, maxHorizontalExtent)
+
+    // Assets this one is meant to touch, and the constraints it's part of
+    const related = constraints.filter(c => c.subjectId === target.id || c.objectId === target.id)
+    const contacts = new Set(related.filter(c => allowsContact(c.kind)).flatMap(c => [c.subjectId, c.objectId]))
+
+    // Static assets this one rests on or leans against can't be avoided by
+    // moving it. Only actual contacts count: an obstacle merely within the
+    // collision margin of the base pose is still kept clear of.
+    const baseBox = getOrientedBox(target.localBounds, target.basePose.position, baseQuat, CONTACT_EPSILON)
+    const blockers = [...obstacleBoxes].filter(([id, obstacle]) => !contacts.has(id) && !orientedBoxesOverlap(baseBox, obstacle.oriented))
+    const others = [...placedBoxes].filter(([id]) => !contacts.has(id))
+
+    let pose: SavedPose | null = null
+    let box: THREE.Box3 | null = null
+    let placed = false
+    let lastFailure: RejectionReason = 'collision'
+    let lastBroken: string[] = []
+
+    for (let attempt = 0; attempt < maxAttempts && !placed; attempt++) {
+      // Random position within the shrunken area, or its center when the asset is too big
+      const point = !canFit
+        ? areaCenter(bounds)
+        : pointSource
+          ? pointSource(target.id, bounds, maxHorizontalExtent, random)
+          : sampleInArea(bounds, maxHorizontalExtent, random)
+
+      // Orientation relative to the base one (about the Y axis, up in Three.js);
+      // keeps the original height unless the asset rests on another face
+      pose = sampleOrientation(target.orientation, target.localBounds, target.basePose, yawRange, random)
+      pose.position.x = point.x
+      pose.position.z = -point.y // Z-up Y -> -Y-up Z
+      const supports = surfaceProbe ? dropToSurface(target.localBounds, pose, surfaceProbe) ?? [] : []
+      box = getWorldBounds(target.localBounds, pose.position, pose.quaternion)
+
+      const paddedBox = getOrientedBox(target.localBounds, pose.position, pose.quaternion, collisionMargin)
+      const hasCollision = others.some(([, other]) => orientedBoxesOverlap(paddedBox, other.oriented)) ||
+        blockers.some(([id, blocker]) => !supports.includes(id) && orientedBoxesOverlap(paddedBox, blocker.oriented))
+      const withinBounds = isBoxWithinSpawnBounds(box, bounds)
+      const excluded = isBoxInExclusionZone(box, exclusionZones)
+      const broken = hasCollision || excluded ? [] : brokenConstraints(related, target.id, box, placedBoxes, obstacleBoxes)
+
+      // If asset can't fit but no collision, accept it
+      if (!hasCollision && !excluded && broken.length === 0 && (withinBounds || !canFit)) {
+        placed = true
+      } else {
+        lastFailure = hasCollision ? 'collision' : excluded ? 'excluded' : !withinBounds ? 'outOfBounds' : 'constraint'
+        lastBroken = broken
+      }
+    }
+
+    if (!rejection && (!placed || !canFit)) {
+      rejection = canFit ? lastFailure : 'cannotFit'
+      if (rejection === 'constraint') failedConstraints = lastBroken
+    }
+
+    // If couldn't place without collision, keep last attempted position
+    if (pose && box) {
+      placedBoxes.set(target.id, { oriented: getOrientedBox(target.localBounds, pose.position, pose.quaternion), box })
+      poses.set(target.id, pose)
+    }
+  }
+
+  return { poses, rejection, failedConstraints }
+}
+
+// Ids of the constraints on `targetId` that fail with it at `box`. Constraints
+// whose other asset has no pose yet are checked when that one is placed.
+function brokenConstraints(
+  constraints: PlacementConstraint[],
+  targetId: string,
+  box: THREE.Box3,
+  placedBoxes: Map<string, PlacedBox>,
+  obstacleBoxes: Map<string, PlacedBox>
+): string[] {
+  const boxOf = (id: string) => id === targetId ? box : (placedBoxes.get(id) ?? obstacleBoxes.get(id))?.box
+  return constraints
+    .filter(constraint => {
+      const subject = boxOf(constraint.subjectId)
+      const object = boxOf(constraint.objectId)
+      return subject && object && !isConstraintSatisfied(constraint, subject, object)
+    })
+    .map(constraint => constraint.id)
+}
@@ -0,0 +1,439 @@
+import * as THREE from 'three'
+import { LoadedAsset } from '../scene/AssetLoader'
+import { ExclusionZone, SpawnBounds, SpawnRegion } from '../hooks/useScene'
+import { ExportFrame, exportName } from '../io/exportCommon'
+import { encodePose } from '../io/poseEncoding'
+import { toZUpPosition, toZUpQuaternion } from '../io/frame'
+import { createSampleTarget, DEFAULT_MAX_ATTEMPTS, getUnscaledLocalBounds, DEFAULT_YAW_RANGE, YawRange } from './sampler'
+import { createRegionId, findRegionForAsset } from './regions'
+import { OrientationPolicy } from './orientation'
+import { SAMPLING_STRATEGIES, SamplingStrategy } from './strategies'
+import { HEIGHT_MODES, HeightMode } from './surfaces'
+import { getParent } from '../scene/hierarchy'
+import { ConstraintKind, CONSTRAINT_KINDS, createConstraintId, isDistanceConstraint, PlacementConstraint } from './constraints'
+
+// randomization.json: the editor's randomization settings plus everything a
+// simulator needs to sample fresh conditions at runtime with the same
+// semantics as sampleCondition(). All coordinates are Z-up, like
+// initial_conditions.json; angles are degrees.
+//
+// Sampling semantics, per dynamic asset in listed order:
+//   - position: uniform in the asset's spawn region (the named entry of
+//     spawnRegions, else spawnRegion), shrunk so the asset's rotated footprint
+//     stays inside; assets too large to fit are centered. Rectangles shrink
+//     along their own (rotated) axes, circles and annuli radially; polygons
+//     aren't shrunk and rely on the containment check
+//   - containment: the footprint (axis-aligned box at the sampled pose) must
+//     lie inside the region, clear of an annulus' hole; for polygons no edge
+//     may cut into it
+//   - exclusion: the footprint must not touch any of exclusionZones (same
+//     shapes as the regions); applies to every asset
+//   - height: kept from basePose with placement.height "preserve". With
+//     "dropToSurface" the asset is moved up or down so the bottom of its
+//     world-frame box rests on the highest static asset under the box's
+//     footprint, probed by rays straight down from the top of the box at its
+//     corners, edge midpoints and center (hitting meshes, or the bounds box
+//     without geometry); surfaces above the box's top don't count. It
+//     keeps the height when nothing is below. The static assets it rests on
+//     are ignored in its collision check
+//   - yaw: uniform in [minDeg, maxDeg] about +Z, applied on top of basePose's
+//     orientation (world frame)
+//   - orientation: an asset's own policy replaces the yaw above. "fixed"
+//     keeps basePose's orientation; "yawRange" draws the yaw uniformly from
+//     its own range; "yawSet" picks one of anglesDeg, equally likely;
+//     "restingFace" picks one of faces (orientations [qx, qy, qz, qw]),
+//     equally likely, then applies a yaw from the shared range. The height
+//     then changes so the bottom of the rotated bounds stays at basePose's
+//     level
+//   - collision: the asset's oriented box (bounds at the sampled pose), grown
+//     by margin on every side, must not overlap the oriented boxes of assets
+//     placed earlier or of staticAssets. Static assets the grown box already
+//     overlaps at basePose (the table it stands on) are ignored for that
+//     asset. Up to maxAttempts tries, then the last try is kept
+//   - constraints: each entry relates a subject to an object by name. It is
+//     checked when the later of the two is placed (static assets count as
+//     placed from the start) and the attempt is retried if it fails. Boxes are
+//     the world-frame AABBs at the sampled poses. Distances are between box
+//     centers in XY; leftOf/rightOf compare center Y (left is +Y),
+//     inFrontOf/behind compare center X (front is smaller X, toward the
+//     robot); onTopOf needs the subject's center over the object's footprint
+//     and its bottom within 1 cm of the object's top; inside needs the center
+//     over the footprint and overlapping heights. Pairs related by onTopOf or
+//     inside skip the collision check
+//   - attachment: an asset with attachedTo is attached to that asset. A
+//     dynamic asset below a dynamic asset (directly or through others) is
+//     carried: it isn't sampled and draws no random numbers; it keeps the
+//     offset between its basePose and its nearest sampled ancestor's. Static
+//     assets below a dynamic asset move with it the same way and aren't
+//     obstacles. A sampled asset's bounds are grown (in its local frame) by
+//     the bounds of every asset it carries at those offsets, so the spawn
+//     area, exclusion zone and collision checks cover them
+//   - random numbers: one mulberry32 stream per condition, seeded with the
+//     condition's seed from initial_conditions.json. Each attempt draws the
+//     position, then the face (restingFace with several faces), then yaw
+//     (none for fixed, the index for yawSet); the position is skipped when
+//     the asset can't fit. Positions take
+//     x then y in a rectangle's unrotated frame, radius (uniform in r²) then
+//     angle for circles, and for polygons a triangle of the earcut
+//     triangulation (weighted by area) then two barycentric draws
+//
+// sampling.strategy says how the editor spread positions over a batch of
+// conditions (see strategies.ts). "uniform" is the per-condition sampling
+// above; the other strategies plan positions across the batch, so a
+// simulator sampling one condition at a time uses uniform sampling.
+//
+// referenceFrame is there when initial_conditions.json is relative to a frame
+// (see referenceFrame.ts) and records the same frame. Everything in this file
+// stays in the world frame: regions, heights and yaw are defined about the
+// world's +Z, which a tilted frame wouldn't keep. To match
+// initial_conditions.json, map each sampled world pose P to pose⁻¹ · P.
+
+export interface RandomizationSettings {
+  spawnBounds: SpawnBounds
+  spawnRegions: SpawnRegion[]
+  exclusionZones: ExclusionZone[]
+  yawRange: YawRange
+  collisionMargin: number
+  constraints: PlacementConstraint[]
+  orientationPolicies: Record<string, OrientationPolicy> // By asset id; absent means the shared yaw range
+  samplingStrategy: SamplingStrategy
+  heightMode: HeightMode // Whether sampled assets keep their height or rest on the surface below
+}
+
+export interface RandomizationSpec {
+  version: number
+  frame: 'z-up'
+  spawnRegion: RandomizationSpecRegion // Default for assets without a region
+  spawnRegions: (RandomizationSpecRegion & { name: string })[]
+  exclusionZones: (RandomizationSpecRegion & { name: string })[]
+  yaw: { policy: 'uniform'; minDeg: number; maxDeg: number; relativeTo: 'basePose' }
+  collision: { check: 'obb'; margin: number }
+  placement: { height: HeightMode; containment: 'footprint'; maxAttempts: number }
+  sampling: { strategy: SamplingStrategy }
+  rng: 'mulberry32'
+  dynamicAssets: RandomizationSpecAsset[]
+  staticAssets: RandomizationSpecAsset[] // Obstacles, fixed at basePose
+  constraints: RandomizationSpecConstraint[]
+  referenceFrame?: RandomizationSpecFrame // Frame of initial_conditions.json; absent for the world
+}
+
+export interface RandomizationSpecFrame {
+  kind: 'asset' | 'manual'
+  asset?: string // Name of the asset the frame sits on
+  pose: number[] // The frame in the world: [x, y, z, qx, qy, qz, qw]
+}
+
+export interface RandomizationSpecConstraint {
+  kind: ConstraintKind
+  subject: string // Asset names, as in initial_conditions.json
+  object: string
+  distance?: number // Meters, for minDistance and maxDistance
+}
+
+export type RandomizationSpecOrientation =
+  | { policy: 'fixed' }
+  | { policy: 'yawRange'; minDeg: number; maxDeg: number }
+  | { policy: 'yawSet'; anglesDeg: number[] }
+  | { policy: 'restingFace'; faces: number[][] } // [qx, qy, qz, qw] each
+
+export type RandomizationSpecRegion =
+  | { shape: 'rectangle'; minX: number; maxX: number; minY: number; maxY: number; rotationDeg: number }
+  | { shape: 'circle'; centerX: number; centerY: number; radius: number; innerRadius: number }
+  | { shape: 'polygon'; points: [number, number][] }
+
+export interface RandomizationSpecAsset {
+  name: string // Key used in initial_conditions.json
+  region?: string // Name of the asset's entry in spawnRegions (dynamic assets)
+  orientation?: RandomizationSpecOrientation // Dynamic assets with their own policy
+  basePose: number[] // [x, y, z, qx, qy, qz, qw]
+  bounds?: { min: number[]; max: number[] } // Local box with scale applied, no rotation
+  attachedTo?: string // Name of the asset this one is attached to
+}
+
+// Version 2 added circle and polygon regions, rectangle rotation and exclusion
+// zones; version 3 checks oriented boxes, including static assets; version 4
+// added constraints, version 5 orientation policies, version 6 sampling
+// strategies, version 7 drop-to-surface placement, version 8 attached assets,
+// version 9 the reference frame
+export const SPEC_VERSION = 9
+
+export const DEFAULT_SPAWN_BOUNDS: SpawnBounds = {
+  minX: -0.3,
+  maxX: 0.3,
+  minY: -0.3,
+  maxY: 0.3,
+}
+
+export const DEFAULT_RANDOMIZATION_SETTINGS: RandomizationSettings = {
+  spawnBounds: DEFAULT_SPAWN_BOUNDS,
+  spawnRegions: [],
+  exclusionZones: [],
+  yawRange: DEFAULT_YAW_RANGE,
+  collisionMargin: 0,
+  constraints: [],
+  orientationPolicies: {},
+  samplingStrategy: 'uniform',
+  heightMode: 'preserve',
+}
+
+export function buildRandomizationSpec(
+  exportableAssets: LoadedAsset[],
+  settings: RandomizationSettings,
+  frame: ExportFrame | null = null
+): RandomizationSpec {
+  const { spawnBounds, spawnRegions, exclusionZones, yawRange, collisionMargin, constraints, orientationPolicies, samplingStrategy, heightMode } = settings
+
+  // Same selection as the editor's randomizer: gravity-enabled, unlocked assets
+  const dynamicAssets = exportableAssets.filter(a => !a.disableGravity && !a.locked)
+  const staticAssets = exportableAssets.filter(a => a.disableGravity || a.locked)
+  const namesById = new Map(exportableAssets.map(a => [a.id, exportName(a)]))
+
+  const spec: RandomizationSpec = {
+    version: SPEC_VERSION,
+    frame: 'z-up',
+    spawnRegion: toSpecRegion(spawnBounds),
+    spawnRegions: spawnRegions.map(region => ({ name: region.name, ...toSpecRegion(region.bounds) })),
+    exclusionZones: exclusionZones.map(zone => ({ name: zone.name, ...toSpecRegion(zone.bounds) })),
+    yaw: { policy: 'uniform', minDeg: yawRange.min, maxDeg: yawRange.max, relativeTo: 'basePose' },
+    collision: { check: 'obb', margin: collisionMargin },
+    placement: { height: heightMode, containment: 'footprint', maxAttempts: DEFAULT_MAX_ATTEMPTS },
+    sampling: { strategy: samplingStrategy },
+    rng: 'mulberry32',
+    dynamicAssets: dynamicAssets.map(asset => {
+      const specAsset = toSpecAsset(asset, exportableAssets)
+      const region = findRegionForAsset(spawnRegions, asset.id)
+      if (region) {
+        specAsset.region = region.name
+      }
+      const policy = orientationPolicies[asset.id]
+      if (policy) {
+        specAsset.orientation = toSpecOrientation(policy)
+      }
+      return specAsset
+    }),
+    staticAssets: staticAssets.map(asset => toSpecAsset(asset, exportableAssets)),
+    // Constraints on assets that aren't exported can't be checked at runtime
+    constraints: constraints.flatMap(constraint => {
+      const subject = namesById.get(constraint.subjectId)
+      const object = namesById.get(constraint.objectId)
+      if (!subject || !object) return []
+      const entry: RandomizationSpecConstraint = { kind: constraint.kind, subject, object }
+      if (isDistanceConstraint(constraint.kind)) entry.distance = constraint.distance ?? 0
+      return [entry]
+    }),
+  }
+  if (frame) {
+    const pose = encodePose(frame.pose, 'xyzw') as number[]
+    spec.referenceFrame = frame.asset !== undefined ? { kind: frame.kind, asset: frame.asset, pose } : { kind: frame.kind, pose }
+  }
+  return spec
+}
+
+// Editor settings from a randomization.json; missing or malformed fields fall
+// back to the defaults. Region members and constraints are matched to `assets`
+// by export name.
+// Null when the data isn't a randomization spec at all.
+export function parseRandomizationSpec(data: unknown, assets: LoadedAsset[] = []): RandomizationSettings | null {
+  if (!data || typeof data !== 'object') return null
+  const spec = data as Partial<RandomizationSpec>
+  if (!spec.spawnRegion && !spec.yaw && !spec.collision) return null
+
+  const settings: RandomizationSettings = {
+    spawnBounds: { ...DEFAULT_SPAWN_BOUNDS },
+    spawnRegions: [],
+    exclusionZones: [],
+    yawRange: { ...DEFAULT_YAW_RANGE },
+    collisionMargin: DEFAULT_RANDOMIZATION_SETTINGS.collisionMargin,
+    constraints: [],
+    orientationPolicies: {},
+    samplingStrategy: DEFAULT_RANDOMIZATION_SETTINGS.samplingStrategy,
+    heightMode: DEFAULT_RANDOMIZATION_SETTINGS.heightMode,
+  }
+  const assetsByName = new Map(assets.map(a => [exportName(a), a]))
+
+  const defaultBounds = parseSpecRegion(spec.spawnRegion)
+  if (defaultBounds) {
+    settings.spawnBounds = defaultBounds
+  }
+
+  if (Array.isArray(spec.dynamicAssets)) {
+    for (const entry of spec.dynamicAssets) {
+      const asset = assetsByName.get(entry?.name)
+      const policy = parseSpecOrientation(entry?.orientation)
+      if (asset && policy) settings.orientationPolicies[asset.id] = policy
+    }
+  }
+
+  if (Array.isArray(spec.spawnRegions)) {
+    const members = Array.isArray(spec.dynamicAssets) ? spec.dynamicAssets : []
+
+    for (const entry of spec.spawnRegions) {
+      const bounds = parseSpecRegion(entry)
+      if (!bounds || typeof entry?.name !== 'string') continue
+      const assetIds = members
+        .filter(member => member?.region === entry.name)
+        .map(member => assetsByName.get(member.name)?.id)
+        .filter((id): id is string => id !== undefined)
+      settings.spawnRegions.push({ id: createRegionId(), name: entry.name, bounds, assetIds })
+    }
+  }
+
+  if (Array.isArray(spec.exclusionZones)) {
+    for (const entry of spec.exclusionZones) {
+      const bounds = parseSpecRegion(entry)
+      if (!bounds || typeof entry?.name !== 'string') continue
+      settings.exclusionZones.push({ id: createRegionId(), name: entry.name, bounds })
+    }
+  }
+
+  const yaw = spec.yaw
+  if (yaw && isFiniteNumber(yaw.minDeg) && isFiniteNumber(yaw.maxDeg)) {
+    settings.yawRange = { min: yaw.minDeg, max: yaw.maxDeg }
+  }
+
+  const margin = spec.collision?.margin
+  if (isFiniteNumber(margin) && margin >= 0) {
+    settings.collisionMargin = margin
+  }
+
+  const strategy = spec.sampling?.strategy
+  if (SAMPLING_STRATEGIES.some(s => s.value === strategy)) {
+    settings.samplingStrategy = strategy as SamplingStrategy
+  }
+
+  const height = spec.placement?.height
+  if (HEIGHT_MODES.some(m => m.value === height)) {
+    settings.heightMode = height as HeightMode
+  }
+
+  if (Array.isArray(spec.constraints)) {
+    for (const entry of spec.constraints) {
+      if (!entry || !CONSTRAINT_KINDS.includes(entry.kind)) continue
+      const subject = assetsByName.get(entry.subject)
+      const object = assetsByName.get(entry.object)
+      if (!subject || !object) continue
+      const constraint: PlacementConstraint = { id: createConstraintId(), kind: entry.kind, subjectId: subject.id, objectId: object.id }
+      if (isDistanceConstraint(entry.kind)) {
+        if (!isFiniteNumber(entry.distance)) continue
+        constraint.distance = entry.distance
+      }
+      settings.constraints.push(constraint)
+    }
+  }
+
+  return settings
+}
+
+function toSpecAsset(asset: LoadedAsset, exportableAssets: LoadedAsset[]): RandomizationSpecAsset {
+  const pos = toZUpPosition(asset.object.position)
+  const quat = toZUpQuaternion(asset.object.quaternion)
+  const specAsset: RandomizationSpecAsset = {
+    name: exportName(asset),
+    basePose: [pos.x, pos.y, pos.z, quat.x, quat.y, quat.z, quat.w],
+  }
+  const parent = getParent(exportableAssets, asset)
+  if (parent) {
+    specAsset.attachedTo = exportName(parent)
+  }
+
+  // Without a known extent the sampler treats the asset as a point; leave
+  // `bounds` out rather than write a zero-size box
+  if (!getUnscaledLocalBounds(asset).isEmpty()) {
+    const { localBounds } = createSampleTarget(asset, { position: asset.object.position, quaternion: asset.object.quaternion })
+    const box = new THREE.Box3().setFromPoints([toZUpPosition(localBounds.min), toZUpPosition(localBounds.max)])
+    specAsset.bounds = { min: box.min.toArray(), max: box.max.toArray() }
+  }
+  return specAsset
+}
+
+function toSpecOrientation(policy: OrientationPolicy): RandomizationSpecOrientation {
+  switch (policy.kind) {
+    case 'fixed':
+      return { policy: 'fixed' }
+    case 'yawRange':
+      return { policy: 'yawRange', minDeg: policy.min, maxDeg: policy.max }
+    case 'yawSet':
+      return { policy: 'yawSet', anglesDeg: [...policy.angles] }
+    case 'restingFace':
+      return { policy: 'restingFace', faces: policy.faces.map(face => toZUpQuaternion(face).toArray()) }
+  }
+}
+
+function parseSpecOrientation(data: unknown): OrientationPolicy | null {
+  if (!data || typeof data !== 'object') return null
+  const orientation = data as Record<string, unknown>
+
+  switch (orientation.policy) {
+    case 'fixed':
+      return { kind: 'fixed' }
+    case 'yawRange': {
+      const { minDeg, maxDeg } = orientation
+      if (!isFiniteNumber(minDeg) || !isFiniteNumber(maxDeg)) return null
+      return { kind: 'yawRange', min: minDeg, max: maxDeg }
+    }
+    case 'yawSet': {
+      const { anglesDeg } = orientation
+      if (!Array.isArray(anglesDeg)) return null
+      return { kind: 'yawSet', angles: anglesDeg.filter(isFiniteNumber) }
+    }
+    case 'restingFace': {
+      const { faces } = orientation
+      if (!Array.isArray(faces)) return null
+      return {
+        kind: 'restingFace',
+        faces: faces
+          .filter(q => Array.isArray(q) && q.length === 4 && q.every(isFiniteNumber))
+          // Z-up (x, y, z, w) -> Three.js (x, z, -y, w)
+          .map(([x, y, z, w]) => new THREE.Quaternion(x, z, -y, w).normalize()),
+      }
+    }
+    default:
+      return null
+  }
+}
+
+function toSpecRegion(bounds: SpawnBounds): RandomizationSpecRegion {
+  switch (bounds.shape) {
+    case 'circle':
+      return { shape: 'circle', centerX: bounds.centerX, centerY: bounds.centerY, radius: bounds.radius, innerRadius: bounds.innerRadius ?? 0 }
+    case 'polygon':
+      return { shape: 'polygon', points: bounds.points.map(([x, y]) => [x, y]) }
+    default:
+      return { shape: 'rectangle', minX: bounds.minX, maxX: bounds.maxX, minY: bounds.minY, maxY: bounds.maxY, rotationDeg: bounds.rotation ?? 0 }
+  }
+}
+
+// Version 1 files only have unrotated rectangles, without rotationDeg
+function parseSpecRegion(data: unknown): SpawnBounds | null {
+  if (!data || typeof data !== 'object') return null
+  const region = data as Record<string, unknown>
+
+  switch (region.shape ?? 'rectangle') {
+    case 'rectangle': {
+      const { minX, maxX, minY, maxY, rotationDeg } = region
+      if (!isFiniteNumber(minX) || !isFiniteNumber(maxX) || !isFiniteNumber(minY) || !isFiniteNumber(maxY)) return null
+      const bounds: SpawnBounds = { minX, maxX, minY, maxY }
+      if (isFiniteNumber(rotationDeg) && rotationDeg !== 0) bounds.rotation = rotationDeg
+      return bounds
+    }
+    case 'circle': {
+      const { centerX, centerY, radius, innerRadius } = region
+      if (!isFiniteNumber(centerX) || !isFiniteNumber(centerY) || !isFiniteNumber(radius)) return null
+      const bounds: SpawnBounds = { shape: 'circle', centerX, centerY, radius }
+      if (isFiniteNumber(innerRadius) && innerRadius > 0) bounds.innerRadius = innerRadius
+      return bounds
+    }
+    case 'polygon': {
+      const { points } = region
+      if (!Array.isArray(points)) return null
+      if (!points.every(p => Array.isArray(p) && p.length === 2 && isFiniteNumber(p[0]) && isFiniteNumber(p[1]))) return null
+      return { shape: 'polygon', points: points.map(([x, y]) => [x, y]) }
+    }
+    default:
+      return null
+  }
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
@@ -0,0 +1,149 @@
+import { SavedPose, SpawnBounds } from '../hooks/useScene'
+import { createRng } from './rng'
+import { AreaPoint, mapUnitToArea } from './areas'
+
+// How a batch spreads each asset's positions over its spawn region across the
+// conditions. Uniform draws every position independently (what Randomize
+// does). The others plan positions per asset over the whole batch:
+//   - stratified: a ceil(√N) × ceil(√N) grid over the region, one condition
+//     per cell in a shuffled order, jittered inside the cell
+//   - latinHypercube: N strata along each axis of the region, every stratum
+//     used once per axis
+//   - poissonDisk: best-candidate sampling, keeping the candidate farthest
+//     from the asset's earlier positions (an approximation of Poisson-disk)
+// Strata are cells of the unit square, mapped onto the region with
+// mapUnitToArea so they keep equal areas for every shape.
+
+export type SamplingStrategy = 'uniform' | 'stratified' | 'latinHypercube' | 'poissonDisk'
+
+export const SAMPLING_STRATEGIES: { value: SamplingStrategy; label: string }[] = [
+  { value: 'uniform', label: 'Uniform' },
+  { value: 'stratified', label: 'Stratified grid' },
+  { value: 'latinHypercube', label: 'Latin hypercube' },
+  { value: 'poissonDisk', label: 'Poisson-disk' },
+]
+
+// A planned batch: its conditions' seeds reproduce them only together with
+// these, since the plan spreads positions over the whole batch
+export interface SamplingBatch {
+  strategy: SamplingStrategy
+  firstSeed: number
+  count: number
+}
+
+// Draws a stratum may fail before the plan moves on to the next one (a
+// stratum can be blocked by an obstacle or an exclusion zone)
+const STRATUM_RETRIES = 3
+// Candidates per position for Poisson-disk sampling
+const POISSON_CANDIDATES = 10
+// Keeps the strata shuffle apart from the condition seeds counting up from the first seed
+const PLAN_SEED_SALT = 0x9e3779b9
+
+export interface PositionPlan {
+  // Position for a target in the condition being drawn; jitter comes from `random`
+  draw(targetId: string, bounds: SpawnBounds, extent: number, random: () => number): AreaPoint
+  // The condition was accepted with these poses
+  accept(poses: Map<string, SavedPose>): void
+  // The condition was rejected
+  reject(): void
+}
+
+// Plan for `count` conditions of the given targets, null for uniform sampling
+export function createPositionPlan(
+  strategy: SamplingStrategy,
+  count: number,
+  targetIds: string[],
+  seed: number
+): PositionPlan | null {
+  const random = createRng((seed ^ PLAN_SEED_SALT) >>> 0)
+
+  switch (strategy) {
+    case 'stratified': {
+      const side = Math.max(1, Math.ceil(Math.sqrt(count)))
+      const cells = new Map(targetIds.map(id => [id, shuffle(range(side * side), random)]))
+      return createStrataPlan(side * side, (targetId, stratum, jitter) => {
+        const cell = cells.get(targetId)?.[stratum] ?? 0
+        return [(cell % side + jitter()) / side, (Math.floor(cell / side) + jitter()) / side]
+      })
+    }
+    case 'latinHypercube': {
+      const strata = Math.max(1, count)
+      const axes = new Map(targetIds.map(id => [id, [shuffle(range(strata), random), shuffle(range(strata), random)]]))
+      return createStrataPlan(strata, (targetId, stratum, jitter) => {
+        const [us, vs] = axes.get(targetId) ?? [[0], [0]]
+        return [((us[stratum] ?? 0) + jitter()) / strata, ((vs[stratum] ?? 0) + jitter()) / strata]
+      })
+    }
+    case 'poissonDisk':
+      return createPoissonPlan()
+    default:
+      return null
+  }
+}
+
+// Strata are used in order; each condition takes the next one, and a stratum
+// that keeps failing is skipped. Past the last stratum the order starts over.
+function createStrataPlan(
+  strata: number,
+  cellPoint: (targetId: string, stratum: number, jitter: () => number) => [number, number]
+): PositionPlan {
+  let stratum = 0
+  let failures = 0
+  const advance = () => {
+    stratum = (stratum + 1) % strata
+    failures = 0
+  }
+
+  return {
+    draw(targetId, bounds, extent, random) {
+      const [u, v] = cellPoint(targetId, stratum, random)
+      return mapUnitToArea(bounds, extent, u, v)
+    },
+    accept: advance,
+    reject() {
+      if (++failures >= STRATUM_RETRIES) advance()
+    },
+  }
+}
+
+function createPoissonPlan(): PositionPlan {
+  const placed = new Map<string, AreaPoint[]>()
+
+  return {
+    draw(targetId, bounds, extent, random) {
+      const previous = placed.get(targetId) ?? []
+      let best: AreaPoint | null = null
+      let bestDistance = -1
+      for (let i = 0; i < (previous.length > 0 ? POISSON_CANDIDATES : 1); i++) {
+        const u = random()
+        const candidate = mapUnitToArea(bounds, extent, u, random())
+        const distance = Math.min(...previous.map(p => Math.hypot(p.x - candidate.x, p.y - candidate.y)))
+        if (distance > bestDistance) {
+          best = candidate
+          bestDistance = distance
+        }
+      }
+      return best ?? mapUnitToArea(bounds, extent, random(), random())
+    },
+    accept(poses) {
+      for (const [id, pose] of poses) {
+        // Three.js (Y-up) X, -Z -> Z-up X, Y
+        placed.set(id, [...(placed.get(id) ?? []), { x: pose.position.x, y: -pose.position.z }])
+      }
+    },
+    reject() {},
+  }
+}
+
+function range(count: number): number[] {
+  return Array.from({ length: count }, (_, i) => i)
+}
+
+// Fisher-Yates, in place
+function shuffle(values: number[], random: () => number): number[] {
+  for (let i = values.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[values[i], values[j]] = [values[j], values[i]]
+  }
+  return values
+}
@@ -0,0 +1,84 @@
+import * as THREE from 'three'
+import { LoadedAsset } from '../scene/AssetLoader'
+import { createSampleTarget } from './sampler'
+
+// Support surfaces for drop-to-surface placement. A probe casts a ray straight
+// down from a given height and reports the first static (kinematic or locked)
+// exportable asset it hits, so a shelf or overhang above that height is passed
+// over. Assets are hit on their meshes; assets without geometry (headless
+// loads) on their bounds box.
+
+export type HeightMode = 'preserve' | 'dropToSurface'
+
+export const HEIGHT_MODES: { value: HeightMode; label: string }[] = [
+  { value: 'preserve', label: 'Keep original' },
+  { value: 'dropToSurface', label: 'Drop to surface' },
+]
+
+export interface SurfaceHit {
+  assetId: string
+  height: number // Three.js Y of the hit
+}
+
+// Highest surface under the Three.js point (x, fromY, z), or null when there is none
+export type SurfaceProbe = (x: number, z: number, fromY: number) => SurfaceHit | null
+
+interface Support {
+  assetId: string
+  object: THREE.Object3D
+  meshes: THREE.Object3D[]
+  // Bounds in the asset's frame with scale applied, and that frame, for
+  // assets without meshes
+  localBounds: THREE.Box3
+  localToWorld: THREE.Matrix4
+  worldToLocal: THREE.Matrix4
+}
+
+const DOWN = new THREE.Vector3(0, -1, 0)
+
+// Probe against the static assets at their current pose, except `ignoreId`
+// (an asset being dropped can't rest on itself)
+export function createSurfaceProbe(assets: LoadedAsset[], ignoreId?: string): SurfaceProbe {
+  const supportAssets = assets.filter(a => a.id !== ignoreId && !a.excludeFromExport && (a.disableGravity || a.locked))
+  const supports: Support[] = supportAssets.map(asset => {
+    const meshes: THREE.Object3D[] = []
+    asset.object.traverse(child => {
+      if ((child as THREE.Mesh).isMesh) meshes.push(child)
+    })
+
+    const { localBounds } = createSampleTarget(asset, { position: asset.object.position, quaternion: asset.object.quaternion })
+    const frame = new THREE.Matrix4().compose(asset.object.position, asset.object.quaternion, new THREE.Vector3(1, 1, 1))
+    return { assetId: asset.id, object: asset.object, meshes, localBounds, localToWorld: frame, worldToLocal: frame.clone().invert() }
+  })
+
+  const raycaster = new THREE.Raycaster()
+
+  return (x, z, fromY) => {
+    raycaster.set(new THREE.Vector3(x, fromY, z), DOWN)
+
+    let best: SurfaceHit | null = null
+    for (const support of supports) {
+      // Measuring bounds (getUnscaledLocalBounds) moves an object to the
+      // origin and back, leaving stale world matrices behind
+      if (support.meshes.length > 0) support.object.updateMatrixWorld(true)
+      const height = support.meshes.length > 0
+        ? raycaster.intersectObjects(support.meshes, false)[0]?.point.y
+        : hitBox(support, raycaster.ray)
+      if (height !== undefined && (!best || height > best.height)) {
+        best = { assetId: support.assetId, height }
+      }
+    }
+    return best
+  }
+}
+
+// Height where the ray enters the support's bounds box, if it does. A ray
+// starting inside the box doesn't hit it, as with a mesh seen from inside.
+function hitBox(support: Support, ray: THREE.Ray): number | undefined {
+  if (support.localBounds.isEmpty()) return undefined
+  const localRay = ray.clone().applyMatrix4(support.worldToLocal)
+  if (support.localBounds.containsPoint(localRay.origin)) return undefined
+  const hit = localRay.intersectBox(support.localBounds, new THREE.Vector3())
+  if (!hit) return undefined
+  return hit.applyMatrix4(support.localToWorld).y
+}
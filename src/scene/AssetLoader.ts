@@ -2,6 +2,7 @@ import * as THREE from 'three'
 import { GLTFLoader, type GLTF } from 'three/addons/loaders/GLTFLoader.js'
 import { DRACOLoader } from 'three/addons/loaders/DRACOLoader.js'
 import { USDZLoader } from 'three-usdz-loader'
+import { PhysicsProperties } from '../physics/properties'
 
 export interface LoadedAsset {
   id: string
@@ -13,10 +14,36 @@ export interface LoadedAsset {
   excludeFromExport?: boolean
   locked?: boolean
   disableGravity?: boolean
+  physics?: PhysicsProperties
+  localBounds?: THREE.Box3 // Unscaled local bounds, used when the object has no geometry (headless loads)
+  parentId?: string // Asset this one is attached to and moves with (see hierarchy.ts)
 }
 
 type FileType = 'usd' | 'usdz' | 'gltf' | 'glb' | null
 
+// Find the main 3D file in an asset folder - prioritize USD/USDZ, fall back to GLTF/GLB
+export function findMainFile(files: Map<string, File>): { mainFile: string; fileType: LoadedAsset['fileType'] } | null {
+  for (const [path] of files) {
+    const lower = path.toLowerCase()
+    if (lower.endsWith('.usdz')) {
+      return { mainFile: path, fileType: 'usdz' }
+    } else if (lower.endsWith('.usd') || lower.endsWith('.usda') || lower.endsWith('.usdc')) {
+      return { mainFile: path, fileType: 'usd' }
+    }
+  }
+
+  for (const [path] of files) {
+    const lower = path.toLowerCase()
+    if (lower.endsWith('.glb')) {
+      return { mainFile: path, fileType: 'glb' }
+    } else if (lower.endsWith('.gltf')) {
+      return { mainFile: path, fileType: 'gltf' }
+    }
+  }
+
+  return null
+}
+
 export class AssetLoader {
   private gltfLoader: GLTFLoader
   private usdzLoader: USDZLoader | null = null
@@ -40,43 +67,12 @@ export class AssetLoader {
   }
 
   async loadFromFiles(files: Map<string, File>, folderName: string): Promise<LoadedAsset | null> {
-    // Find the main 3D file - prioritize USD/USDZ
-    let mainFile: string | null = null
-    let fileType: FileType = null
-
-    for (const [path] of files) {
-      const lower = path.toLowerCase()
-      if (lower.endsWith('.usdz')) {
-        mainFile = path
-        fileType = 'usdz'
-        break
-      } else if (lower.endsWith('.usd') || lower.endsWith('.usda') || lower.endsWith('.usdc')) {
-        mainFile = path
-        fileType = 'usd'
-        break
-      }
-    }
-
-    // Fall back to GLTF/GLB if no USD found
-    if (!mainFile) {
-      for (const [path] of files) {
-        const lower = path.toLowerCase()
-        if (lower.endsWith('.glb')) {
-          mainFile = path
-          fileType = 'glb'
-          break
-        } else if (lower.endsWith('.gltf')) {
-          mainFile = path
-          fileType = 'gltf'
-          break
-        }
-      }
-    }
-
-    if (!mainFile || !fileType) {
+    const found = findMainFile(files)
+    if (!found) {
       console.warn('No supported 3D file found in folder (USD, USDZ, GLTF, GLB)')
       return null
     }
+    const { mainFile, fileType } = found
 
     const file = files.get(mainFile)!
 
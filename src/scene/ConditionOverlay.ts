@@ -0,0 +1,144 @@
+import * as THREE from 'three'
+import { SavedCondition, SpawnBounds } from '../hooks/useScene'
+import { LoadedAsset } from './AssetLoader'
+import { areaExtent } from '../randomization/areas'
+
+// Review aids for a set of saved conditions, shown in Initial Conditions mode:
+// translucent ghosts of every condition's poses (onion skin), and a heatmap of
+// one asset's positions on the ground plane. Neither is pickable.
+
+const GHOST_OPACITY = 0.12
+const GHOST_COLOR = 0x9ecbff
+// Cells along the longer side of the heatmap
+const HEATMAP_RESOLUTION = 96
+// Kernel width as a share of the heatmap's longer side
+const HEATMAP_KERNEL = 0.04
+const HEATMAP_OPACITY = 0.75
+// Keeps the heatmap above the region planes
+const HEATMAP_HEIGHT = 0.002
+
+export class ConditionOverlay {
+  private scene: THREE.Scene
+  private ghosts: THREE.Group | null = null
+  private ghostMaterial = new THREE.MeshBasicMaterial({
+    color: GHOST_COLOR,
+    transparent: true,
+    opacity: GHOST_OPACITY,
+    depthWrite: false,
+  })
+  private heatmap: THREE.Mesh | null = null
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene
+  }
+
+  // One ghost per asset per condition. Ghosts share the assets' geometry.
+  setGhosts(assets: LoadedAsset[], conditions: SavedCondition[] | null): void {
+    if (this.ghosts) {
+      this.scene.remove(this.ghosts)
+      this.ghosts = null
+    }
+    if (!conditions || conditions.length === 0) return
+
+    this.ghosts = new THREE.Group()
+    for (const condition of conditions) {
+      for (const asset of assets) {
+        const pose = condition.poses.get(asset.id)
+        if (!pose) continue
+        const ghost = asset.object.clone()
+        ghost.traverse(child => {
+          if ((child as THREE.Mesh).isMesh) (child as THREE.Mesh).material = this.ghostMaterial
+        })
+        ghost.position.copy(pose.position)
+        ghost.quaternion.copy(pose.quaternion)
+        this.ghosts.add(ghost)
+      }
+    }
+    this.ghosts.renderOrder = 1
+    this.scene.add(this.ghosts)
+  }
+
+  // Density of the asset's positions over its spawn region (plus any strays
+  // outside it), from transparent through blue to red. Null hides it.
+  setHeatmap(assetId: string | null, conditions: SavedCondition[], bounds: SpawnBounds | null): void {
+    if (this.heatmap) {
+      this.scene.remove(this.heatmap)
+      this.heatmap.geometry.dispose()
+      const material = this.heatmap.material as THREE.MeshBasicMaterial
+      material.map?.dispose()
+      material.dispose()
+      this.heatmap = null
+    }
+    if (!assetId || !bounds) return
+
+    // Three.js (Y-up) X, -Z -> Z-up X, Y
+    const points = conditions
+      .map(condition => condition.poses.get(assetId)?.position)
+      .filter((p): p is THREE.Vector3 => p !== undefined)
+      .map(p => ({ x: p.x, y: -p.z }))
+    if (points.length === 0) return
+
+    const region = areaExtent(bounds)
+    const minX = Math.min(region.minX, ...points.map(p => p.x))
+    const maxX = Math.max(region.maxX, ...points.map(p => p.x))
+    const minY = Math.min(region.minY, ...points.map(p => p.y))
+    const maxY = Math.max(region.maxY, ...points.map(p => p.y))
+    const sizeX = Math.max(maxX - minX, 1e-3)
+    const sizeY = Math.max(maxY - minY, 1e-3)
+
+    const cell = Math.max(sizeX, sizeY) / HEATMAP_RESOLUTION
+    const width = Math.max(1, Math.round(sizeX / cell))
+    const height = Math.max(1, Math.round(sizeY / cell))
+    const sigma = Math.max(sizeX, sizeY) * HEATMAP_KERNEL
+
+    // Gaussian kernel density, normalized to the densest cell
+    const density = new Float32Array(width * height)
+    for (let j = 0; j < height; j++) {
+      for (let i = 0; i < width; i++) {
+        const x = minX + (i + 0.5) * cell
+        const y = minY + (j + 0.5) * cell
+        let sum = 0
+        for (const p of points) {
+          const d2 = (p.x - x) ** 2 + (p.y - y) ** 2
+          sum += Math.exp(-d2 / (2 * sigma * sigma))
+        }
+        density[j * width + i] = sum
+      }
+    }
+    const peak = Math.max(...density) || 1
+
+    const data = new Uint8Array(width * height * 4)
+    density.forEach((value, index) => {
+      const [r, g, b, a] = heatColor(value / peak)
+      data.set([r, g, b, a], index * 4)
+    })
+    const texture = new THREE.DataTexture(data, width, height, THREE.RGBAFormat)
+    texture.magFilter = THREE.LinearFilter
+    texture.needsUpdate = true
+
+    // Texture rows run along Z-up +Y; the plane is laid flat like the region planes
+    const mesh = new THREE.Mesh(
+      new THREE.PlaneGeometry(width * cell, height * cell),
+      new THREE.MeshBasicMaterial({ map: texture, transparent: true, opacity: HEATMAP_OPACITY, depthWrite: false })
+    )
+    mesh.rotation.x = -Math.PI / 2
+    mesh.position.set(minX + (width * cell) / 2, HEATMAP_HEIGHT, -(minY + (height * cell) / 2))
+    mesh.renderOrder = 2
+    this.heatmap = mesh
+    this.scene.add(mesh)
+  }
+
+  clear(): void {
+    this.setGhosts([], null)
+    this.setHeatmap(null, [], null)
+  }
+}
+
+// Transparent at 0, blue, then red at 1
+function heatColor(t: number): [number, number, number, number] {
+  if (t <= 0.01) return [0, 0, 0, 0]
+  const r = Math.round(255 * Math.min(1, 2 * t))
+  const b = Math.round(255 * Math.min(1, 2 * (1 - t)))
+  const g = Math.round(255 * Math.max(0, 1 - Math.abs(2 * t - 1)) * 0.6)
+  return [r, g, b, Math.round(255 * Math.min(1, 0.3 + t))]
+}
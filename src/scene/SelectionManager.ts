@@ -2,6 +2,7 @@ import * as THREE from 'three'
 import { TransformControls } from 'three/addons/controls/TransformControls.js'
 import { OrbitControls } from 'three/addons/controls/OrbitControls.js'
 import { LoadedAsset } from './AssetLoader'
+import { getDescendants, worldMatrix } from './hierarchy'
 
 export type TransformMode = 'translate' | 'rotate' | 'scale'
 
@@ -11,20 +12,25 @@ export interface TransformChangeEvent {
   scale: THREE.Vector3
 }
 
+export interface TransformSnapshot {
+  position: { x: number; y: number; z: number }
+  rotation: { x: number; y: number; z: number } // Euler degrees
+  scale: { x: number; y: number; z: number }
+}
+
 export interface TransformDragEvent {
   assetId: string
-  before: {
-    position: { x: number; y: number; z: number }
-    rotation: { x: number; y: number; z: number }
-    scale: { x: number; y: number; z: number }
-  }
-  after: {
-    position: { x: number; y: number; z: number }
-    rotation: { x: number; y: number; z: number }
-    scale: { x: number; y: number; z: number }
-  }
+  before: TransformSnapshot
+  after: TransformSnapshot
 }
 
+const GROUND_PLANE = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0)
+const HIGHLIGHT_COLOR = 0x00ffff
+// Other members of a multi-selection are outlined more faintly than the primary
+const SECONDARY_HIGHLIGHT_OPACITY = 0.45
+// Pointer travel (px) below which a press counts as a click
+const CLICK_TOLERANCE = 5
+
 export class SelectionManager {
   private scene: THREE.Scene
   private camera: THREE.Camera
@@ -34,22 +40,39 @@ export class SelectionManager {
   private raycaster: THREE.Raycaster
   private mouse: THREE.Vector2
   private assets: LoadedAsset[] = []
-  private selectedAsset: LoadedAsset | null = null
-  private onSelectionChange: ((asset: LoadedAsset | null) => void) | null = null
+  // Selected assets in the order they were picked; the last is the primary
+  // selection, whose values the property panel shows
+  private selection: LoadedAsset[] = []
+  private onSelectionChange: ((asset: LoadedAsset | null, selection: LoadedAsset[]) => void) | null = null
   private onTransformChange: ((event: TransformChangeEvent) => void) | null = null
-  private highlightBox: THREE.BoxHelper | null = null
+  private highlightBoxes: THREE.BoxHelper[] = []
+  // The gizmo moves this helper for multi-selections; its motion is applied to every member
+  private pivot = new THREE.Object3D()
   private boundsMesh: THREE.Mesh | null = null
   private onBoundsChange: ((mesh: THREE.Mesh) => void) | null = null
+  // Spawn region planes that can be clicked to edit them (randomize mode)
+  private pickableBoundsMeshes: THREE.Mesh[] = []
+  private onBoundsPick: ((mesh: THREE.Mesh) => void) | null = null
+  // While set, clicks place points on the ground instead of selecting (drawing polygons)
+  private onGroundPick: ((point: THREE.Vector3) => void) | null = null
   private isRandomizeMode = false
   private isBoundsSelected = false
   private onTransformDragEnd: ((event: TransformDragEvent) => void) | null = null
-  private dragStartTransform: {
-    position: { x: number; y: number; z: number }
-    rotation: { x: number; y: number; z: number }
-    scale: { x: number; y: number; z: number }
+  private onGroupTransformDragEnd: ((events: TransformDragEvent[]) => void) | null = null
+  // Set while the gizmo is dragged: the transform of the object it moves at
+  // the start, and every asset the drag moves. Followers copy the gizmo's
+  // motion: the members of a multi-selection and the descendants of selected
+  // assets.
+  private drag: {
+    gizmoStart: THREE.Matrix4
+    moved: { asset: LoadedAsset; before: TransformSnapshot; start: THREE.Matrix4; follows: boolean }[]
   } | null = null
   private wasDragging = false
   private mouseDownPos: { x: number; y: number } | null = null
+  // Box selection: armed with B, then a drag in the viewport draws the marquee
+  private marqueeArmed = false
+  private marqueeStart: { x: number; y: number } | null = null
+  private marqueeElement: HTMLDivElement | null = null
 
   constructor(
     scene: THREE.Scene,
@@ -79,50 +102,57 @@ export class SelectionManager {
         this.wasDragging = true
       }
 
-      // Track asset transforms (works in both normal and randomize mode when an asset is selected)
-      if (this.selectedAsset && (!this.isRandomizeMode || !this.isBoundsSelected)) {
+      // Track asset transforms (works in both normal and randomize mode when assets are selected)
+      if (this.selection.length > 0 && (!this.isRandomizeMode || !this.isBoundsSelected)) {
         if (event.value) {
-          // Drag started - capture initial transform
-          const obj = this.selectedAsset.object
-          this.dragStartTransform = {
-            position: { x: obj.position.x, y: obj.position.y, z: obj.position.z },
-            rotation: {
-              x: obj.rotation.x * (180 / Math.PI),
-              y: obj.rotation.y * (180 / Math.PI),
-              z: obj.rotation.z * (180 / Math.PI),
-            },
-            scale: { x: obj.scale.x, y: obj.scale.y, z: obj.scale.z },
+          // Drag started - capture initial transforms
+          const isGroup = this.selection.length > 1
+          const descendants = this.selection
+            .flatMap(asset => getDescendants(this.assets, asset.id))
+            .filter((asset, i, all) => all.indexOf(asset) === i && !this.selection.includes(asset))
+          this.drag = {
+            gizmoStart: worldMatrix(isGroup ? this.pivot : this.selection[0].object),
+            moved: [
+              ...this.selection.map(asset => ({ asset, follows: isGroup })),
+              ...descendants.map(asset => ({ asset, follows: true })),
+            ].map(({ asset, follows }) => ({
+              asset,
+              before: snapshot(asset.object),
+              start: worldMatrix(asset.object),
+              follows,
+            })),
           }
-        } else if (this.dragStartTransform && this.onTransformDragEnd) {
+        } else if (this.drag) {
           // Drag ended - fire callback with before/after
-          const obj = this.selectedAsset.object
-          const after = {
-            position: { x: obj.position.x, y: obj.position.y, z: obj.position.z },
-            rotation: {
-              x: obj.rotation.x * (180 / Math.PI),
-              y: obj.rotation.y * (180 / Math.PI),
-              z: obj.rotation.z * (180 / Math.PI),
-            },
-            scale: { x: obj.scale.x, y: obj.scale.y, z: obj.scale.z },
+          const events = this.drag.moved.map(({ asset, before }) => ({
+            assetId: asset.id,
+            before,
+            after: snapshot(asset.object),
+          }))
+          if (events.length === 1) {
+            this.onTransformDragEnd?.(events[0])
+          } else {
+            this.onGroupTransformDragEnd?.(events)
           }
-          this.onTransformDragEnd({
-            assetId: this.selectedAsset.id,
-            before: this.dragStartTransform,
-            after,
-          })
-          this.dragStartTransform = null
+          if (this.selection.length > 1) this.resetPivot()
+          this.drag = null
         }
       }
     })
 
     // Emit transform changes and update highlight
     this.transformControls.addEventListener('change', () => {
-      if (this.selectedAsset) {
-        // Update highlight box to follow object
+      if (this.drag && this.transformControls.dragging) {
+        this.applyDragMotion(this.drag)
+      }
+
+      const primary = this.getSelected()
+      if (primary) {
+        // Update highlight boxes to follow the objects
         this.updateHighlight()
 
         if (this.onTransformChange) {
-          const obj = this.selectedAsset.object
+          const obj = primary.object
           this.onTransformChange({
             position: obj.position.clone(),
             rotation: obj.rotation.clone(),
@@ -140,6 +170,8 @@ export class SelectionManager {
     // Listen for mouse events to detect intentional clicks vs drags
     renderer.domElement.addEventListener('mousedown', this.onMouseDown)
     renderer.domElement.addEventListener('click', this.onClick)
+    window.addEventListener('mousemove', this.onMouseMove)
+    window.addEventListener('mouseup', this.onMouseUp)
 
     // Keyboard shortcuts
     window.addEventListener('keydown', this.onKeyDown)
@@ -149,7 +181,7 @@ export class SelectionManager {
     this.assets = assets
   }
 
-  setOnSelectionChange(callback: (asset: LoadedAsset | null) => void): void {
+  setOnSelectionChange(callback: (asset: LoadedAsset | null, selection: LoadedAsset[]) => void): void {
     this.onSelectionChange = callback
   }
 
@@ -161,47 +193,76 @@ export class SelectionManager {
     this.onTransformDragEnd = callback
   }
 
+  // Called once per drag of a multi-selection, with every member's change
+  setOnGroupTransformDragEnd(callback: (events: TransformDragEvent[]) => void): void {
+    this.onGroupTransformDragEnd = callback
+  }
+
   select(asset: LoadedAsset | null): void {
-    // Remove previous highlight
-    if (this.highlightBox) {
-      this.scene.remove(this.highlightBox)
-      this.highlightBox.dispose()
-      this.highlightBox = null
-    }
+    this.setSelection(asset ? [asset] : [])
+  }
 
-    this.selectedAsset = asset
+  // Add the asset to the selection, or take it out if it's already in it
+  toggle(asset: LoadedAsset): void {
+    this.setSelection(this.selection.some(a => a.id === asset.id)
+      ? this.selection.filter(a => a.id !== asset.id)
+      : [...this.selection, asset])
+  }
 
-    if (asset) {
-      this.transformControls.attach(asset.object)
+  setSelection(assets: LoadedAsset[]): void {
+    this.clearHighlights()
+    // Keep each asset once, at its latest position
+    this.selection = assets.filter((asset, i) => !assets.slice(i + 1).some(a => a.id === asset.id))
 
-      // Create highlight box that renders on top
-      this.highlightBox = new THREE.BoxHelper(asset.object, 0x00ffff)
-      this.highlightBox.material = new THREE.LineBasicMaterial({
-        color: 0x00ffff,
-        depthTest: false,
-        depthWrite: false,
-        transparent: true,
-        opacity: 0.8,
+    if (this.selection.length > 0) {
+      this.setUpAxisOnly(false)
+      if (this.selection.length === 1) {
+        this.scene.remove(this.pivot)
+        this.transformControls.attach(this.selection[0].object)
+      } else {
+        this.scene.add(this.pivot)
+        this.resetPivot()
+        this.transformControls.attach(this.pivot)
+      }
+
+      // Highlight boxes render on top
+      this.highlightBoxes = this.selection.map((asset, i) => {
+        const box = new THREE.BoxHelper(asset.object, HIGHLIGHT_COLOR)
+        box.material = new THREE.LineBasicMaterial({
+          color: HIGHLIGHT_COLOR,
+          depthTest: false,
+          depthWrite: false,
+          transparent: true,
+          opacity: i === this.selection.length - 1 ? 0.8 : SECONDARY_HIGHLIGHT_OPACITY,
+        })
+        box.renderOrder = 999
+        this.scene.add(box)
+        return box
       })
-      this.highlightBox.renderOrder = 999
-      this.scene.add(this.highlightBox)
     } else {
+      this.scene.remove(this.pivot)
       this.transformControls.detach()
     }
 
     if (this.onSelectionChange) {
-      this.onSelectionChange(asset)
+      this.onSelectionChange(this.getSelected(), this.getSelection())
     }
   }
 
   updateHighlight(): void {
-    if (this.highlightBox && this.selectedAsset) {
-      this.highlightBox.update()
+    for (const box of this.highlightBoxes) box.update()
+    // Keep the group gizmo centred when members move by other means (undo, panel edits)
+    if (this.selection.length > 1 && !this.transformControls.dragging) {
+      this.resetPivot()
     }
   }
 
   getSelected(): LoadedAsset | null {
-    return this.selectedAsset
+    return this.selection[this.selection.length - 1] ?? null
+  }
+
+  getSelection(): LoadedAsset[] {
+    return [...this.selection]
   }
 
   setMode(mode: TransformMode): void {
@@ -221,30 +282,50 @@ export class SelectionManager {
     this.transformControls.setMode('translate')
   }
 
+  // Edit a different bounds mesh, keeping the current transform mode
+  switchBoundsMesh(mesh: THREE.Mesh): void {
+    this.boundsMesh = mesh
+    if (this.isBoundsSelected) {
+      this.transformControls.attach(mesh)
+    }
+  }
+
+  setPickableBoundsMeshes(meshes: THREE.Mesh[], onPick: (mesh: THREE.Mesh) => void): void {
+    this.pickableBoundsMeshes = meshes
+    this.onBoundsPick = onPick
+  }
+
   detachBoundsMesh(): void {
     this.boundsMesh = null
     this.onBoundsChange = null
+    this.pickableBoundsMeshes = []
+    this.onBoundsPick = null
+    this.onGroundPick = null
     this.isRandomizeMode = false
     this.isBoundsSelected = false
+    this.setUpAxisOnly(false)
     this.transformControls.detach()
   }
 
+  // Route clicks to `onPick` with the point hit on the ground plane, or back to selection with null
+  setGroundPicking(onPick: ((point: THREE.Vector3) => void) | null): void {
+    this.onGroundPick = onPick
+  }
+
   selectBounds(): void {
     if (!this.isRandomizeMode || !this.boundsMesh) return
 
-    // Remove asset highlight
-    if (this.highlightBox) {
-      this.scene.remove(this.highlightBox)
-      this.highlightBox.dispose()
-      this.highlightBox = null
-    }
+    // Remove asset highlights
+    this.clearHighlights()
+    this.scene.remove(this.pivot)
 
-    this.selectedAsset = null
+    this.selection = []
     this.isBoundsSelected = true
+    this.setUpAxisOnly(this.transformControls.mode === 'rotate')
     this.transformControls.attach(this.boundsMesh)
 
     if (this.onSelectionChange) {
-      this.onSelectionChange(null)
+      this.onSelectionChange(null, [])
     }
   }
 
@@ -255,12 +336,133 @@ export class SelectionManager {
   setBoundsTransformMode(mode: 'translate' | 'rotate' | 'scale'): void {
     if (this.isRandomizeMode) {
       this.transformControls.setMode(mode)
+      // Spawn regions lie on the table, so they only turn about the up axis
+      this.setUpAxisOnly(mode === 'rotate' && this.isBoundsSelected)
+    }
+  }
+
+  // Whether a drag in the viewport will draw a selection box
+  isBoxSelectArmed(): boolean {
+    return this.marqueeArmed
+  }
+
+  private setUpAxisOnly(upOnly: boolean): void {
+    this.transformControls.showX = !upOnly
+    this.transformControls.showZ = !upOnly
+  }
+
+  private clearHighlights(): void {
+    for (const box of this.highlightBoxes) {
+      this.scene.remove(box)
+      box.dispose()
+    }
+    this.highlightBoxes = []
+  }
+
+  // Centre the group gizmo on the selection's bounds, unrotated and unscaled
+  private resetPivot(): void {
+    const bounds = new THREE.Box3()
+    for (const asset of this.selection) bounds.expandByObject(asset.object)
+    if (!bounds.isEmpty()) bounds.getCenter(this.pivot.position)
+    this.pivot.quaternion.identity()
+    this.pivot.scale.set(1, 1, 1)
+    this.pivot.updateMatrixWorld(true)
+  }
+
+  // Carry the followers along with the gizmo's motion since the drag started.
+  // Scaling rotated objects along world axes can't always be represented
+  // without shear; decomposing keeps the nearest position, rotation and scale.
+  private applyDragMotion(drag: NonNullable<SelectionManager['drag']>): void {
+    const gizmoObject = this.selection.length > 1 ? this.pivot : this.selection[0].object
+    const motion = worldMatrix(gizmoObject).multiply(drag.gizmoStart.clone().invert())
+    for (const { asset, start, follows } of drag.moved) {
+      if (!follows) continue
+      const obj = asset.object
+      motion.clone().multiply(start).decompose(obj.position, obj.quaternion, obj.scale)
     }
   }
 
   private onMouseDown = (event: MouseEvent): void => {
     this.mouseDownPos = { x: event.clientX, y: event.clientY }
     this.wasDragging = false
+
+    if (this.marqueeArmed && event.button === 0 && !this.transformControls.dragging) {
+      this.marqueeStart = { x: event.clientX, y: event.clientY }
+      const container = this.renderer.domElement.parentElement
+      if (container) {
+        this.marqueeElement = document.createElement('div')
+        this.marqueeElement.className = 'selection-marquee'
+        container.appendChild(this.marqueeElement)
+        this.updateMarquee(event)
+      }
+    }
+  }
+
+  private onMouseMove = (event: MouseEvent): void => {
+    if (this.marqueeStart) this.updateMarquee(event)
+  }
+
+  private onMouseUp = (event: MouseEvent): void => {
+    if (!this.marqueeStart) return
+    const start = this.marqueeStart
+    this.endBoxSelect()
+
+    const dx = event.clientX - start.x
+    const dy = event.clientY - start.y
+    // Too small for a box: let the click select as usual
+    if (Math.sqrt(dx * dx + dy * dy) <= CLICK_TOLERANCE) return
+
+    const left = Math.min(start.x, event.clientX)
+    const right = Math.max(start.x, event.clientX)
+    const top = Math.min(start.y, event.clientY)
+    const bottom = Math.max(start.y, event.clientY)
+    const inside = this.assets.filter(asset => {
+      if (asset.locked) return false
+      const point = this.toScreen(new THREE.Box3().setFromObject(asset.object))
+      return point !== null && point.x >= left && point.x <= right && point.y >= top && point.y <= bottom
+    })
+
+    if (inside.length === 0 && !isAdditive(event)) return
+    if (this.isRandomizeMode) this.isBoundsSelected = false
+    this.setSelection(isAdditive(event) ? [...this.selection, ...inside] : inside)
+  }
+
+  // Client coordinates of the bounds' centre, or null if it's behind the camera
+  private toScreen(bounds: THREE.Box3): { x: number; y: number } | null {
+    if (bounds.isEmpty()) return null
+    const ndc = bounds.getCenter(new THREE.Vector3()).project(this.camera)
+    if (ndc.z > 1) return null
+    const rect = this.renderer.domElement.getBoundingClientRect()
+    return {
+      x: rect.left + ((ndc.x + 1) / 2) * rect.width,
+      y: rect.top + ((1 - ndc.y) / 2) * rect.height,
+    }
+  }
+
+  private updateMarquee(event: MouseEvent): void {
+    if (!this.marqueeStart || !this.marqueeElement) return
+    const rect = this.renderer.domElement.getBoundingClientRect()
+    const style = this.marqueeElement.style
+    style.left = `${Math.min(this.marqueeStart.x, event.clientX) - rect.left}px`
+    style.top = `${Math.min(this.marqueeStart.y, event.clientY) - rect.top}px`
+    style.width = `${Math.abs(event.clientX - this.marqueeStart.x)}px`
+    style.height = `${Math.abs(event.clientY - this.marqueeStart.y)}px`
+  }
+
+  private armBoxSelect(): void {
+    this.marqueeArmed = true
+    // The drag draws the box instead of orbiting
+    this.orbitControls.enabled = false
+    this.renderer.domElement.style.cursor = 'crosshair'
+  }
+
+  private endBoxSelect(): void {
+    this.marqueeArmed = false
+    this.marqueeStart = null
+    this.marqueeElement?.remove()
+    this.marqueeElement = null
+    this.orbitControls.enabled = true
+    this.renderer.domElement.style.cursor = ''
   }
 
   private onClick = (event: MouseEvent): void => {
@@ -278,7 +480,7 @@ export class SelectionManager {
       const dx = event.clientX - this.mouseDownPos.x
       const dy = event.clientY - this.mouseDownPos.y
       const distance = Math.sqrt(dx * dx + dy * dy)
-      if (distance > 5) {
+      if (distance > CLICK_TOLERANCE) {
         // Mouse moved too much, this was a drag not a click
         this.mouseDownPos = null
         return
@@ -292,6 +494,12 @@ export class SelectionManager {
 
     this.raycaster.setFromCamera(this.mouse, this.camera)
 
+    if (this.onGroundPick) {
+      const point = this.raycaster.ray.intersectPlane(GROUND_PLANE, new THREE.Vector3())
+      if (point) this.onGroundPick(point)
+      return
+    }
+
     // Get all meshes from non-locked assets
     const meshes: THREE.Object3D[] = []
     for (const asset of this.assets) {
@@ -319,16 +527,25 @@ export class SelectionManager {
           if (this.isRandomizeMode) {
             this.isBoundsSelected = false
           }
-          this.select(asset)
+          if (isAdditive(event)) {
+            this.toggle(asset)
+          } else {
+            this.select(asset)
+          }
           return
         }
       }
     } else {
       // Clicked on nothing
       if (this.isRandomizeMode) {
-        // In randomize mode, clicking empty space returns to bounds selection
+        // In randomize mode, clicking a region plane picks it, empty space
+        // returns to the current bounds
+        const boundsHit = this.raycaster.intersectObjects(this.pickableBoundsMeshes, false)[0]
+        if (boundsHit && this.onBoundsPick) {
+          this.onBoundsPick(boundsHit.object as THREE.Mesh)
+        }
         this.selectBounds()
-      } else {
+      } else if (!isAdditive(event)) {
         // Normal mode - deselect
         this.select(null)
       }
@@ -336,8 +553,11 @@ export class SelectionManager {
   }
 
   private onKeyDown = (event: KeyboardEvent): void => {
-    // Ignore if typing in an input
-    if (event.target instanceof HTMLInputElement) return
+    // Ignore if typing in a form field (inputs, the instruction and notes
+    // textareas, selects)
+    const target = event.target
+    if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return
+    if (target instanceof HTMLElement && target.isContentEditable) return
 
     switch (event.key.toLowerCase()) {
       case 'g':
@@ -349,8 +569,15 @@ export class SelectionManager {
       case 's':
         this.setMode('scale')
         break
+      case 'b':
+        this.armBoxSelect()
+        break
       case 'escape':
-        this.select(null)
+        if (this.marqueeArmed) {
+          this.endBoxSelect()
+        } else {
+          this.select(null)
+        }
         break
       case 'delete':
       case 'backspace':
@@ -363,10 +590,27 @@ export class SelectionManager {
     this.renderer.domElement.removeEventListener('mousedown', this.onMouseDown)
     this.renderer.domElement.removeEventListener('click', this.onClick)
     window.removeEventListener('keydown', this.onKeyDown)
+    window.removeEventListener('mousemove', this.onMouseMove)
+    window.removeEventListener('mouseup', this.onMouseUp)
+    this.endBoxSelect()
     this.transformControls.dispose()
-    if (this.highlightBox) {
-      this.scene.remove(this.highlightBox)
-      this.highlightBox.dispose()
-    }
+    this.clearHighlights()
+  }
+}
+
+// Shift, Ctrl or Cmd adds to (or toggles within) the selection
+function isAdditive(event: MouseEvent): boolean {
+  return event.shiftKey || event.ctrlKey || event.metaKey
+}
+
+function snapshot(obj: THREE.Object3D): TransformSnapshot {
+  return {
+    position: { x: obj.position.x, y: obj.position.y, z: obj.position.z },
+    rotation: {
+      x: obj.rotation.x * (180 / Math.PI),
+      y: obj.rotation.y * (180 / Math.PI),
+      z: obj.rotation.z * (180 / Math.PI),
+    },
+    scale: { x: obj.scale.x, y: obj.scale.y, z: obj.scale.z },
   }
 }
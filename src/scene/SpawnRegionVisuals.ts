@@ -0,0 +1,255 @@
+import * as THREE from 'three'
+import { SpawnBounds } from '../hooks/useScene'
+import { AreaPoint, areaCenter, areaShape, areasMatch, normalizeDegrees, SpawnShape } from '../randomization/areas'
+
+export interface SpawnRegionVisual {
+  id: string
+  bounds: SpawnBounds
+  color: number
+}
+
+// The default region is green; per-asset regions cycle through these
+const DEFAULT_REGION_COLOR = 0x00ff00
+const REGION_COLORS = [0x3fa7ff, 0xffa63f, 0xd46bff, 0xffe14d, 0x4dffd2]
+export const EXCLUSION_ZONE_COLOR = 0xff3b3b
+const DRAFT_COLOR = 0xffffff
+const CIRCLE_SEGMENTS = 64
+// Keeps the polygon being drawn above the region planes
+const DRAFT_HEIGHT = 0.001
+
+// Color of the index-th per-asset region, or of the default region for -1
+export function regionColor(index: number): number {
+  return index < 0 ? DEFAULT_REGION_COLOR : REGION_COLORS[index % REGION_COLORS.length]
+}
+
+// Translucent ground planes (with an outline) for the spawn regions and
+// exclusion zones shown in Initial Conditions mode. Each plane is built in its
+// own flat frame around the region's center: rectangles are a unit square and
+// circles a unit disc scaled to size, polygons keep their vertices. The
+// transform gizmo moves, rotates and scales the plane and boundsFromMesh()
+// reads the region back.
+export class SpawnRegionVisuals {
+  private scene: THREE.Scene
+  private meshes = new Map<string, THREE.Mesh>()
+  private draft: THREE.Group | null = null
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene
+  }
+
+  // Create, update or remove planes to match `visuals`. Planes whose bounds
+  // already match are left alone so an in-progress gizmo drag isn't disturbed.
+  sync(visuals: SpawnRegionVisual[]): void {
+    const ids = new Set(visuals.map(v => v.id))
+    for (const id of [...this.meshes.keys()]) {
+      if (!ids.has(id)) this.remove(id)
+    }
+
+    for (const visual of visuals) {
+      let mesh = this.meshes.get(visual.id)
+      if (!mesh) {
+        mesh = this.create(visual)
+        this.meshes.set(visual.id, mesh)
+      }
+
+      ;(mesh.material as THREE.MeshBasicMaterial).color.setHex(visual.color)
+      const outline = mesh.children[0] as THREE.LineSegments | undefined
+      ;(outline?.material as THREE.LineBasicMaterial | undefined)?.color.setHex(visual.color)
+
+      if (!isUndistorted(mesh) || !areasMatch(SpawnRegionVisuals.boundsFromMesh(mesh), visual.bounds)) {
+        applyBounds(mesh, visual.bounds)
+      }
+    }
+  }
+
+  getMesh(id: string): THREE.Mesh | undefined {
+    return this.meshes.get(id)
+  }
+
+  getMeshes(): THREE.Mesh[] {
+    return [...this.meshes.values()]
+  }
+
+  regionIdOf(mesh: THREE.Object3D): string | undefined {
+    return mesh.userData.spawnRegionId
+  }
+
+  // Show the vertices placed so far while drawing a polygon, or hide them with null
+  setDraft(points: AreaPoint[] | null): void {
+    if (this.draft) {
+      this.scene.remove(this.draft)
+      this.draft.traverse(disposeObject)
+      this.draft = null
+    }
+    if (!points || points.length === 0) return
+
+    const positions = points.map(p => new THREE.Vector3(p.x, DRAFT_HEIGHT, -p.y))
+    const geometry = new THREE.BufferGeometry().setFromPoints(positions)
+    const material = { color: DRAFT_COLOR, depthTest: false, transparent: true }
+
+    this.draft = new THREE.Group()
+    this.draft.add(new THREE.Line(geometry, new THREE.LineBasicMaterial(material)))
+    this.draft.add(new THREE.Points(geometry.clone(), new THREE.PointsMaterial({ ...material, size: 6, sizeAttenuation: false })))
+    this.draft.renderOrder = 999
+    this.scene.add(this.draft)
+  }
+
+  clear(): void {
+    for (const id of [...this.meshes.keys()]) {
+      this.remove(id)
+    }
+    this.setDraft(null)
+  }
+
+  // Region covered by a plane (Z-up), honoring the gizmo's translation,
+  // rotation about the up axis and scale
+  static boundsFromMesh(mesh: THREE.Mesh): SpawnBounds {
+    // Convert back from Three.js Y-up to Z-up
+    const center = { x: mesh.position.x, y: -mesh.position.z }
+    const { x: scaleX, y: scaleY } = mesh.scale
+    const yaw = planeYaw(mesh)
+
+    switch (mesh.userData.spawnShape as SpawnShape) {
+      case 'circle': {
+        // The unit disc has radius 0.5; average in case the gizmo scaled one axis
+        const radius = (scaleX + scaleY) / 4
+        const innerRadius = mesh.userData.innerRatio * radius
+        return { shape: 'circle', centerX: center.x, centerY: center.y, radius, ...(innerRadius > 0 ? { innerRadius } : {}) }
+      }
+      case 'polygon': {
+        const cos = Math.cos(yaw * (Math.PI / 180))
+        const sin = Math.sin(yaw * (Math.PI / 180))
+        const localPoints = mesh.userData.localPoints as [number, number][]
+        return {
+          shape: 'polygon',
+          points: localPoints.map(([lx, ly]) => {
+            const x = lx * scaleX
+            const y = ly * scaleY
+            return [center.x + x * cos - y * sin, center.y + x * sin + y * cos]
+          }),
+        }
+      }
+      default:
+        return {
+          minX: center.x - scaleX / 2,
+          maxX: center.x + scaleX / 2,
+          minY: center.y - scaleY / 2,
+          maxY: center.y + scaleY / 2,
+          rotation: yaw,
+        }
+    }
+  }
+
+  private create(visual: SpawnRegionVisual): THREE.Mesh {
+    const material = new THREE.MeshBasicMaterial({
+      color: visual.color,
+      transparent: true,
+      opacity: 0.3,
+      depthWrite: false,
+      side: THREE.DoubleSide,
+    })
+    const mesh = new THREE.Mesh(new THREE.BufferGeometry(), material)
+    mesh.userData.spawnRegionId = visual.id
+    applyBounds(mesh, visual.bounds)
+    this.scene.add(mesh)
+    return mesh
+  }
+
+  private remove(id: string): void {
+    const mesh = this.meshes.get(id)
+    if (!mesh) return
+    this.scene.remove(mesh)
+    mesh.traverse(disposeObject)
+    this.meshes.delete(id)
+  }
+}
+
+// Rebuild a plane's geometry and outline for `bounds` and reset its transform
+function applyBounds(mesh: THREE.Mesh, bounds: SpawnBounds): void {
+  const center = areaCenter(bounds)
+  let outline: THREE.Vector2[][]
+  let yaw = 0
+
+  mesh.geometry.dispose()
+  for (const child of [...mesh.children]) {
+    mesh.remove(child)
+    disposeObject(child)
+  }
+  mesh.userData.spawnShape = areaShape(bounds)
+
+  switch (bounds.shape) {
+    case 'circle': {
+      const innerRatio = (bounds.innerRadius ?? 0) / bounds.radius
+      mesh.userData.innerRatio = innerRatio
+      mesh.geometry = innerRatio > 0
+        ? new THREE.RingGeometry(innerRatio / 2, 0.5, CIRCLE_SEGMENTS)
+        : new THREE.CircleGeometry(0.5, CIRCLE_SEGMENTS)
+      outline = innerRatio > 0 ? [circlePoints(0.5), circlePoints(innerRatio / 2)] : [circlePoints(0.5)]
+      mesh.scale.set(2 * bounds.radius, 2 * bounds.radius, 1)
+      break
+    }
+    case 'polygon': {
+      const localPoints = bounds.points.map(([x, y]): [number, number] => [x - center.x, y - center.y])
+      mesh.userData.localPoints = localPoints
+      const contour = localPoints.map(([x, y]) => new THREE.Vector2(x, y))
+      mesh.geometry = new THREE.ShapeGeometry(new THREE.Shape(contour))
+      outline = [contour]
+      mesh.scale.set(1, 1, 1)
+      break
+    }
+    default: {
+      mesh.geometry = new THREE.PlaneGeometry(1, 1)
+      outline = [[new THREE.Vector2(-0.5, -0.5), new THREE.Vector2(0.5, -0.5), new THREE.Vector2(0.5, 0.5), new THREE.Vector2(-0.5, 0.5)]]
+      mesh.scale.set(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY, 1)
+      yaw = bounds.rotation ?? 0
+    }
+  }
+
+  // The geometry lies in local XY; rotating -90 degrees around X lays it on the
+  // ground with local Y along Three.js -Z (Z-up Y). Yaw then turns it about the up axis.
+  mesh.quaternion.setFromEuler(new THREE.Euler(-Math.PI / 2, yaw * (Math.PI / 180), 0, 'YXZ'))
+  // Position: centerX stays, Y=0 (ground), Z=-centerY (Z-up Y becomes -Three.js Z)
+  mesh.position.set(center.x, 0, -center.y)
+
+  const color = (mesh.material as THREE.MeshBasicMaterial).color
+  const segments: THREE.Vector3[] = []
+  for (const loop of outline) {
+    loop.forEach((point, i) => {
+      const next = loop[(i + 1) % loop.length]
+      segments.push(new THREE.Vector3(point.x, point.y, 0), new THREE.Vector3(next.x, next.y, 0))
+    })
+  }
+  const lines = new THREE.LineSegments(
+    new THREE.BufferGeometry().setFromPoints(segments),
+    new THREE.LineBasicMaterial({ color, transparent: true, opacity: 0.8, depthTest: false })
+  )
+  mesh.add(lines)
+}
+
+// Rotation of a plane about the up axis, in degrees counter-clockwise seen from above (Z-up)
+function planeYaw(mesh: THREE.Object3D): number {
+  const axis = new THREE.Vector3(1, 0, 0).applyQuaternion(mesh.quaternion)
+  return normalizeDegrees(Math.atan2(-axis.z, axis.x) * (180 / Math.PI))
+}
+
+// Whether a plane still lies flat (the gizmo can tilt it) and, for circles, is
+// scaled evenly; otherwise sync() rebuilds it from the state
+function isUndistorted(mesh: THREE.Mesh): boolean {
+  const normal = new THREE.Vector3(0, 0, 1).applyQuaternion(mesh.quaternion)
+  if (normal.y < 1 - 1e-9) return false
+  return mesh.userData.spawnShape !== 'circle' || mesh.scale.x === mesh.scale.y
+}
+
+function circlePoints(radius: number): THREE.Vector2[] {
+  return Array.from({ length: CIRCLE_SEGMENTS }, (_, i) => {
+    const angle = (2 * Math.PI * i) / CIRCLE_SEGMENTS
+    return new THREE.Vector2(radius * Math.cos(angle), radius * Math.sin(angle))
+  })
+}
+
+function disposeObject(object: THREE.Object3D): void {
+  const { geometry, material } = object as THREE.Mesh
+  geometry?.dispose()
+  if (Array.isArray(material)) material.forEach(m => m.dispose())
+  else material?.dispose()
+}
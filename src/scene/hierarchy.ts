@@ -0,0 +1,142 @@
+import * as THREE from 'three'
+import { LoadedAsset } from './AssetLoader'
+import { SavedPose } from '../hooks/useScene'
+
+// Parenting between assets, e.g. a plate on a tray. The hierarchy is logical:
+// every asset's object stays a direct child of the scene and keeps its world
+// transform, and an asset names the asset it is attached to in parentId.
+// Moving an asset carries its descendants rigidly, so poses (SavedPose) stay
+// world poses everywhere. A parentId naming an asset that isn't loaded (it was
+// removed) is ignored, which lets undoing the removal restore the hierarchy.
+
+export interface HierarchyRow {
+  asset: LoadedAsset
+  depth: number // 0 for root assets
+}
+
+export function getParent(assets: LoadedAsset[], asset: LoadedAsset): LoadedAsset | undefined {
+  return asset.parentId ? assets.find(a => a.id === asset.parentId) : undefined
+}
+
+// Nearest first
+export function getAncestors(assets: LoadedAsset[], asset: LoadedAsset): LoadedAsset[] {
+  const ancestors: LoadedAsset[] = []
+  let parent = getParent(assets, asset)
+  // The guard stops at a cycle, which canAttach rules out
+  while (parent && !ancestors.includes(parent) && parent !== asset) {
+    ancestors.push(parent)
+    parent = getParent(assets, parent)
+  }
+  return ancestors
+}
+
+export function getChildren(assets: LoadedAsset[], id: string): LoadedAsset[] {
+  return assets.filter(a => a.parentId === id && a.id !== id)
+}
+
+// Depth-first, parents before their children
+export function getDescendants(assets: LoadedAsset[], id: string): LoadedAsset[] {
+  const descendants: LoadedAsset[] = []
+  const visit = (parentId: string) => {
+    for (const child of getChildren(assets, parentId)) {
+      if (descendants.includes(child)) continue
+      descendants.push(child)
+      visit(child.id)
+    }
+  }
+  visit(id)
+  return descendants
+}
+
+// Whether `childId` can be attached to `parentId` (null detaches it): an asset
+// can't be attached to itself or to one of its descendants
+export function canAttach(assets: LoadedAsset[], childId: string, parentId: string | null): boolean {
+  if (parentId === null) return true
+  if (parentId === childId) return false
+  return !getDescendants(assets, childId).some(a => a.id === parentId)
+}
+
+// Outliner order: each root asset followed by its subtree, siblings in list order
+export function hierarchyRows(assets: LoadedAsset[]): HierarchyRow[] {
+  const rows: HierarchyRow[] = []
+  const visit = (asset: LoadedAsset, depth: number) => {
+    if (rows.some(row => row.asset === asset)) return
+    rows.push({ asset, depth })
+    for (const child of getChildren(assets, asset.id)) visit(child, depth + 1)
+  }
+  for (const asset of assets) {
+    if (!getParent(assets, asset)) visit(asset, 0)
+  }
+  return rows
+}
+
+// Sorted so every asset comes after its ancestors (stable otherwise)
+export function parentsFirst<T>(assets: LoadedAsset[], items: T[], idOf: (item: T) => string): T[] {
+  const depth = (item: T) => {
+    const asset = assets.find(a => a.id === idOf(item))
+    return asset ? getAncestors(assets, asset).length : 0
+  }
+  return items.map(item => ({ item, depth: depth(item) }))
+    .sort((a, b) => a.depth - b.depth)
+    .map(entry => entry.item)
+}
+
+export function worldMatrix(object: THREE.Object3D): THREE.Matrix4 {
+  return new THREE.Matrix4().compose(object.position, object.quaternion, object.scale)
+}
+
+// Move the asset's descendants along with it. `before` is the asset's
+// transform (worldMatrix) before it moved.
+export function carryDescendants(assets: LoadedAsset[], id: string, before: THREE.Matrix4): void {
+  const asset = assets.find(a => a.id === id)
+  if (!asset) return
+  const motion = worldMatrix(asset.object).multiply(before.clone().invert())
+  for (const descendant of getDescendants(assets, id)) {
+    const obj = descendant.object
+    motion.clone().multiply(worldMatrix(obj)).decompose(obj.position, obj.quaternion, obj.scale)
+  }
+}
+
+// The asset's transform relative to its nearest ancestor in `assets` (the
+// world transform for root assets)
+export function localMatrix(assets: LoadedAsset[], asset: LoadedAsset): THREE.Matrix4 {
+  const parent = getAncestors(assets, asset)[0]
+  const world = worldMatrix(asset.object)
+  return parent ? worldMatrix(parent.object).invert().multiply(world) : world
+}
+
+// Assets below a dynamic asset ride along with it: the randomizer moves them
+// with their ancestor instead of sampling them
+export function isCarried(assets: LoadedAsset[], asset: LoadedAsset): boolean {
+  return getAncestors(assets, asset).some(isDynamic)
+}
+
+// Poses for a sampled condition with the carried assets filled in: each keeps
+// its offset in `base` from its nearest ancestor with a pose in `sampled`
+export function withCarriedPoses(
+  assets: LoadedAsset[],
+  sampled: Map<string, SavedPose>,
+  base: Map<string, SavedPose>
+): Map<string, SavedPose> {
+  const poses = new Map(sampled)
+  for (const { asset } of hierarchyRows(assets)) {
+    const basePose = base.get(asset.id)
+    if (poses.has(asset.id) || !basePose || !isCarried(assets, asset)) continue
+    const anchor = getAncestors(assets, asset).find(a => poses.has(a.id) && base.has(a.id))
+    if (!anchor) continue
+
+    const motion = poseMatrix(poses.get(anchor.id)!).multiply(poseMatrix(base.get(anchor.id)!).invert())
+    const pose = { position: new THREE.Vector3(), quaternion: new THREE.Quaternion() }
+    motion.multiply(poseMatrix(basePose)).decompose(pose.position, pose.quaternion, new THREE.Vector3())
+    poses.set(asset.id, pose)
+  }
+  return poses
+}
+
+function poseMatrix(pose: SavedPose): THREE.Matrix4 {
+  return new THREE.Matrix4().compose(pose.position, pose.quaternion, new THREE.Vector3(1, 1, 1))
+}
+
+function isDynamic(asset: LoadedAsset): boolean {
+  return !asset.excludeFromExport && !asset.disableGravity && !asset.locked
+}
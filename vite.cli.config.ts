@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite'
+
+// Bundles the headless CLI (src/cli) for Node. Dependencies stay external and
+// are resolved from node_modules at runtime.
+export default defineConfig({
+  build: {
+    ssr: 'src/cli/main.ts',
+    outDir: 'dist-cli',
+    target: 'node18',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'compose-env.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})